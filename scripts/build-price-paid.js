@@ -0,0 +1,270 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { fileURLToPath } from 'url';
+import Database from 'better-sqlite3';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const CSV_DIR = path.join(__dirname, '..', 'ppd');
+const OUTPUT_DB = path.resolve(
+  process.env.PRICE_PAID_DB_PATH || path.join(__dirname, '..', 'data', 'price-paid.sqlite')
+);
+const DOWNLOAD_BASE =
+  'http://prod.publicdata.landregistry.gov.uk.s3-website-eu-west-1.amazonaws.com';
+const ROWS_PER_TRANSACTION = 100000;
+
+const PROPERTY_TYPES = { D: 'detached', S: 'semi-detached', T: 'terraced', F: 'flat', O: 'other' };
+const ESTATE_TYPES = { F: 'freehold', L: 'leasehold' };
+const CATEGORIES = { A: 'standard', B: 'additional' };
+
+function parseArgs(argv) {
+  const append = argv.includes('--append');
+  const files = argv.filter(arg => arg !== '--append');
+  return { append, files };
+}
+
+function resolveInputFiles(files) {
+  if (files.length > 0) {
+    return files.map(file => path.resolve(file));
+  }
+  if (!fs.existsSync(CSV_DIR)) {
+    throw new Error(
+      [
+        `CSV directory not found: ${CSV_DIR}`,
+        ``,
+        `To build the price-paid database, download the HM Land Registry Price Paid Data CSVs into:`,
+        `  ppd/*.csv`,
+        ``,
+        `Options:`,
+        `  - Everything since 1995 (about 5GB): ${DOWNLOAD_BASE}/pp-complete.csv`,
+        `  - A single year, e.g.: ${DOWNLOAD_BASE}/pp-2024.csv`,
+        `  - Or pass the files: npm run build:price-paid -- pp-2023.csv pp-2024.csv`,
+        ``,
+        `Apply a monthly update file to an existing database with --append:`,
+        `  npm run build:price-paid -- --append pp-monthly-update-new-version.csv`,
+      ].join('\n')
+    );
+  }
+  return fs
+    .readdirSync(CSV_DIR)
+    .filter(f => f.toLowerCase().endsWith('.csv'))
+    .sort()
+    .map(f => path.join(CSV_DIR, f));
+}
+
+function parseCsvLine(line) {
+  const parts = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      // Inside a quoted field, "" stands for one quote character
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+      continue;
+    }
+    if (ch === ',' && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * The sale's price and date, or a reason the row cannot be imported.
+ */
+function parseSale(cols) {
+  const price = Number(cols[1]);
+  if (!/^\d+$/.test(cols[1].trim()) || !Number.isSafeInteger(price)) {
+    return { error: `invalid price "${cols[1]}"` };
+  }
+  const date = cols[2].trim().slice(0, 10);
+  const parsedDate = new Date(`${date}T00:00:00Z`);
+  if (Number.isNaN(parsedDate.getTime()) || parsedDate.toISOString().slice(0, 10) !== date) {
+    return { error: `invalid date "${cols[2]}"` };
+  }
+  const propertyType = PROPERTY_TYPES[cols[4].trim()];
+  if (!propertyType) {
+    return { error: `unknown property type "${cols[4]}"` };
+  }
+  return { price, date, propertyType };
+}
+
+function createSchema(db) {
+  db.exec(`
+    DROP TABLE IF EXISTS transactions;
+
+    CREATE TABLE transactions (
+      transaction_id TEXT PRIMARY KEY,
+      price INTEGER NOT NULL,
+      date TEXT NOT NULL,
+      postcode TEXT,
+      property_type TEXT NOT NULL,
+      new_build INTEGER,
+      estate_type TEXT,
+      paon TEXT,
+      saon TEXT,
+      street TEXT,
+      locality TEXT,
+      town TEXT,
+      district TEXT,
+      county TEXT,
+      category TEXT
+    );
+  `);
+}
+
+function createIndexes(db) {
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_transactions_postcode_date ON transactions(postcode, date);
+    CREATE INDEX IF NOT EXISTS idx_transactions_street_town ON transactions(street, town);
+    CREATE INDEX IF NOT EXISTS idx_transactions_town ON transactions(town);
+    CREATE INDEX IF NOT EXISTS idx_transactions_locality ON transactions(locality);
+    CREATE INDEX IF NOT EXISTS idx_transactions_district_date ON transactions(district, date);
+    CREATE INDEX IF NOT EXISTS idx_transactions_county_date ON transactions(county, date);
+    CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
+  `);
+}
+
+async function buildDatabase() {
+  const { append, files: requestedFiles } = parseArgs(process.argv.slice(2));
+  const files = resolveInputFiles(requestedFiles);
+  if (append && !fs.existsSync(OUTPUT_DB)) {
+    throw new Error(`--append needs an existing database at ${OUTPUT_DB}`);
+  }
+  fs.mkdirSync(path.dirname(OUTPUT_DB), { recursive: true });
+
+  const start = Date.now();
+  console.log(`🗂️  ${append ? 'Updating' : 'Building'} price-paid database...`);
+  console.log(` - Source files: ${files.length}`);
+  console.log(` - Output DB: ${OUTPUT_DB}`);
+
+  const db = new Database(OUTPUT_DB);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+  if (!append) {
+    createSchema(db);
+  }
+
+  const upsertTransaction = db.prepare(`
+    INSERT OR REPLACE INTO transactions (
+      transaction_id,
+      price,
+      date,
+      postcode,
+      property_type,
+      new_build,
+      estate_type,
+      paon,
+      saon,
+      street,
+      locality,
+      town,
+      district,
+      county,
+      category
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const deleteTransaction = db.prepare('DELETE FROM transactions WHERE transaction_id = ?');
+
+  let totalRows = 0;
+  let deletedRows = 0;
+  let skippedRows = 0;
+  let pendingRows = 0;
+  db.exec('BEGIN');
+
+  for (const filePath of files) {
+    console.log(`   • Ingesting ${path.basename(filePath)}`);
+
+    const rl = readline.createInterface({
+      input: fs.createReadStream(filePath),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of rl) {
+      if (!line) continue;
+      const cols = parseCsvLine(line);
+      if (cols.length < 15) {
+        console.warn(`Skipping malformed line in ${filePath}: ${line}`);
+        continue;
+      }
+
+      // Columns: id, price, date, postcode, type, old/new, duration, PAON, SAON, street,
+      // locality, town, district, county, PPD category and (in update files) record status
+      const transactionId = cols[0]
+        .trim()
+        .replace(/^\{|\}$/g, '')
+        .toUpperCase();
+      const recordStatus = (cols[15] || 'A').trim();
+      if (recordStatus === 'D') {
+        deletedRows += deleteTransaction.run(transactionId).changes;
+        continue;
+      }
+
+      const sale = parseSale(cols);
+      if (sale.error) {
+        console.warn(`Skipping line with ${sale.error} in ${filePath}: ${line}`);
+        skippedRows++;
+        continue;
+      }
+      upsertTransaction.run(
+        transactionId,
+        sale.price,
+        sale.date,
+        cols[3].trim().toUpperCase() || null,
+        sale.propertyType,
+        cols[5] === 'Y' ? 1 : cols[5] === 'N' ? 0 : null,
+        ESTATE_TYPES[cols[6]] || null,
+        cols[7] || null,
+        cols[8] || null,
+        cols[9] || null,
+        cols[10] || null,
+        cols[11] || null,
+        cols[12] || null,
+        cols[13] || null,
+        CATEGORIES[cols[14]] || null
+      );
+      totalRows++;
+
+      if (++pendingRows >= ROWS_PER_TRANSACTION) {
+        db.exec('COMMIT');
+        db.exec('BEGIN');
+        pendingRows = 0;
+      }
+    }
+  }
+
+  db.exec('COMMIT');
+  console.log('   • Building indexes');
+  createIndexes(db);
+  db.exec('ANALYZE');
+  db.close();
+
+  const elapsed = ((Date.now() - start) / 1000).toFixed(1);
+  console.log(
+    `✅ Price-paid database ${append ? 'updated' : 'built'} with ${totalRows.toLocaleString()} rows${deletedRows ? ` (${deletedRows.toLocaleString()} deleted)` : ''} in ${elapsed}s`
+  );
+  console.log(`   Location: ${OUTPUT_DB}`);
+  if (skippedRows) {
+    console.warn(
+      `⚠️  Skipped ${skippedRows.toLocaleString()} rows with an invalid price, date or property type`
+    );
+  }
+}
+
+buildDatabase().catch(err => {
+  console.error('❌ Failed to build price-paid database:', err);
+  process.exit(1);
+});
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+/** Transaction ID, price, date, postcode, property type, street and PPD category. */
+export type Sale = [string, number, string, string, string, string, string];
+
+/**
+ * Build a price-paid database like `npm run build:price-paid` in a temporary directory.
+ * Every sale is a freehold resale at house number 1 in Mainstone, Plymouth.
+ */
+export function createPricePaidDb(sales: Sale[]): string {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'price-paid-'));
+  const dbPath = path.join(tmpDir, 'price-paid.sqlite');
+  const db = new Database(dbPath);
+
+  db.exec(`
+    CREATE TABLE transactions (
+      transaction_id TEXT PRIMARY KEY,
+      price INTEGER NOT NULL,
+      date TEXT NOT NULL,
+      postcode TEXT,
+      property_type TEXT NOT NULL,
+      new_build INTEGER,
+      estate_type TEXT,
+      paon TEXT,
+      saon TEXT,
+      street TEXT,
+      locality TEXT,
+      town TEXT,
+      district TEXT,
+      county TEXT,
+      category TEXT
+    );
+  `);
+
+  const insert = db.prepare(`
+    INSERT INTO transactions VALUES (?, ?, ?, ?, ?, 0, 'freehold', '1', NULL, ?, ?, ?, ?, ?, ?)
+  `);
+  sales.forEach(([id, price, date, postcode, type, street, category]) =>
+    insert.run(
+      id,
+      price,
+      date,
+      postcode,
+      type,
+      street,
+      'MAINSTONE',
+      'PLYMOUTH',
+      'CITY OF PLYMOUTH',
+      'CITY OF PLYMOUTH',
+      category
+    )
+  );
+  db.close();
+  return dbPath;
+}
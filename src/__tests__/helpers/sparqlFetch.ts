@@ -0,0 +1,38 @@
+import { jest } from '@jest/globals';
+
+export type SparqlFetchMock = jest.Mock<typeof fetch>;
+
+const realFetch = global.fetch;
+
+/**
+ * The SPARQL query sent in a fetch call's form-encoded body.
+ */
+export function sentQuery(init?: RequestInit): string {
+  return new URLSearchParams(init?.body as string).get('query') || '';
+}
+
+/**
+ * The SPARQL queries sent through a fetch mock, in order.
+ */
+export function sentQueries(mockFetch: SparqlFetchMock): string[] {
+  return mockFetch.mock.calls.map(([, init]) => sentQuery(init));
+}
+
+/**
+ * Install a fetch mock as the global fetch, answering each SPARQL query with the bindings
+ * `respond` returns for it.
+ */
+export function mockSparqlFetch(respond: (query: string) => unknown[]): SparqlFetchMock {
+  const mockFetch = jest.fn<typeof fetch>(async (_url, init) =>
+    Response.json({ results: { bindings: respond(sentQuery(init)) } })
+  );
+  global.fetch = mockFetch;
+  return mockFetch;
+}
+
+/**
+ * Put back the fetch replaced by mockSparqlFetch.
+ */
+export function restoreFetch(): void {
+  global.fetch = realFetch;
+}
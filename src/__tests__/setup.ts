@@ -0,0 +1,4 @@
+// Tests mock fetch with different responses to the same query, so never reuse cached ones
+process.env.SPARQL_CACHE = 'off';
+// Mocked requests need no protecting from, so do not pace them
+process.env.SPARQL_REQUESTS_PER_SECOND = '100000';
@@ -0,0 +1,57 @@
+import {
+  normalizeAddressText,
+  placeVariants,
+  streetPrefixes,
+  streetVariants,
+} from '../../utils/addressNormalizer.js';
+
+describe('addressNormalizer', () => {
+  describe('normalizeAddressText', () => {
+    it('should upper-case, strip apostrophes and punctuation and collapse whitespace', () => {
+      expect(normalizeAddressText("  St. John's   Rd, ")).toBe('ST JOHNS RD');
+      expect(normalizeAddressText('Stoke-on-Trent')).toBe('STOKE-ON-TRENT');
+    });
+  });
+
+  describe('streetVariants', () => {
+    it('should keep the typed spelling first and expand street-type abbreviations', () => {
+      expect(streetVariants('Carlton Rd')).toEqual(['CARLTON RD', 'CARLTON ROAD']);
+      expect(streetVariants('High St')).toEqual(['HIGH ST', 'HIGH STREET']);
+    });
+
+    it('should try Saint/St and apostrophe spellings', () => {
+      expect(streetVariants('St Johns Road')).toEqual([
+        'ST JOHNS ROAD',
+        "ST JOHN'S ROAD",
+        'SAINT JOHNS ROAD',
+        "SAINT JOHN'S ROAD",
+      ]);
+    });
+
+    it('should leave full street names unchanged', () => {
+      expect(streetVariants('PATTINSON DRIVE')).toEqual(['PATTINSON DRIVE']);
+    });
+
+    it('should cap the number of variants', () => {
+      expect(streetVariants('Saints Peters Pauls Marys Johns Road').length).toBeLessThanOrEqual(12);
+    });
+  });
+
+  describe('placeVariants', () => {
+    it('should not treat a trailing word as a street type', () => {
+      expect(placeVariants('Kings Lynn')).toEqual(['KINGS LYNN', "KING'S LYNN"]);
+      expect(placeVariants('London')).toEqual(['LONDON']);
+    });
+  });
+
+  describe('streetPrefixes', () => {
+    it('should drop the street type and possessive S', () => {
+      expect(streetPrefixes('Carlton Rd')).toEqual(['CARLTON']);
+      expect(streetPrefixes("St John's Road")).toEqual(['ST JOHN', 'SAINT JOHN']);
+    });
+
+    it('should keep single-word names whole', () => {
+      expect(streetPrefixes('Broadway')).toEqual(['BROADWAY']);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { collectAreaSales } from '../../services/areaSalesService.js';
+import { AreaSelectionSchema } from '../../models/area.js';
+import { resetConfig } from '../../utils/config.js';
+import { createPricePaidDb } from '../helpers/pricePaidDb.js';
+import {
+  mockSparqlFetch,
+  restoreFetch,
+  SparqlFetchMock,
+  sentQueries,
+} from '../helpers/sparqlFetch.js';
+
+function createTempDb(): string {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'area-sales-db-'));
+  const dbPath = path.join(tmpDir, 'postcodes.sqlite');
+  const db = new Database(dbPath);
+
+  db.exec(`
+    CREATE TABLE postcodes (
+      postcode TEXT PRIMARY KEY,
+      positional_quality INTEGER,
+      easting INTEGER,
+      northing INTEGER,
+      country_code TEXT,
+      nhs_regional_ha_code TEXT,
+      nhs_ha_code TEXT,
+      admin_county_code TEXT,
+      admin_district_code TEXT,
+      admin_ward_code TEXT
+    );
+    CREATE VIRTUAL TABLE postcodes_rtree USING rtree(id, minX, maxX, minY, maxY);
+  `);
+
+  const insertPostcode = db.prepare(
+    `INSERT INTO postcodes (postcode, positional_quality, easting, northing) VALUES (?, 10, ?, ?)`
+  );
+  const insertRtree = db.prepare(
+    `INSERT INTO postcodes_rtree (id, minX, maxX, minY, maxY) VALUES (?, ?, ?, ?, ?)`
+  );
+
+  const rows: Array<[string, number, number]> = [
+    ['AB1 1AA', 1000, 1000],
+    ['AB1 1AB', 1300, 1400],
+    ['AB1 2AA', 5000, 5000],
+  ];
+  for (const [postcode, easting, northing] of rows) {
+    const info = insertPostcode.run(postcode, easting, northing);
+    insertRtree.run(info.lastInsertRowid, easting, easting, northing, northing);
+  }
+
+  db.close();
+  return dbPath;
+}
+
+describe('areaSalesService', () => {
+  const dbPath = createTempDb();
+  const endpoint = 'https://example.com/sparql';
+  let total: number;
+  let mockFetch: SparqlFetchMock;
+
+  beforeEach(() => {
+    total = 3;
+    mockFetch = mockSparqlFetch(query => {
+      if (query.includes('COUNT(')) {
+        return [{ count: { value: String(total) } }];
+      }
+      // Serve as many rows as the page asks for, up to the total
+      const limit = Number(/LIMIT (\d+)/.exec(query)?.[1] ?? 100);
+      const offset = Number(/OFFSET (\d+)/.exec(query)?.[1] ?? 0);
+      return Array.from({ length: Math.max(0, Math.min(limit, total - offset)) }, () => ({
+        amount: { value: '250000' },
+        date: { value: '2023-05-01' },
+        postcode: { value: 'AB1 1AA' },
+        propertyType: { value: 'http://landregistry.data.gov.uk/def/common/terraced' },
+      }));
+    });
+  });
+
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  it('should page through a postcode until maxSales is reached', async () => {
+    total = 2500;
+
+    const result = await collectAreaSales(
+      endpoint,
+      AreaSelectionSchema.parse({ postcode: 'ab1 1aa', maxSales: 2200 })
+    );
+
+    const pageQueries = sentQueries(mockFetch).filter(query => !query.includes('COUNT('));
+    expect(pageQueries.map(query => /LIMIT (\d+)/.exec(query)?.[1])).toEqual([
+      '1000',
+      '1000',
+      '200',
+    ]);
+    expect(pageQueries[2]).toContain('OFFSET 2000');
+    expect(result.area).toEqual({ type: 'postcode', label: 'AB1 1AA' });
+    expect(result.sales).toHaveLength(2200);
+    expect(result.total).toBe(2500);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should expand a sector from the Code-Point database', async () => {
+    const result = await collectAreaSales(
+      endpoint,
+      AreaSelectionSchema.parse({ postcode: 'AB1 1', propertyType: 'terraced' }),
+      { dbPath }
+    );
+
+    const [countQuery, pageQuery] = sentQueries(mockFetch);
+    expect(countQuery).toContain('VALUES ?postcode {"AB1 1AA"^^xsd:string "AB1 1AB"^^xsd:string}');
+    expect(pageQuery).toContain('LIMIT 5000');
+    expect(result.area).toEqual({ type: 'sector', label: 'AB1 1', postcodeCount: 2 });
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should search the postcodes within a radius', async () => {
+    const result = await collectAreaSales(
+      endpoint,
+      AreaSelectionSchema.parse({ postcode: 'AB1 1AA', radiusMeters: 1000 }),
+      { dbPath }
+    );
+
+    expect(sentQueries(mockFetch)[0]).not.toContain('AB1 2AA');
+    expect(result.area).toEqual({
+      type: 'radius',
+      label: '1000m around AB1 1AA',
+      postcodeCount: 2,
+    });
+    expect(result.sales).toHaveLength(3);
+  });
+
+  describe('with the local backend', () => {
+    let pricePaidDbPath: string;
+
+    beforeAll(() => {
+      pricePaidDbPath = createPricePaidDb([
+        ['A1', 250000, '2024-01-05', 'AB1 1AA', 'terraced', 'HIGH STREET', 'standard'],
+        ['A2', 180000, '2023-06-01', 'AB1 1AB', 'flat', 'HIGH STREET', 'standard'],
+        ['A3', 320000, '2022-03-14', 'AB1 2AA', 'detached', 'OLD LANE', 'standard'],
+      ]);
+      process.env.PRICE_PAID_BACKEND = 'local';
+      process.env.PRICE_PAID_DB_PATH = pricePaidDbPath;
+      resetConfig();
+    });
+
+    afterAll(() => {
+      delete process.env.PRICE_PAID_BACKEND;
+      delete process.env.PRICE_PAID_DB_PATH;
+      resetConfig();
+      fs.rmSync(path.dirname(pricePaidDbPath), { recursive: true, force: true });
+    });
+
+    it('should match a sector by postcode prefix', async () => {
+      const result = await collectAreaSales(
+        endpoint,
+        AreaSelectionSchema.parse({ postcode: 'AB1 1' })
+      );
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.area).toEqual({ type: 'sector', label: 'AB1 1', postcodeCount: 2 });
+      expect(result.sales.map(sale => sale.transactionId)).toEqual(['A1', 'A2']);
+    });
+
+    it('should search the postcodes within a radius', async () => {
+      const result = await collectAreaSales(
+        endpoint,
+        AreaSelectionSchema.parse({ postcode: 'AB1 1AA', radiusMeters: 1000 }),
+        { dbPath }
+      );
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result.area.postcodeCount).toBe(2);
+      expect(result.sales.map(sale => sale.transactionId)).toEqual(['A1', 'A2']);
+      expect(result.total).toBe(2);
+    });
+  });
+});
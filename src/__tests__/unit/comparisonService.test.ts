@@ -0,0 +1,128 @@
+import { compareAreas, shareBy, summarizeYears } from '../../services/comparisonService.js';
+import { CompareAreasParamsSchema } from '../../models/comparison.js';
+import { PropertyPrice } from '../../models/types.js';
+import {
+  mockSparqlFetch,
+  restoreFetch,
+  SparqlFetchMock,
+  sentQueries,
+} from '../helpers/sparqlFetch.js';
+
+function sale(price: number, date: string, extra: Partial<PropertyPrice> = {}): PropertyPrice {
+  return {
+    price,
+    date,
+    postcode: 'PL6 8RU',
+    propertyType: 'terraced',
+    street: 'PATTINSON DRIVE',
+    city: 'PLYMOUTH',
+    ...extra,
+  };
+}
+
+function binding(postcode: string, amount: string, date: string, estate: string) {
+  return {
+    amount: { value: amount },
+    date: { value: date },
+    postcode: { value: postcode },
+    propertyType: { value: 'http://landregistry.data.gov.uk/def/common/terraced' },
+    estateType: { value: `http://landregistry.data.gov.uk/def/common/${estate}` },
+  };
+}
+
+describe('comparisonService', () => {
+  describe('summarizeYears', () => {
+    it('should report the median change from the previous year', () => {
+      expect(
+        summarizeYears([
+          sale(200000, '2022-03-01'),
+          sale(220000, '2023-05-01'),
+          sale(240000, '2023-09-01'),
+        ])
+      ).toEqual([
+        { year: '2022', count: 1, medianPrice: 200000 },
+        { year: '2023', count: 2, medianPrice: 230000, medianChangePercent: 15 },
+      ]);
+    });
+
+    it('should leave the change unset after a year without sales', () => {
+      expect(summarizeYears([sale(200000, '2021-03-01'), sale(260000, '2023-05-01')])).toEqual([
+        { year: '2021', count: 1, medianPrice: 200000 },
+        { year: '2023', count: 1, medianPrice: 260000 },
+      ]);
+    });
+  });
+
+  describe('shareBy', () => {
+    it('should give each group as a percentage of the sales', () => {
+      expect(
+        shareBy(
+          [
+            sale(1, '2023-01-01', { estateType: 'freehold' }),
+            sale(1, '2023-01-01', { estateType: 'freehold' }),
+            sale(1, '2023-01-01'),
+          ],
+          entry => entry.estateType ?? 'unknown'
+        )
+      ).toEqual({ freehold: 66.7, unknown: 33.3 });
+    });
+  });
+
+  describe('compareAreas', () => {
+    let mockFetch: SparqlFetchMock;
+
+    beforeEach(() => {
+      mockFetch = mockSparqlFetch(query => {
+        const plymouth = query.includes('PL6 8RU');
+        if (query.includes('COUNT(')) {
+          return [{ count: { value: plymouth ? '2' : '1' } }];
+        }
+        return plymouth
+          ? [
+              binding('PL6 8RU', '250000', '2024-02-01', 'freehold'),
+              binding('PL6 8RU', '200000', '2023-02-01', 'leasehold'),
+            ]
+          : [binding('EX1 1AA', '310000', '2024-04-01', 'freehold')];
+      });
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    it('should summarise each area with the shared filters', async () => {
+      const result = await compareAreas(
+        'https://example.com/sparql',
+        CompareAreasParamsSchema.parse({
+          areas: [{ postcode: 'PL6 8RU' }, { postcode: 'EX1 1AA' }],
+          fromDate: '2023-01-01',
+          propertyType: 'terraced',
+        })
+      );
+
+      const queries = sentQueries(mockFetch);
+      expect(queries.every(query => query.includes('common/terraced'))).toBe(true);
+      expect(result.fromDate).toBe('2023-01-01');
+      expect(result.areas.map(comparison => comparison.area.label)).toEqual(['PL6 8RU', 'EX1 1AA']);
+      expect(result.areas[0]).toMatchObject({
+        total: 2,
+        count: 2,
+        medianPrice: 225000,
+        tenureMix: { freehold: 50, leasehold: 50 },
+        byYear: [
+          { year: '2023', count: 1, medianPrice: 200000 },
+          { year: '2024', count: 1, medianPrice: 250000, medianChangePercent: 25 },
+        ],
+      });
+      expect(result.areas[0].byPropertyType.terraced).toMatchObject({ count: 2 });
+      expect(result.areas[1]).toMatchObject({ count: 1, medianPrice: 310000 });
+    });
+
+    it('should need at least two valid areas', () => {
+      expect(() => CompareAreasParamsSchema.parse({ areas: [{ postcode: 'PL6 8RU' }] })).toThrow();
+      expect(() =>
+        CompareAreasParamsSchema.parse({ areas: [{ postcode: 'PL6 8RU' }, { street: 'HIGH ST' }] })
+      ).toThrow('Each area needs a postcode');
+    });
+  });
+});
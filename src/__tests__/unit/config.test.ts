@@ -0,0 +1,127 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getConfig, loadConfig, resetConfig } from '../../utils/config.js';
+
+function writeConfigFile(values: Record<string, unknown>): string {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+  const configPath = path.join(tmpDir, 'config.json');
+  fs.writeFileSync(configPath, JSON.stringify(values));
+  return configPath;
+}
+
+describe('config', () => {
+  describe('loadConfig', () => {
+    it('should use the defaults when nothing is set', () => {
+      const { config } = loadConfig({ argv: [], env: {} });
+      expect(config).toMatchObject({
+        endpoint: 'https://landregistry.data.gov.uk/landregistry/query',
+        defaultLimit: 10,
+        sparqlTimeoutMs: 60000,
+        sparqlMaxRetries: 3,
+        cacheEnabled: true,
+        cacheTtlSeconds: 86400,
+        logLevel: 'info',
+        runSparql: { maxLimit: 1000, timeoutMs: 30000, allowService: false },
+      });
+      expect(config.enabledTools).toBeUndefined();
+    });
+
+    it('should let environment variables override the file and flags override both', () => {
+      const configPath = writeConfigFile({
+        endpoint: 'https://file.example.com/sparql',
+        postcodeDbPath: 'data/postcodes.sqlite',
+        defaultLimit: 25,
+        logLevel: 'warn',
+        runSparql: { maxLimit: 100, allowService: true },
+      });
+
+      const { config, positionals } = loadConfig({
+        argv: [
+          '--config',
+          configPath,
+          '--endpoint',
+          'https://flag.example.com/sparql',
+          '--no-cache',
+          'PL6 8RU',
+        ],
+        env: {
+          LAND_REGISTRY_ENDPOINT: 'https://env.example.com/sparql',
+          SEARCH_DEFAULT_LIMIT: '50',
+          ENABLED_TOOLS: 'search-property-prices, lookup-postcodes',
+          RUN_SPARQL_MAX_LIMIT: '250',
+          RUN_SPARQL_FORMS: 'select',
+        },
+      });
+
+      expect(positionals).toEqual(['PL6 8RU']);
+      expect(config).toMatchObject({
+        endpoint: 'https://flag.example.com/sparql',
+        postcodeDbPath: path.join(path.dirname(configPath), 'data/postcodes.sqlite'),
+        defaultLimit: 50,
+        cacheEnabled: false,
+        logLevel: 'warn',
+        enabledTools: ['search-property-prices', 'lookup-postcodes'],
+        runSparql: {
+          maxLimit: 250,
+          timeoutMs: 30000,
+          allowService: true,
+          allowedForms: ['SELECT'],
+        },
+      });
+    });
+
+    it('should read the config file named by PROPERTY_PRICES_MCP_CONFIG', () => {
+      const configPath = writeConfigFile({ sparqlTimeoutMs: 5000 });
+      const { config } = loadConfig({ env: { PROPERTY_PRICES_MCP_CONFIG: configPath } });
+      expect(config.sparqlTimeoutMs).toBe(5000);
+    });
+
+    it('should accept every winston npm log level', () => {
+      for (const level of ['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly']) {
+        expect(loadConfig({ env: { LOG_LEVEL: level } }).config.logLevel).toBe(level);
+      }
+      expect(() => loadConfig({ env: { LOG_LEVEL: 'trace' } })).toThrow(
+        'Invalid configuration: logLevel'
+      );
+    });
+
+    it('should reject invalid settings', () => {
+      expect(() => loadConfig({ argv: ['--endpoint', 'not a url'], env: {} })).toThrow(
+        'Invalid configuration: endpoint: Invalid url'
+      );
+      expect(() => loadConfig({ env: { SEARCH_DEFAULT_LIMIT: 'lots' } })).toThrow(
+        'Invalid configuration: defaultLimit'
+      );
+      expect(() => loadConfig({ argv: ['--unknown'], env: {} })).toThrow(
+        'Invalid command-line options'
+      );
+    });
+
+    it('should explain an unreadable config file', () => {
+      expect(() => loadConfig({ argv: ['--config', '/nonexistent/config.json'], env: {} })).toThrow(
+        'Cannot read config file /nonexistent/config.json'
+      );
+    });
+  });
+
+  describe('getConfig', () => {
+    afterEach(() => {
+      delete process.env.SEARCH_DEFAULT_LIMIT;
+      resetConfig();
+    });
+
+    it('should load the configuration once until it is reset', () => {
+      process.env.SEARCH_DEFAULT_LIMIT = '25';
+      resetConfig();
+      const config = getConfig();
+      expect(config.defaultLimit).toBe(25);
+
+      process.env.SEARCH_DEFAULT_LIMIT = '50';
+      expect(getConfig()).toBe(config);
+
+      resetConfig();
+      expect(getConfig().defaultLimit).toBe(50);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { getHousePriceIndex, regionSlug } from '../../services/hpiService.js';
+import { HousePriceIndexParamsSchema } from '../../models/hpi.js';
+import {
+  mockSparqlFetch,
+  restoreFetch,
+  SparqlFetchMock,
+  sentQuery,
+} from '../helpers/sparqlFetch.js';
+
+function observation(month: string, averagePrice: string, extra: Record<string, string> = {}) {
+  return Object.fromEntries(
+    Object.entries({ month, averagePrice, regionName: 'Plymouth', ...extra }).map(
+      ([key, value]) => [key, { value }]
+    )
+  );
+}
+
+describe('hpiService', () => {
+  describe('regionSlug', () => {
+    it('should turn region names and URIs into slugs', () => {
+      expect(regionSlug('City of Westminster')).toBe('city-of-westminster');
+      expect(regionSlug("King's Lynn & West Norfolk")).toBe('kings-lynn-and-west-norfolk');
+      expect(regionSlug('http://landregistry.data.gov.uk/id/region/south-west')).toBe('south-west');
+    });
+  });
+
+  describe('getHousePriceIndex', () => {
+    let bindings: Record<string, { value: string }>[];
+    let mockFetch: SparqlFetchMock;
+
+    beforeEach(() => {
+      mockFetch = mockSparqlFetch(() => bindings);
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    it('should return months oldest first with figures by property type', async () => {
+      bindings = [
+        observation('2024-02', '231000', {
+          index: '151.2',
+          annualChange: '1.8',
+          averagePriceDetached: '352000',
+          annualChangeFlatMaisonette: '-0.6',
+        }),
+        observation('2024-01', '229500', { salesVolume: '312' }),
+      ];
+
+      const result = await getHousePriceIndex(
+        'https://example.com/sparql',
+        HousePriceIndexParamsSchema.parse({ region: 'Plymouth', fromDate: '2024-01-15' })
+      );
+
+      const query = sentQuery(mockFetch.mock.calls[0][1]);
+      expect(query).toContain(
+        'VALUES ?region {<http://landregistry.data.gov.uk/id/region/plymouth>}'
+      );
+      expect(query).toContain('FILTER(STR(?month) >= "2024-01")');
+      expect(query).toContain(
+        'OPTIONAL {?obs ukhpi:averagePriceSemiDetached ?averagePriceSemiDetached}'
+      );
+      expect(query).toContain('LIMIT 24');
+      expect(result.region).toEqual({
+        slug: 'plymouth',
+        uri: 'http://landregistry.data.gov.uk/id/region/plymouth',
+        name: 'Plymouth',
+      });
+      expect(result.months.map(month => month.month)).toEqual(['2024-01', '2024-02']);
+      expect(result.months[0]).toMatchObject({ averagePrice: 229500, salesVolume: 312 });
+      expect(result.months[1]).toMatchObject({ index: 151.2, annualChangePercent: 1.8 });
+      expect(result.months[1].byPropertyType).toEqual({
+        detached: {
+          averagePrice: 352000,
+          index: undefined,
+          monthlyChangePercent: undefined,
+          annualChangePercent: undefined,
+        },
+        flat: {
+          averagePrice: undefined,
+          index: undefined,
+          monthlyChangePercent: undefined,
+          annualChangePercent: -0.6,
+        },
+      });
+    });
+
+    it('should explain an unknown region', async () => {
+      bindings = [];
+
+      await expect(
+        getHousePriceIndex(
+          'https://example.com/sparql',
+          HousePriceIndexParamsSchema.parse({ region: 'Atlantis' })
+        )
+      ).rejects.toThrow('No UKHPI data found for region "Atlantis" (atlantis)');
+    });
+
+    it('should reject malformed dates', async () => {
+      bindings = [];
+
+      await expect(
+        getHousePriceIndex(
+          'https://example.com/sparql',
+          HousePriceIndexParamsSchema.parse({ region: 'london', toDate: 'last year' })
+        )
+      ).rejects.toThrow('toDate must be YYYY-MM or YYYY-MM-DD');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import fs from 'fs';
+import path from 'path';
+import { prefixRange, searchLocalPricePaid } from '../../services/localPricePaidService.js';
+import { searchNearbySales } from '../../services/nearbyService.js';
+import { getPropertyHistory } from '../../services/propertyHistoryService.js';
+import { searchProperties } from '../../services/sparqlService.js';
+import { getTransaction } from '../../services/transactionService.js';
+import { NearbySalesParamsSchema } from '../../models/nearby.js';
+import { resetConfig } from '../../utils/config.js';
+import { createPricePaidDb } from '../helpers/pricePaidDb.js';
+
+describe('localPricePaidService', () => {
+  let dbPath: string;
+
+  beforeAll(() => {
+    dbPath = createPricePaidDb([
+      ['A1', 250000, '2024-01-05', 'PL6 8RU', 'detached', 'PATTINSON DRIVE', 'standard'],
+      ['A2', 180000, '2023-06-01', 'PL6 8RU', 'flat', 'PATTINSON DRIVE', 'additional'],
+      ['A3', 320000, '2022-03-14', 'PL6 8RX', 'detached', "ST JOHN'S ROAD", 'standard'],
+      ['A4', 1000, '2024-02-01', 'PL6 8RX', 'detached', "ST JOHN'S ROAD", 'standard'],
+      ['A5', 210000, '2021-09-30', 'PL6 9AA', 'terraced', 'OLD LANE', 'standard'],
+      ['A6', 150000, '2024-03-01', 'PL7 1AA', 'flat', 'MARKET STREET', 'standard'],
+    ]);
+  });
+
+  afterAll(() => {
+    fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+  });
+
+  describe('prefixRange', () => {
+    it('should bound every string starting with the prefix', () => {
+      expect(prefixRange('PL6 ')).toEqual(['PL6 ', 'PL6!']);
+    });
+  });
+
+  describe('searchLocalPricePaid', () => {
+    it('should search a postcode with filters, ordering and paging', async () => {
+      const result = await searchLocalPricePaid(
+        { postcode: 'pl68ru', sortBy: 'price', sortOrder: 'asc', limit: 1 },
+        { dbPath }
+      );
+      expect(result.total).toBe(2);
+      expect(result.properties).toEqual([
+        expect.objectContaining({
+          price: 180000,
+          propertyType: 'flat',
+          street: 'PATTINSON DRIVE',
+          city: 'PLYMOUTH',
+          estateType: 'freehold',
+          newBuild: false,
+          transactionCategory: 'additional',
+          transactionId: 'A2',
+        }),
+      ]);
+
+      const standard = await searchLocalPricePaid(
+        { postcode: 'PL6 8RU', transactionCategory: 'standard', fromDate: '2024-01-01' },
+        { dbPath }
+      );
+      expect(standard.properties.map(sale => sale.transactionId)).toEqual(['A1']);
+    });
+
+    it('should search a postcode district by prefix', async () => {
+      const result = await searchLocalPricePaid({ postcode: 'PL6', limit: 10 }, { dbPath });
+      expect(result.area).toEqual({ type: 'district', code: 'PL6', postcodeCount: 3 });
+      expect(result.total).toBe(5);
+      expect(result.properties[0].transactionId).toBe('A4');
+    });
+
+    it('should match street spellings and fall back to a fuzzy match', async () => {
+      const exact = await searchLocalPricePaid(
+        { street: 'St Johns Rd', city: 'Plymouth' },
+        { dbPath }
+      );
+      expect(exact.total).toBe(2);
+      expect(exact.match).toMatchObject({ mode: 'exact', matchedStreets: ["ST JOHN'S ROAD"] });
+
+      const fuzzy = await searchLocalPricePaid(
+        { street: 'Pattinson', city: 'Mainstone', fuzzy: true },
+        { dbPath }
+      );
+      expect(fuzzy.total).toBe(2);
+      expect(fuzzy.match).toMatchObject({ mode: 'fuzzy', matchedStreets: ['PATTINSON DRIVE'] });
+    });
+
+    it('should search an administrative area without a date range limit', async () => {
+      const result = await searchLocalPricePaid(
+        { district: 'City of Plymouth', propertyType: 'detached' },
+        { dbPath }
+      );
+      expect(result.total).toBe(3);
+      expect(result.administrativeArea).toMatchObject({
+        district: 'CITY OF PLYMOUTH',
+        fromDate: '1995-01-01',
+      });
+    });
+
+    it('should validate parameters as the SPARQL search does', async () => {
+      await expect(searchLocalPricePaid({ street: 'High Street' }, { dbPath })).rejects.toThrow(
+        'Either postcode or street and city must be provided'
+      );
+      await expect(
+        searchLocalPricePaid({ district: 'City of Plymouth', postcode: 'PL6 8RU' }, { dbPath })
+      ).rejects.toThrow('district, county and locality cannot be combined');
+      await expect(
+        searchLocalPricePaid(
+          { locality: 'Mainstone', street: 'Pattinson Drive', city: 'Plymouth' },
+          { dbPath }
+        )
+      ).rejects.toThrow('district, county and locality cannot be combined');
+      await expect(
+        searchLocalPricePaid({ postcode: 'PL6 8RU' }, { dbPath: '/nonexistent/pp.sqlite' })
+      ).rejects.toThrow('Price-paid database not found at /nonexistent/pp.sqlite');
+    });
+  });
+
+  describe('the local backend', () => {
+    afterEach(() => {
+      delete process.env.PRICE_PAID_BACKEND;
+      delete process.env.PRICE_PAID_DB_PATH;
+      resetConfig();
+    });
+
+    it('should answer from the local database and apply outlier handling', async () => {
+      process.env.PRICE_PAID_BACKEND = 'local';
+      process.env.PRICE_PAID_DB_PATH = dbPath;
+      resetConfig();
+
+      const result = await searchProperties('https://example.com/sparql', {
+        postcode: 'PL6 8RX',
+        excludeOutliers: true,
+      });
+      expect(result.total).toBe(1);
+      expect(result.outliersExcluded).toBe(1);
+      expect(result.properties.map(sale => sale.transactionId)).toEqual(['A3']);
+    });
+
+    it('should refuse tools it cannot answer instead of querying the endpoint', async () => {
+      process.env.PRICE_PAID_BACKEND = 'local';
+      resetConfig();
+
+      await expect(
+        searchNearbySales(
+          'https://example.com/sparql',
+          NearbySalesParamsSchema.parse({ postcode: 'PL6 8RU', radiusMeters: 500 })
+        )
+      ).rejects.toThrow('Nearby sales searches need the SPARQL endpoint');
+      await expect(
+        getPropertyHistory('https://example.com/sparql', { paon: '1', postcode: 'PL6 8RU' })
+      ).rejects.toThrow('Property histories need the SPARQL endpoint');
+      await expect(
+        getTransaction('https://example.com/sparql', {
+          transactionId: '0C4A5A5B-1B5F-4E9C-E063-4804A8C0B2B5',
+        })
+      ).rejects.toThrow('Transaction lookups need the SPARQL endpoint');
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { searchNearbySales } from '../../services/nearbyService.js';
+import { NearbySalesParamsSchema } from '../../models/nearby.js';
+import {
+  mockSparqlFetch,
+  restoreFetch,
+  SparqlFetchMock,
+  sentQuery,
+} from '../helpers/sparqlFetch.js';
+
+function createTempDb(): string {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nearby-db-'));
+  const dbPath = path.join(tmpDir, 'postcodes.sqlite');
+  const db = new Database(dbPath);
+
+  db.exec(`
+    CREATE TABLE postcodes (
+      postcode TEXT PRIMARY KEY,
+      positional_quality INTEGER,
+      easting INTEGER,
+      northing INTEGER,
+      country_code TEXT,
+      nhs_regional_ha_code TEXT,
+      nhs_ha_code TEXT,
+      admin_county_code TEXT,
+      admin_district_code TEXT,
+      admin_ward_code TEXT
+    );
+    CREATE VIRTUAL TABLE postcodes_rtree USING rtree(id, minX, maxX, minY, maxY);
+  `);
+
+  const insertPostcode = db.prepare(
+    `INSERT INTO postcodes (postcode, positional_quality, easting, northing) VALUES (?, 10, ?, ?)`
+  );
+  const insertRtree = db.prepare(
+    `INSERT INTO postcodes_rtree (id, minX, maxX, minY, maxY) VALUES (?, ?, ?, ?, ?)`
+  );
+
+  // Code-Point stores 4-character outward codes without a space
+  const rows: Array<[string, number, number]> = [
+    ['AB1 1AA', 1000, 1000],
+    ['AB1 1AB', 1300, 1400],
+    ['AB101AA', 1000, 1100],
+    ['AB1 9ZZ', 9000, 9000],
+  ];
+  for (const [postcode, easting, northing] of rows) {
+    const info = insertPostcode.run(postcode, easting, northing);
+    insertRtree.run(info.lastInsertRowid, easting, easting, northing, northing);
+  }
+
+  db.close();
+  return dbPath;
+}
+
+function sale(postcode: string, amount: number, date: string) {
+  return {
+    amount: { value: String(amount) },
+    date: { value: date },
+    postcode: { value: postcode },
+    propertyType: { value: 'http://landregistry.data.gov.uk/def/common/terraced' },
+  };
+}
+
+describe('nearbyService', () => {
+  const dbPath = createTempDb();
+  const endpoint = 'https://example.com/sparql';
+  let mockFetch: SparqlFetchMock;
+
+  beforeEach(() => {
+    mockFetch = mockSparqlFetch(query =>
+      query.includes('COUNT(')
+        ? [{ count: { value: '3' } }]
+        : [
+            sale('AB1 1AA', 250000, '2023-05-01'),
+            sale('AB10 1AA', 300000, '2024-02-01'),
+            sale('AB1 1AB', 200000, '2022-01-01'),
+          ]
+    );
+  });
+
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  it('queries the postcodes within the radius with their distances', async () => {
+    const params = NearbySalesParamsSchema.parse({ postcode: 'AB1 1AA', radiusMeters: 600 });
+    const result = await searchNearbySales(endpoint, params, { dbPath });
+
+    const pageQuery = sentQuery(mockFetch.mock.calls[1][1]);
+    expect(pageQuery).toContain(
+      'VALUES (?postcode ?distance) {("AB1 1AA"^^xsd:string 0) ("AB10 1AA"^^xsd:string 100) ("AB1 1AB"^^xsd:string 500)}'
+    );
+    expect(pageQuery).toContain('ORDER BY ASC(?distance) DESC(?date) ?transx');
+    expect(pageQuery).not.toContain('AB1 9ZZ');
+
+    expect(result.center).toEqual({ postcode: 'AB1 1AA', easting: 1000, northing: 1000 });
+    expect(result.postcodeCount).toBe(3);
+    expect(result.total).toBe(3);
+    expect(result.properties.map(p => [p.postcode, p.distanceMeters])).toEqual([
+      ['AB1 1AA', 0],
+      ['AB10 1AA', 100],
+      ['AB1 1AB', 500],
+    ]);
+  });
+
+  it('resolves a centre postcode stored in Code-Point fixed-width form', async () => {
+    const params = NearbySalesParamsSchema.parse({ postcode: 'ab10 1aa', radiusMeters: 50 });
+    const result = await searchNearbySales(endpoint, params, { dbPath });
+    expect(result.center.postcode).toBe('AB10 1AA');
+    expect(result.postcodeCount).toBe(1);
+  });
+
+  it('sorts by price when requested', async () => {
+    const params = NearbySalesParamsSchema.parse({
+      easting: 1000,
+      northing: 1000,
+      radiusMeters: 600,
+      sortBy: 'price',
+    });
+    const result = await searchNearbySales(endpoint, params, { dbPath });
+
+    expect(result.center.postcode).toBeUndefined();
+    expect(result.properties.map(p => p.price)).toEqual([300000, 250000, 200000]);
+  });
+
+  it('requires a centre', () => {
+    expect(() => NearbySalesParamsSchema.parse({ radiusMeters: 500 })).toThrow(
+      'Provide a postcode or both easting and northing'
+    );
+  });
+});
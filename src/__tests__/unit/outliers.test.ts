@@ -0,0 +1,60 @@
+import { excludeOutliers, flagOutliers } from '../../utils/outliers.js';
+import { PropertyPrice } from '../../models/types.js';
+
+function sale(price: number, extra: Partial<PropertyPrice> = {}): PropertyPrice {
+  return {
+    price,
+    date: '2023-06-01',
+    postcode: 'PL6 8RU',
+    propertyType: 'terraced',
+    street: 'PATTINSON DRIVE',
+    city: 'PLYMOUTH',
+    ...extra,
+  };
+}
+
+describe('outliers', () => {
+  const typical = [200000, 210000, 220000, 230000, 240000].map(price => sale(price));
+
+  describe('flagOutliers', () => {
+    it('should flag category B entries and token prices', () => {
+      const [additional, token] = flagOutliers([
+        sale(250000, { transactionCategory: 'additional' }),
+        sale(1),
+      ]);
+      expect(additional.outlierFlags).toEqual(['additionalCategory']);
+      expect(token.outlierFlags).toEqual(['lowPrice']);
+    });
+
+    it('should flag prices far from the median for the same type and year', () => {
+      const flagged = flagOutliers([
+        ...typical,
+        sale(2200000),
+        sale(30000),
+        sale(2200000, { date: '2019-06-01' }),
+        sale(2200000, { propertyType: 'detached' }),
+      ]);
+
+      expect(flagged.slice(0, 5).every(entry => !entry.outlierFlags)).toBe(true);
+      expect(flagged[5].outlierFlags).toEqual(['extremePrice']);
+      expect(flagged[6].outlierFlags).toEqual(['extremePrice']);
+      // Other years and property types have too few sales for a median
+      expect(flagged[7].outlierFlags).toBeUndefined();
+      expect(flagged[8].outlierFlags).toBeUndefined();
+    });
+
+    it('should not flag prices in small groups', () => {
+      expect(flagOutliers([sale(100000), sale(900000)]).some(entry => entry.outlierFlags)).toBe(
+        false
+      );
+    });
+  });
+
+  describe('excludeOutliers', () => {
+    it('should drop flagged sales and count them', () => {
+      const { sales, excluded } = excludeOutliers([...typical, sale(100)]);
+      expect(sales).toEqual(typical);
+      expect(excluded).toBe(1);
+    });
+  });
+});
@@ -2,7 +2,13 @@ import fs from 'fs';
 import os from 'os';
 import path from 'path';
 import Database from 'better-sqlite3';
-import { getPostcodeRecord, lookupPostcodes } from '../../services/postcodeService.js';
+import {
+  classifyPostcode,
+  formatPostcode,
+  getPostcodeRecord,
+  listPostcodesInArea,
+  lookupPostcodes,
+} from '../../services/postcodeService.js';
 import { PostcodeLookupParamsSchema } from '../../models/postcodes.js';
 
 function createTempDb(): string {
@@ -40,6 +46,8 @@ function createTempDb(): string {
     ['AA1 1AA', 10, 1000, 1000, 'C1', 'NR1', 'NH1', 'AC1', 'AD1', 'AW1'],
     ['AA1 1AB', 10, 1005, 1005, 'C1', 'NR1', 'NH1', 'AC1', 'AD1', 'AW1'],
     ['AA1 1AC', 10, 1200, 1200, 'C1', 'NR1', 'NH1', 'AC1', 'AD2', 'AW2'],
+    ['AA1 2AA', 10, 9000, 9000, 'C1', 'NR1', 'NH1', 'AC1', 'AD3', 'AW3'],
+    ['AA101AA', 10, 9500, 9500, 'C1', 'NR1', 'NH1', 'AC1', 'AD3', 'AW3'],
   ];
 
   for (const row of rows) {
@@ -86,4 +94,37 @@ describe('postcodeService', () => {
     const result = lookupPostcodes(params, { dbPath });
     expect(result.postcodes.map(p => p.postcode)).toEqual(['AA1 1AC']);
   });
+
+  it('classifies units, sectors and districts', () => {
+    expect(classifyPostcode('sw1a 1aa')).toEqual({
+      type: 'unit',
+      code: 'SW1A 1AA',
+      outward: 'SW1A',
+      sector: 'SW1A 1',
+    });
+    expect(classifyPostcode('SW1A1AA')?.code).toBe('SW1A 1AA');
+    expect(classifyPostcode(' SW1A  1 ')).toEqual({
+      type: 'sector',
+      code: 'SW1A 1',
+      outward: 'SW1A',
+      sector: 'SW1A 1',
+    });
+    expect(classifyPostcode('SW11')).toEqual({ type: 'district', code: 'SW11', outward: 'SW11' });
+    expect(classifyPostcode('not a postcode')).toBeNull();
+  });
+
+  it('formats postcodes with a single space before the inward code', () => {
+    expect(formatPostcode('AA101AA')).toBe('AA10 1AA');
+    expect(formatPostcode('B1  1AA')).toBe('B1 1AA');
+  });
+
+  it('lists the postcodes in a district without matching longer outward codes', () => {
+    const postcodes = listPostcodesInArea(classifyPostcode('AA1')!, { dbPath });
+    expect(postcodes).toEqual(['AA1 1AA', 'AA1 1AB', 'AA1 1AC', 'AA1 2AA']);
+  });
+
+  it('lists the postcodes in a sector', () => {
+    expect(listPostcodesInArea(classifyPostcode('AA1 2')!, { dbPath })).toEqual(['AA1 2AA']);
+    expect(listPostcodesInArea(classifyPostcode('AA10 1')!, { dbPath })).toEqual(['AA10 1AA']);
+  });
 });
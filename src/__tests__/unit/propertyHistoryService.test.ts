@@ -0,0 +1,160 @@
+import {
+  buildSaleHistory,
+  calculateAnnualisedGrowth,
+  getPropertyHistory,
+  summarizeSaleHistory,
+} from '../../services/propertyHistoryService.js';
+import { PropertyHistoryParamsSchema } from '../../models/history.js';
+import { PropertyPrice } from '../../models/types.js';
+import {
+  mockSparqlFetch,
+  restoreFetch,
+  SparqlFetchMock,
+  sentQuery,
+} from '../helpers/sparqlFetch.js';
+
+function sale(price: number, date: string, extra: Partial<PropertyPrice> = {}): PropertyPrice {
+  return {
+    price,
+    date,
+    postcode: 'PL6 8RU',
+    propertyType: 'detached',
+    street: 'PATTINSON DRIVE',
+    city: 'PLYMOUTH',
+    paon: '10',
+    ...extra,
+  };
+}
+
+function binding(price: number, date: string, saon?: string) {
+  return {
+    amount: { value: String(price) },
+    date: { value: date },
+    postcode: { value: 'PL6 8RU' },
+    propertyType: { value: 'http://landregistry.data.gov.uk/def/common/detached' },
+    street: { value: 'PATTINSON DRIVE' },
+    town: { value: 'PLYMOUTH' },
+    paon: { value: '10' },
+    ...(saon ? { saon: { value: saon } } : {}),
+  };
+}
+
+describe('propertyHistoryService', () => {
+  describe('calculateAnnualisedGrowth', () => {
+    it('should compound growth over the holding period', () => {
+      expect(calculateAnnualisedGrowth(100000, 121000, 2)).toBeCloseTo(10, 6);
+    });
+
+    it('should be undefined for zero prices or holding periods', () => {
+      expect(calculateAnnualisedGrowth(0, 100000, 2)).toBeUndefined();
+      expect(calculateAnnualisedGrowth(100000, 120000, 0)).toBeUndefined();
+    });
+  });
+
+  describe('buildSaleHistory', () => {
+    it('should order sales chronologically and compare each with the previous sale', () => {
+      const history = buildSaleHistory([
+        sale(240000, '2020-06-01'),
+        sale(200000, '2016-06-01'),
+        sale(150000, '2010-06-01'),
+      ]);
+
+      expect(history.map(entry => entry.date)).toEqual(['2010-06-01', '2016-06-01', '2020-06-01']);
+      expect(history[0].priceChange).toBeUndefined();
+      expect(history[1]).toMatchObject({
+        priceChange: 50000,
+        priceChangePercent: 33.33,
+        yearsSincePreviousSale: 6,
+      });
+      expect(history[2].priceChange).toBe(40000);
+      expect(history[2].annualisedGrowthPercent).toBeCloseTo(4.66, 1);
+    });
+  });
+
+  describe('summarizeSaleHistory', () => {
+    it('should summarise first to last sale', () => {
+      const summary = summarizeSaleHistory(
+        buildSaleHistory([sale(100000, '2010-01-01'), sale(200000, '2020-01-01')])
+      );
+      expect(summary).toMatchObject({
+        saleCount: 2,
+        firstSale: { date: '2010-01-01', price: 100000 },
+        lastSale: { date: '2020-01-01', price: 200000 },
+        totalPriceChange: 100000,
+        totalPriceChangePercent: 100,
+      });
+      expect(summary.annualisedGrowthPercent).toBeCloseTo(7.18, 1);
+    });
+  });
+
+  describe('getPropertyHistory', () => {
+    let bindings: ReturnType<typeof binding>[];
+    let mockFetch: SparqlFetchMock;
+
+    beforeEach(() => {
+      mockFetch = mockSparqlFetch(() => bindings);
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    it('should return the history for a single matching property', async () => {
+      bindings = [binding(150000, '2010-06-01'), binding(200000, '2016-06-01')];
+
+      const result = await getPropertyHistory('https://example.com/sparql', {
+        paon: ' 10 ',
+        postcode: 'pl68ru',
+      });
+
+      const query = sentQuery(mockFetch.mock.calls[0][1]);
+      expect(query).toContain('?addr lrcommon:postcode "PL6 8RU"^^xsd:string .');
+      expect(result.address).toEqual({
+        paon: '10',
+        saon: undefined,
+        street: 'PATTINSON DRIVE',
+        town: 'PLYMOUTH',
+        postcode: 'PL6 8RU',
+      });
+      expect(result.sales).toHaveLength(2);
+      expect(result.summary.totalPriceChange).toBe(50000);
+    });
+
+    it('should reject an address that matches several properties', async () => {
+      bindings = [binding(150000, '2010-06-01', 'FLAT 1'), binding(160000, '2011-06-01', 'FLAT 2')];
+
+      await expect(
+        getPropertyHistory('https://example.com/sparql', { paon: '10', postcode: 'PL6 8RU' })
+      ).rejects.toThrow('2 properties match 10, PL6 8RU');
+    });
+
+    it('should select only the sales without a saon', async () => {
+      bindings = [binding(250000, '2012-06-01')];
+
+      const result = await getPropertyHistory(
+        'https://example.com/sparql',
+        PropertyHistoryParamsSchema.parse({ paon: '10', noSaon: true, postcode: 'PL6 8RU' })
+      );
+
+      const query = sentQuery(mockFetch.mock.calls[0][1]);
+      expect(query).toContain('FILTER NOT EXISTS {?addr lrcommon:saon ?anySaon');
+      expect(result.address.saon).toBeUndefined();
+      expect(() =>
+        PropertyHistoryParamsSchema.parse({
+          paon: '10',
+          saon: 'FLAT 1',
+          noSaon: true,
+          postcode: 'PL6 8RU',
+        })
+      ).toThrow('saon cannot be combined with noSaon');
+    });
+
+    it('should report when no sales are found', async () => {
+      bindings = [];
+
+      await expect(
+        getPropertyHistory('https://example.com/sparql', { paon: '99', postcode: 'PL6 8RU' })
+      ).rejects.toThrow('No sales found for 99, PL6 8RU');
+    });
+  });
+});
@@ -1,4 +1,21 @@
-import { getPostcodeQuery, getAddressQuery, addDateFilters } from '../../queries/queries.js';
+import {
+  getPostcodeQuery,
+  getPostcodeCountQuery,
+  getAddressQuery,
+  getAddressCountQuery,
+  getFuzzyAddressQuery,
+  getFuzzyAddressCountQuery,
+  getAdministrativeAreaQuery,
+  getAdministrativeAreaCountQuery,
+  getNearbyQuery,
+  getNearbyCountQuery,
+  getPropertyHistoryQuery,
+  getTransactionQuery,
+  getHousePriceIndexQuery,
+  addDateFilters,
+  buildFilterClauses,
+  buildSolutionModifiers,
+} from '../../queries/queries.js';
 
 describe('queries', () => {
   describe('getPostcodeQuery', () => {
@@ -14,12 +31,36 @@ describe('queries', () => {
       expect(query).toContain('VALUES ?postcode {"PL6 8RU"^^xsd:string}');
       expect(query).toContain('ORDER BY DESC(?date)');
       expect(query).toContain('LIMIT 100');
+      expect(query).toContain('OPTIONAL { ?transx lrppi:transactionId ?transactionId }');
     });
 
     it('should escape special characters in postcode', () => {
       const query = getPostcodeQuery('PL6 8RU"');
       expect(query).toContain('VALUES ?postcode {"PL6 8RU\\""^^xsd:string}');
     });
+
+    it('should push filters, sorting and paging into the query', () => {
+      const query = getPostcodeQuery('PL6 8RU', {
+        minPrice: 100000,
+        maxPrice: 250000,
+        propertyType: 'flat',
+        sortBy: 'price',
+        sortOrder: 'asc',
+        limit: 10,
+        offset: 20,
+      });
+
+      expect(query).toContain(
+        'VALUES ?propertyType {<http://landregistry.data.gov.uk/def/common/flat-maisonette>}'
+      );
+      expect(query).toContain('FILTER(?amount >= 100000)');
+      expect(query).toContain('FILTER(?amount <= 250000)');
+      expect(query).toContain('ORDER BY ASC(?amount)');
+      expect(query).toContain('LIMIT 10');
+      expect(query).toContain('OFFSET 20');
+      expect(query).not.toContain('LIMIT 100');
+      expect(query.indexOf('FILTER(?amount >= 100000)')).toBeLessThan(query.indexOf('ORDER BY'));
+    });
   });
 
   describe('getAddressQuery', () => {
@@ -52,6 +93,216 @@ describe('queries', () => {
       const query = getAddressQuery('charlton "ROAD"', 'HARROW');
       expect(query).toContain('VALUES ?street {"charlton \\"ROAD\\""^^xsd:string}');
     });
+
+    it('should match any of several street and town spellings', () => {
+      const query = getAddressQuery(['ST JOHNS ROAD', "ST JOHN'S ROAD"], ['HARROW']);
+      expect(query).toContain(
+        'VALUES ?street {"ST JOHNS ROAD"^^xsd:string "ST JOHN\'S ROAD"^^xsd:string}'
+      );
+      expect(query).toContain('VALUES ?town {"HARROW"^^xsd:string}');
+    });
+
+    it('should include date filters when provided as options', () => {
+      const query = getAddressQuery('CHARLTON ROAD', 'HARROW', undefined, undefined, {
+        fromDate: '2023-01-01',
+        toDate: '2023-12-31',
+      });
+      expect(query).toContain('FILTER(?date >= "2023-01-01"^^xsd:date)');
+      expect(query).toContain('FILTER(?date <= "2023-12-31"^^xsd:date)');
+      expect(query.indexOf('FILTER(?date')).toBeLessThan(query.indexOf('ORDER BY'));
+    });
+  });
+
+  describe('count queries', () => {
+    it('should count postcode transactions with the same filters and no paging', () => {
+      const query = getPostcodeCountQuery('PL6 8RU', {
+        propertyType: 'detached',
+        toDate: '2020-01-01',
+      });
+      expect(query).toContain('SELECT (COUNT(DISTINCT ?transx) AS ?count)');
+      expect(query).toContain('VALUES ?postcode {"PL6 8RU"^^xsd:string}');
+      expect(query).toContain('<http://landregistry.data.gov.uk/def/common/detached>');
+      expect(query).toContain('FILTER(?date <= "2020-01-01"^^xsd:date)');
+      expect(query).not.toContain('ORDER BY');
+      expect(query).not.toContain('LIMIT');
+    });
+
+    it('should count address transactions', () => {
+      const query = getAddressCountQuery('CHARLTON ROAD', 'HARROW', '12', undefined, {
+        maxPrice: 300000,
+      });
+      expect(query).toContain('VALUES ?street {"CHARLTON ROAD"^^xsd:string}');
+      expect(query).toContain('lrcommon:paon "12"^^xsd:string');
+      expect(query).toContain('FILTER(?amount <= 300000)');
+    });
+  });
+
+  describe('fuzzy address queries', () => {
+    const match = { streetPrefixes: ['ST JOHN', 'SAINT JOHN'], places: ['HACKNEY'] };
+
+    it('should match street prefixes against town, locality or district', () => {
+      const query = getFuzzyAddressQuery(match, { limit: 20 });
+      expect(query).toContain('VALUES ?place {"HACKNEY"^^xsd:string}');
+      expect(query).toContain(
+        '{ ?addr lrcommon:town ?place } UNION { ?addr lrcommon:locality ?place } UNION { ?addr lrcommon:district ?place }'
+      );
+      expect(query).toContain(
+        'FILTER(STRSTARTS(UCASE(?street), "ST JOHN") || STRSTARTS(UCASE(?street), "SAINT JOHN"))'
+      );
+      expect(query).toContain('OPTIONAL {?addr lrcommon:town ?town}');
+      expect(query).toContain('LIMIT 20');
+    });
+
+    it('should count fuzzy matches with the same filters', () => {
+      const query = getFuzzyAddressCountQuery(match, { propertyType: 'terraced' });
+      expect(query).toContain('SELECT (COUNT(DISTINCT ?transx) AS ?count)');
+      expect(query).toContain('STRSTARTS(UCASE(?street), "ST JOHN")');
+      expect(query).toContain('<http://landregistry.data.gov.uk/def/common/terraced>');
+    });
+  });
+
+  describe('administrative area queries', () => {
+    it('should constrain only the area parts provided', () => {
+      const query = getAdministrativeAreaQuery(
+        { district: ['CITY OF PLYMOUTH'], county: ['CITY OF PLYMOUTH'] },
+        { fromDate: '2024-01-01', toDate: '2024-03-31', propertyType: 'detached' }
+      );
+      expect(query).toContain('VALUES ?district {"CITY OF PLYMOUTH"^^xsd:string}');
+      expect(query).toContain('?addr lrcommon:district ?district .');
+      expect(query).toContain('?addr lrcommon:county ?county .');
+      expect(query).not.toContain('lrcommon:locality');
+      expect(query).toContain('FILTER(?date >= "2024-01-01"^^xsd:date)');
+      expect(query).toContain('<http://landregistry.data.gov.uk/def/common/detached>');
+    });
+
+    it('should count area transactions', () => {
+      const query = getAdministrativeAreaCountQuery(
+        { locality: ['PLYMPTON'] },
+        { fromDate: '2024-01-01' }
+      );
+      expect(query).toContain('SELECT (COUNT(DISTINCT ?transx) AS ?count)');
+      expect(query).toContain('?addr lrcommon:locality ?locality .');
+      expect(query).not.toContain('LIMIT');
+    });
+  });
+
+  describe('nearby queries', () => {
+    const postcodes = [
+      { postcode: 'PL6 8RU', distanceMeters: 0 },
+      { postcode: 'PL6 8RT', distanceMeters: 120.6 },
+    ];
+
+    it('should bind each postcode with its distance and order by it', () => {
+      const query = getNearbyQuery(postcodes, { sortBy: 'distance', sortOrder: 'asc', limit: 5 });
+      expect(query).toContain(
+        'VALUES (?postcode ?distance) {("PL6 8RU"^^xsd:string 0) ("PL6 8RT"^^xsd:string 121)}'
+      );
+      expect(query).toContain('?newBuild ?category ?distance');
+      expect(query).toContain('ORDER BY ASC(?distance) DESC(?date) ?transx');
+    });
+
+    it('should count nearby transactions by postcode', () => {
+      const query = getNearbyCountQuery(postcodes, { propertyType: 'flat' });
+      expect(query).toContain('VALUES ?postcode {"PL6 8RU"^^xsd:string "PL6 8RT"^^xsd:string}');
+      expect(query).toContain('SELECT (COUNT(DISTINCT ?transx) AS ?count)');
+    });
+  });
+
+  describe('getPropertyHistoryQuery', () => {
+    it('should constrain only the address parts provided and list sales oldest first', () => {
+      const query = getPropertyHistoryQuery({ paon: '10', saon: 'FLAT 2', postcode: 'PL6 8RU' });
+      expect(query).toContain('?addr lrcommon:paon "10"^^xsd:string .');
+      expect(query).toContain('?addr lrcommon:saon "FLAT 2"^^xsd:string .');
+      expect(query).toContain('?addr lrcommon:postcode "PL6 8RU"^^xsd:string .');
+      expect(query).not.toContain('?addr lrcommon:street "');
+      expect(query).not.toContain('FILTER NOT EXISTS');
+      expect(query).toContain('ORDER BY ASC(?date) ?transx');
+      expect(query).toContain('LIMIT 500');
+    });
+
+    it('should exclude addresses with a saon when asked for none', () => {
+      const query = getPropertyHistoryQuery({ paon: '10', noSaon: true, postcode: 'PL6 8RU' });
+      expect(query).toContain(
+        'FILTER NOT EXISTS {?addr lrcommon:saon ?anySaon FILTER(STRLEN(?anySaon) > 0)}'
+      );
+    });
+  });
+
+  describe('getTransactionQuery', () => {
+    it('should select the current record of the transaction with its record status', () => {
+      const query = getTransactionQuery('E3AA6B5C-8D8E-4FAC-9C9D-0F1E2D3C4B5A');
+      expect(query).toContain(
+        'VALUES ?transx {<http://landregistry.data.gov.uk/data/ppi/transaction/E3AA6B5C-8D8E-4FAC-9C9D-0F1E2D3C4B5A/current>}'
+      );
+      expect(query).toContain('OPTIONAL {?transx lrppi:recordStatus ?recordStatus}');
+      expect(query).toContain('LIMIT 1');
+    });
+  });
+
+  describe('getHousePriceIndexQuery', () => {
+    it('should select every measure for the region within the month range', () => {
+      const query = getHousePriceIndexQuery('london', {
+        fromMonth: '2020-01',
+        toMonth: '2020-12',
+        limit: 12,
+      });
+      expect(query).toContain('PREFIX ukhpi: <http://landregistry.data.gov.uk/def/ukhpi/>');
+      expect(query).toContain(
+        'VALUES ?region {<http://landregistry.data.gov.uk/id/region/london>}'
+      );
+      expect(query).toContain('FILTER(STR(?month) <= "2020-12")');
+      expect(query).toContain('OPTIONAL {?obs ukhpi:housePriceIndex ?index}');
+      expect(query).toContain(
+        'OPTIONAL {?obs ukhpi:percentageAnnualChangeFlatMaisonette ?annualChangeFlatMaisonette}'
+      );
+      expect(query).toContain('ORDER BY DESC(?month)');
+      expect(query).toContain('LIMIT 12');
+    });
+
+    it('should limit distinct months rather than rows', () => {
+      const query = getHousePriceIndexQuery('london', { limit: 12 });
+      expect(query).toMatch(/SELECT DISTINCT \?region \?month[\s\S]*LIMIT 12\s*\}/);
+      expect(query.trim()).toMatch(/ORDER BY DESC\(\?month\)$/);
+    });
+  });
+
+  describe('buildFilterClauses', () => {
+    it('should return an empty string when no filters are given', () => {
+      expect(buildFilterClauses({})).toBe('');
+    });
+
+    it('should map the other property type to its concept URI', () => {
+      expect(buildFilterClauses({ propertyType: 'other' })).toContain(
+        '<http://landregistry.data.gov.uk/def/common/otherPropertyType>'
+      );
+    });
+
+    it('should require tenure, new-build and category as triples', () => {
+      const clauses = buildFilterClauses({
+        estateType: 'leasehold',
+        newBuild: false,
+        transactionCategory: 'standard',
+      });
+      expect(clauses).toContain(
+        '?transx lrppi:estateType <http://landregistry.data.gov.uk/def/common/leasehold> .'
+      );
+      expect(clauses).toContain('?transx lrppi:newBuild false .');
+      expect(clauses).toContain(
+        '?transx lrppi:transactionCategory <http://landregistry.data.gov.uk/def/ppi/standardPricePaidTransaction> .'
+      );
+    });
+  });
+
+  describe('buildSolutionModifiers', () => {
+    it('should default to newest first with the default limit', () => {
+      expect(buildSolutionModifiers()).toBe('ORDER BY DESC(?date) ?transx\n    LIMIT 100');
+    });
+
+    it('should sort by price descending', () => {
+      expect(buildSolutionModifiers({ sortBy: 'price', limit: 5 })).toBe(
+        'ORDER BY DESC(?amount) ?transx\n    LIMIT 5'
+      );
+    });
   });
 
   describe('addDateFilters', () => {
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { explainNearbySales, explainSearchProperties } from '../../services/queryPlanService.js';
+import { NearbySalesParamsSchema } from '../../models/nearby.js';
+import { resetConfig } from '../../utils/config.js';
+import { mockSparqlFetch, restoreFetch, SparqlFetchMock } from '../helpers/sparqlFetch.js';
+
+function createTempDb(): string {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plan-db-'));
+  const dbPath = path.join(tmpDir, 'postcodes.sqlite');
+  const db = new Database(dbPath);
+
+  db.exec(`
+    CREATE TABLE postcodes (
+      postcode TEXT PRIMARY KEY,
+      positional_quality INTEGER,
+      easting INTEGER,
+      northing INTEGER,
+      country_code TEXT,
+      nhs_regional_ha_code TEXT,
+      nhs_ha_code TEXT,
+      admin_county_code TEXT,
+      admin_district_code TEXT,
+      admin_ward_code TEXT
+    );
+    CREATE VIRTUAL TABLE postcodes_rtree USING rtree(id, minX, maxX, minY, maxY);
+  `);
+
+  const insertPostcode = db.prepare(
+    `INSERT INTO postcodes (postcode, positional_quality, easting, northing) VALUES (?, 10, ?, ?)`
+  );
+  const insertRtree = db.prepare(
+    `INSERT INTO postcodes_rtree (id, minX, maxX, minY, maxY) VALUES (?, ?, ?, ?, ?)`
+  );
+  const rows: Array<[string, number, number]> = [
+    ['PL6 8RU', 1000, 1000],
+    ['PL6 8RX', 1200, 1000],
+  ];
+  for (const [postcode, easting, northing] of rows) {
+    const info = insertPostcode.run(postcode, easting, northing);
+    insertRtree.run(info.lastInsertRowid, easting, easting, northing, northing);
+  }
+
+  db.close();
+  return dbPath;
+}
+
+describe('queryPlanService', () => {
+  const endpoint = 'https://example.com/sparql';
+  let mockFetch: SparqlFetchMock;
+
+  beforeEach(() => {
+    mockFetch = mockSparqlFetch(() => []);
+  });
+
+  afterEach(() => {
+    restoreFetch();
+  });
+
+  describe('explainSearchProperties', () => {
+    it('should return the page and count queries without calling the endpoint', async () => {
+      const plan = await explainSearchProperties(endpoint, {
+        postcode: 'PL6 8RU',
+        minPrice: 100000,
+        excludeOutliers: true,
+        dryRun: true,
+      });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(plan.dryRun).toBe(true);
+      expect(plan.parameters).toEqual({
+        postcode: 'PL6 8RU',
+        minPrice: 100000,
+        excludeOutliers: true,
+        transactionCategory: 'standard',
+        limit: 10,
+        offset: 0,
+      });
+      expect(plan.queries).toHaveLength(2);
+      expect(plan.queries[0]).toContain('FILTER(?amount >= 100000)');
+      expect(plan.queries[0]).toContain('LIMIT 1000');
+      expect(plan.queries[1]).toContain('COUNT(');
+      expect(plan.fallbackQueries).toEqual([]);
+      expect(plan.processing).toEqual([
+        'Parse each result row into a sale',
+        expect.stringContaining('Fetch every matching sale (at most 10,000) in pages of 1000'),
+        'Drop the flagged sales, count them in outliersExcluded and leave them out of total',
+        'Keep the requested page of the remaining sales',
+      ]);
+    });
+
+    it('should list fuzzy street queries as fallbacks', async () => {
+      const plan = await explainSearchProperties(endpoint, {
+        street: 'St Johns Rd',
+        city: 'plymouth',
+        fuzzy: true,
+      });
+
+      expect(plan.parameters).toMatchObject({ street: 'ST JOHNS RD', city: 'PLYMOUTH' });
+      expect(plan.queries).toHaveLength(2);
+      expect(plan.fallbackQueries).toHaveLength(2);
+      expect(plan.fallbackQueries[0]).toContain('STRSTARTS');
+      expect(plan.processing[0]).toBe('Match any of 5 street and 1 town spellings in one query');
+      expect(plan.processing).toContain(
+        'If nothing matches, retry with a street-name prefix match across town, locality and district (fallbackQueries)'
+      );
+    });
+
+    it('should return the SQL for the local backend without opening the database', async () => {
+      process.env.PRICE_PAID_BACKEND = 'local';
+      process.env.PRICE_PAID_DB_PATH = '/nonexistent/price-paid.sqlite';
+      resetConfig();
+      try {
+        const plan = await explainSearchProperties(endpoint, {
+          postcode: 'PL6 8',
+          minPrice: 100000,
+          sortBy: 'price',
+        });
+
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(plan.database).toBe('/nonexistent/price-paid.sqlite');
+        expect(plan.queries).toEqual([
+          "SELECT * FROM transactions WHERE postcode >= 'PL6 8' AND postcode < 'PL6 9' AND price >= 100000 ORDER BY price DESC, transaction_id LIMIT 10 OFFSET 0",
+          "SELECT COUNT(*) FROM transactions WHERE postcode >= 'PL6 8' AND postcode < 'PL6 9' AND price >= 100000",
+          "SELECT COUNT(DISTINCT postcode) FROM transactions WHERE postcode >= 'PL6 8' AND postcode < 'PL6 9'",
+        ]);
+        expect(plan.fallbackQueries).toEqual([]);
+        expect(plan.processing).not.toContainEqual(expect.stringContaining('Code-Point'));
+        expect(plan.processing[1]).toBe(
+          'Match sector PL6 8 on the postcode prefix; postcodeCount counts only its postcodes with sales'
+        );
+      } finally {
+        delete process.env.PRICE_PAID_BACKEND;
+        delete process.env.PRICE_PAID_DB_PATH;
+        resetConfig();
+      }
+    });
+
+    it('should report validation errors as the search would', async () => {
+      await expect(explainSearchProperties(endpoint, { street: 'HIGH STREET' })).rejects.toThrow(
+        'Either postcode or street and city must be provided'
+      );
+    });
+  });
+
+  describe('explainNearbySales', () => {
+    const dbPath = createTempDb();
+
+    it('should describe the postcodes and queries for a radius search', async () => {
+      const plan = await explainNearbySales(
+        endpoint,
+        NearbySalesParamsSchema.parse({ postcode: 'PL6 8RU', radiusMeters: 500, dryRun: true }),
+        { dbPath }
+      );
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(plan.parameters).toMatchObject({ sortBy: 'distance', sortOrder: 'asc', limit: 10 });
+      expect(plan.parameters.dryRun).toBeUndefined();
+      expect(plan.queries).toHaveLength(2);
+      expect(plan.queries[1]).toContain('("PL6 8RX"^^xsd:string 200)');
+      expect(plan.processing[0]).toBe(
+        'Find the 2 nearest postcodes (of 2) within 500m of PL6 8RU in the local Code-Point database and query them in batches of 200'
+      );
+    });
+  });
+});
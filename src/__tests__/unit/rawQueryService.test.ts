@@ -0,0 +1,175 @@
+import { jest } from '@jest/globals';
+import {
+  guardQuery,
+  maskOpaqueTokens,
+  queryForm,
+  runSparql,
+} from '../../services/rawQueryService.js';
+import { RawQueryParamsSchema, RawQueryRulesSchema } from '../../models/rawQuery.js';
+import { resetConfig } from '../../utils/config.js';
+import { restoreFetch, SparqlFetchMock, sentQuery } from '../helpers/sparqlFetch.js';
+
+const PREFIXES = 'PREFIX lrppi: <http://landregistry.data.gov.uk/def/ppi/>\n';
+
+describe('rawQueryService', () => {
+  const rules = RawQueryRulesSchema.parse({ maxLimit: 100 });
+
+  describe('maskOpaqueTokens', () => {
+    it('should blank out strings, IRIs and comments', () => {
+      expect(maskOpaqueTokens('SELECT * { ?s <http://x/delete#a> "DROP" } # INSERT\nLIMIT 5')).toBe(
+        'SELECT * { ?s <> "" }  \nLIMIT 5'
+      );
+    });
+
+    it('should leave comparison operators alone', () => {
+      expect(maskOpaqueTokens('FILTER(?a < 5 && ?b > 3)')).toBe('FILTER(?a < 5 && ?b > 3)');
+    });
+  });
+
+  describe('queryForm', () => {
+    it('should find the query form after prefix declarations', () => {
+      expect(queryForm(maskOpaqueTokens(`${PREFIXES}ask { ?s ?p ?o }`))).toBe('ASK');
+      expect(queryForm(maskOpaqueTokens(`${PREFIXES}CONSTRUCT { ?s ?p ?o } WHERE {}`))).toBe(
+        'CONSTRUCT'
+      );
+    });
+  });
+
+  describe('guardQuery', () => {
+    it('should add a LIMIT to SELECT queries without one', () => {
+      const guarded = guardQuery(`${PREFIXES}SELECT ?t { ?t lrppi:pricePaid ?p } # all`, rules);
+      expect(guarded.query).toMatch(/# all\nLIMIT 100$/);
+      expect(guarded.limit).toBe(100);
+      expect(guardQuery('SELECT * { ?s ?p ?o }', rules, 10).query).toMatch(/LIMIT 10$/);
+    });
+
+    it('should keep an explicit LIMIT within the maximum and reject a larger one', () => {
+      const query = 'SELECT * { { SELECT ?s { ?s ?p ?o } LIMIT 500 } } ORDER BY ?s LIMIT 50';
+      expect(guardQuery(query, rules)).toEqual({ form: 'SELECT', query, limit: 50 });
+      expect(() => guardQuery('SELECT * { ?s ?p ?o } LIMIT 5000', rules)).toThrow(
+        'LIMIT 5000 exceeds the maximum of 100'
+      );
+      expect(() => guardQuery('SELECT * { ?s ?p ?o }', rules, 101)).toThrow(
+        'limit cannot exceed 100'
+      );
+    });
+
+    it('should reject updates, SERVICE clauses and other query forms', () => {
+      expect(() => guardQuery('DELETE WHERE { ?s ?p ?o }', rules)).toThrow(
+        'Only read-only queries are allowed; found DELETE'
+      );
+      expect(() =>
+        guardQuery(`${PREFIXES}INSERT DATA { <http://x/a> lrppi:b "c" }`, rules)
+      ).toThrow('found INSERT');
+      expect(() =>
+        guardQuery('SELECT * { SERVICE <http://other/sparql> { ?s ?p ?o } }', rules)
+      ).toThrow('SERVICE clauses are not allowed');
+      expect(() => guardQuery('DESCRIBE <http://x/a>', rules)).toThrow(
+        'Query must be SELECT or ASK, not DESCRIBE'
+      );
+    });
+
+    it('should see through codepoint escapes', () => {
+      expect(() =>
+        guardQuery('SELECT * { \\u0053ERVICE <http://other/sparql> { ?s ?p ?o } }', rules)
+      ).toThrow('SERVICE clauses are not allowed');
+      expect(() =>
+        guardQuery('\\u0049NSERT DATA { <http://x/a> <http://x/b> "c" }', rules)
+      ).toThrow('found INSERT');
+      // An escaped quote closes the string, leaving the keyword outside it
+      expect(() =>
+        guardQuery('SELECT * { ?s ?p "a\\u0022 } \\U00000044ROP GRAPH <http://x/g> #" }', rules)
+      ).toThrow('found DROP');
+      expect(guardQuery('SELECT * { ?s ?p "caf\\u00E9" }', rules).query).toContain('"café"');
+    });
+
+    it('should add the LIMIT before a trailing VALUES clause', () => {
+      const query = 'SELECT ?s { ?s ?p ?o VALUES ?o { 1 } }\nVALUES ?s { <http://x/a> }';
+      expect(guardQuery(query, rules).query).toBe(
+        'SELECT ?s { ?s ?p ?o VALUES ?o { 1 } }\nLIMIT 100\nVALUES ?s { <http://x/a> }'
+      );
+      expect(() =>
+        guardQuery('SELECT * { ?s ?p ?o } LIMIT 500 VALUES ?s { <http://x/a> }', rules)
+      ).toThrow('LIMIT 500 exceeds the maximum of 100');
+    });
+
+    it('should not mistake variables, prefixed names or literals for keywords', () => {
+      expect(() =>
+        guardQuery('SELECT ?add ?with { ?s ex:delete ?add . ?s ?p "INSERT" }', rules)
+      ).not.toThrow();
+    });
+
+    it('should allow SERVICE when the rules do', () => {
+      const permissive = RawQueryRulesSchema.parse({ allowService: true });
+      expect(() =>
+        guardQuery('SELECT * { SERVICE <http://other/sparql> { ?s ?p ?o } }', permissive)
+      ).not.toThrow();
+    });
+  });
+
+  describe('runSparql', () => {
+    let mockFetch: SparqlFetchMock;
+    let body: unknown;
+
+    beforeEach(() => {
+      mockFetch = jest.fn<typeof fetch>(async () => Response.json(body));
+      global.fetch = mockFetch;
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    it('should return SELECT bindings and the query as sent', async () => {
+      body = { results: { bindings: [{ s: { type: 'uri', value: 'http://x/a' } }] } };
+      const result = await runSparql(
+        'https://example.com/sparql',
+        RawQueryParamsSchema.parse({ query: 'SELECT ?s { ?s ?p ?o }' }),
+        rules
+      );
+
+      expect(sentQuery(mockFetch.mock.calls[0][1])).toBe('SELECT ?s { ?s ?p ?o }\nLIMIT 100');
+      expect(mockFetch.mock.calls[0][1]?.signal).toBeDefined();
+      expect(result).toMatchObject({ form: 'SELECT', limit: 100, resultCount: 1 });
+      expect(result.bindings?.[0].s.value).toBe('http://x/a');
+    });
+
+    it('should answer ASK queries', async () => {
+      body = { head: {}, boolean: true };
+      const result = await runSparql(
+        'https://example.com/sparql',
+        RawQueryParamsSchema.parse({ query: 'ASK { ?s ?p ?o }' }),
+        rules
+      );
+      expect(result).toEqual({
+        form: 'ASK',
+        query: 'ASK { ?s ?p ?o }',
+        resultCount: 1,
+        boolean: true,
+      });
+    });
+
+    it('should report a timeout without retrying', async () => {
+      const timeout = new Error('The operation was aborted due to timeout');
+      timeout.name = 'TimeoutError';
+      mockFetch.mockImplementation(() => Promise.reject(timeout));
+      process.env.SPARQL_MAX_RETRIES = '1';
+      process.env.SPARQL_RETRY_BASE_DELAY_MS = '0';
+      resetConfig();
+      try {
+        await expect(
+          runSparql(
+            'https://example.com/sparql',
+            RawQueryParamsSchema.parse({ query: 'ASK { ?s ?p ?o }', timeoutMs: 50 }),
+            rules
+          )
+        ).rejects.toThrow('SPARQL request timed out after 50ms');
+      } finally {
+        delete process.env.SPARQL_MAX_RETRIES;
+        delete process.env.SPARQL_RETRY_BASE_DELAY_MS;
+        resetConfig();
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
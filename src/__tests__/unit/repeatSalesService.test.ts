@@ -0,0 +1,129 @@
+import {
+  getRepeatSales,
+  groupRepeatSales,
+  summarizeRepeatSales,
+} from '../../services/repeatSalesService.js';
+import { RepeatSalesParamsSchema } from '../../models/repeatSales.js';
+import { PropertyPrice } from '../../models/types.js';
+import { mockSparqlFetch, restoreFetch } from '../helpers/sparqlFetch.js';
+
+function sale(paon: string, price: number, date: string): PropertyPrice {
+  return {
+    price,
+    date,
+    paon,
+    postcode: 'PL6 8RU',
+    propertyType: 'semi-detached',
+    street: 'PATTINSON DRIVE',
+    city: 'PLYMOUTH',
+  };
+}
+
+describe('repeatSalesService', () => {
+  describe('groupRepeatSales', () => {
+    it('should pair consecutive sales of each property and drop single sales', () => {
+      const properties = groupRepeatSales([
+        sale('12', 242000, '2024-02-01'),
+        sale('12', 200000, '2020-02-01'),
+        sale('12', 150000, '2012-02-01'),
+        sale('14', 180000, '2019-06-01'),
+      ]);
+
+      expect(properties).toHaveLength(1);
+      expect(properties[0]).toMatchObject({
+        address: '12 PATTINSON DRIVE, PL6 8RU',
+        saleCount: 3,
+      });
+      expect(properties[0].pairs).toHaveLength(2);
+      expect(properties[0].pairs[1]).toMatchObject({
+        fromDate: '2020-02-01',
+        fromPrice: 200000,
+        toDate: '2024-02-01',
+        toPrice: 242000,
+        priceChange: 42000,
+        priceChangePercent: 21,
+      });
+      expect(properties[0].pairs[1].holdingYears).toBeCloseTo(4, 1);
+      expect(properties[0].pairs[1].annualisedReturnPercent).toBeCloseTo(4.88, 1);
+    });
+
+    it('should ignore pairs held for less than the minimum and order by latest resale', () => {
+      const properties = groupRepeatSales(
+        [
+          sale('1', 100000, '2020-01-01'),
+          sale('1', 110000, '2020-04-01'),
+          sale('2', 100000, '2015-01-01'),
+          sale('2', 120000, '2019-01-01'),
+          sale('3', 100000, '2016-01-01'),
+          sale('3', 90000, '2022-01-01'),
+        ],
+        1
+      );
+
+      expect(properties.map(property => property.paon)).toEqual(['3', '2']);
+    });
+  });
+
+  describe('summarizeRepeatSales', () => {
+    it('should aggregate returns across every pair', () => {
+      const summary = summarizeRepeatSales(
+        groupRepeatSales([
+          sale('2', 100000, '2015-01-01'),
+          sale('2', 120000, '2019-01-01'),
+          sale('3', 100000, '2016-01-01'),
+          sale('3', 90000, '2022-01-01'),
+        ])
+      );
+
+      expect(summary).toMatchObject({
+        propertyCount: 2,
+        pairCount: 2,
+        medianPriceChangePercent: 5,
+        lossPercent: 50,
+      });
+      expect(summary.medianHoldingYears).toBeCloseTo(5, 1);
+    });
+
+    it('should report only counts when nothing resold', () => {
+      expect(summarizeRepeatSales([])).toEqual({ propertyCount: 0, pairCount: 0 });
+    });
+  });
+
+  describe('getRepeatSales', () => {
+    beforeEach(() => {
+      mockSparqlFetch(query =>
+        query.includes('COUNT(')
+          ? [{ count: { value: '3' } }]
+          : [
+              ['12', '260000', '2023-05-01'],
+              ['12', '200000', '2018-05-01'],
+              ['14', '230000', '2021-03-01'],
+            ].map(([paon, amount, date]) => ({
+              paon: { value: paon },
+              amount: { value: amount },
+              date: { value: date },
+              street: { value: 'PATTINSON DRIVE' },
+              postcode: { value: 'PL6 8RU' },
+              propertyType: { value: 'http://landregistry.data.gov.uk/def/common/terraced' },
+            }))
+      );
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    it('should report repeat sales across the area', async () => {
+      const result = await getRepeatSales(
+        'https://example.com/sparql',
+        RepeatSalesParamsSchema.parse({ postcode: 'PL6 8RU' })
+      );
+
+      expect(result.salesAnalysed).toBe(3);
+      expect(result.minHoldingYears).toBe(1);
+      expect(result.summary).toMatchObject({ propertyCount: 1, pairCount: 1, lossPercent: 0 });
+      expect(result.properties[0]).toMatchObject({ paon: '12', saleCount: 2 });
+      expect(result.properties[0].pairs[0].priceChange).toBe(60000);
+    });
+  });
+});
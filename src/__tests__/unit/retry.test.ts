@@ -0,0 +1,45 @@
+import { isRetryableStatus, parseRetryAfter, retryDelayMs, sleep } from '../../utils/retry.js';
+
+describe('retry', () => {
+  describe('isRetryableStatus', () => {
+    it('should retry rate limiting and transient server errors only', () => {
+      expect([429, 500, 502, 503, 504].every(isRetryableStatus)).toBe(true);
+      expect([400, 401, 404, 501].some(isRetryableStatus)).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T00:00:00Z');
+      expect(parseRetryAfter('3', now)).toBe(3000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+      expect(parseRetryAfter('Sun, 31 Dec 2023 23:00:00 GMT', now)).toBe(0);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
+  });
+
+  describe('retryDelayMs', () => {
+    const backoff = { baseDelayMs: 500, maxDelayMs: 3000 };
+
+    it('should back off exponentially with jitter up to the maximum', () => {
+      expect(retryDelayMs(1, backoff, undefined, () => 1)).toBe(500);
+      expect(retryDelayMs(3, backoff, undefined, () => 0.5)).toBe(1000);
+      expect(retryDelayMs(6, backoff, undefined, () => 1)).toBe(3000);
+    });
+
+    it('should prefer Retry-After, capped at the maximum', () => {
+      expect(retryDelayMs(1, backoff, 2000, () => 0)).toBe(2000);
+      expect(retryDelayMs(1, backoff, 60000)).toBe(3000);
+    });
+  });
+
+  describe('sleep', () => {
+    it('should reject when the signal aborts', async () => {
+      const controller = new AbortController();
+      const sleeping = sleep(60000, controller.signal);
+      controller.abort(new Error('cancelled'));
+      await expect(sleeping).rejects.toThrow('cancelled');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { jest } from '@jest/globals';
+import { createRequestScheduler } from '../../utils/scheduler.js';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => (resolve = done));
+  return { promise, resolve };
+}
+
+describe('scheduler', () => {
+  const unpaced = { maxConcurrent: 1, requestsPerSecond: 100000, maxQueued: 10 };
+
+  it('should cap the tasks running at once', async () => {
+    const scheduler = createRequestScheduler({ ...unpaced, maxConcurrent: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    const runs = gates.map(gate => scheduler.run('call', () => gate.promise));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(scheduler.stats()).toEqual({ active: 2, queued: 1 });
+    gates.forEach(gate => gate.resolve());
+    await Promise.all(runs);
+    expect(scheduler.stats()).toEqual({ active: 0, queued: 0 });
+  });
+
+  it('should keep counting running tasks when reconfigured', async () => {
+    const scheduler = createRequestScheduler({ ...unpaced, maxConcurrent: 2 });
+    const gates = [deferred(), deferred()];
+    const runs = gates.map(gate => scheduler.run('call', () => gate.promise));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    scheduler.configure({ ...unpaced, maxConcurrent: 1 });
+    const waiting = scheduler.run('call', async () => 'done');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(scheduler.stats()).toEqual({ active: 2, queued: 1 });
+
+    gates[0].resolve();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(scheduler.stats()).toEqual({ active: 1, queued: 1 });
+    gates[1].resolve();
+    await expect(waiting).resolves.toBe('done');
+    await Promise.all(runs);
+  });
+
+  it('should take turns between owners', async () => {
+    const scheduler = createRequestScheduler(unpaced);
+    const started: string[] = [];
+    const task = (name: string) => async () => {
+      started.push(name);
+    };
+
+    await Promise.all([
+      scheduler.run('a', task('a1')),
+      scheduler.run('a', task('a2')),
+      scheduler.run('a', task('a3')),
+      scheduler.run('b', task('b1')),
+    ]);
+    expect(started).toEqual(['a1', 'a2', 'b1', 'a3']);
+  });
+
+  it('should space out starts to the rate limit', async () => {
+    const scheduler = createRequestScheduler({
+      ...unpaced,
+      maxConcurrent: 5,
+      requestsPerSecond: 20,
+    });
+    const startTimes: number[] = [];
+
+    await Promise.all(
+      [1, 2, 3].map(() => scheduler.run('call', async () => startTimes.push(Date.now())))
+    );
+    expect(startTimes[2] - startTimes[0]).toBeGreaterThanOrEqual(90);
+  });
+
+  it('should reject tasks when the queue is full', async () => {
+    const scheduler = createRequestScheduler({ ...unpaced, maxQueued: 1 });
+    const gate = deferred();
+    const running = scheduler.run('call', () => gate.promise);
+    const waiting = scheduler.run('call', async () => 'done');
+
+    await expect(scheduler.run('call', async () => 'rejected')).rejects.toThrow(
+      'Too many SPARQL requests waiting (1); the limit is 1'
+    );
+    gate.resolve();
+    await running;
+    await expect(waiting).resolves.toBe('done');
+  });
+
+  it('should drop queued tasks whose signal aborts', async () => {
+    const scheduler = createRequestScheduler(unpaced);
+    const gate = deferred();
+    const running = scheduler.run('call', () => gate.promise);
+    const controller = new AbortController();
+    const task = jest.fn(async () => undefined);
+    const waiting = scheduler.run('call', task, controller.signal);
+
+    controller.abort(new Error('cancelled'));
+    await expect(waiting).rejects.toThrow('cancelled');
+    expect(scheduler.stats()).toEqual({ active: 1, queued: 0 });
+    gate.resolve();
+    await running;
+    expect(task).not.toHaveBeenCalled();
+  });
+});
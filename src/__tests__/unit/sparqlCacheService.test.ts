@@ -0,0 +1,88 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  closeSparqlCache,
+  normalizeQueryText,
+  readCachedResponse,
+  sparqlCacheKey,
+  storeCachedResponse,
+} from '../../services/sparqlCacheService.js';
+
+describe('sparqlCacheService', () => {
+  let tmpDir: string;
+  let settings: { cachePath: string; cacheTtlSeconds: number; cacheMaxMegabytes: number };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sparql-cache-'));
+    settings = {
+      cachePath: path.join(tmpDir, 'cache.sqlite'),
+      cacheTtlSeconds: 60,
+      cacheMaxMegabytes: 1,
+    };
+  });
+
+  afterEach(() => {
+    closeSparqlCache();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('sparqlCacheKey', () => {
+    it('should ignore layout but not the contents of strings', () => {
+      expect(normalizeQueryText('  SELECT *\n  WHERE {\t?s ?p "a  b" }\n')).toBe(
+        'SELECT * WHERE { ?s ?p "a  b" }'
+      );
+      const endpoint = 'https://example.com/sparql';
+      expect(sparqlCacheKey(endpoint, 'SELECT *\nWHERE { ?s ?p ?o }')).toBe(
+        sparqlCacheKey(endpoint, 'SELECT * WHERE { ?s ?p ?o }')
+      );
+      expect(sparqlCacheKey(endpoint, 'ASK { ?s ?p "a b" }')).not.toBe(
+        sparqlCacheKey(endpoint, 'ASK { ?s ?p "a  b" }')
+      );
+      expect(sparqlCacheKey(endpoint, 'ASK {}')).not.toBe(
+        sparqlCacheKey('https://other.example.com/sparql', 'ASK {}')
+      );
+    });
+
+    it('should drop comments up to the line break and keep long strings verbatim', () => {
+      expect(normalizeQueryText('SELECT * # note\n  WHERE { ?s ?p ?o }')).toBe(
+        'SELECT * WHERE { ?s ?p ?o }'
+      );
+      const endpoint = 'https://example.com/sparql';
+      expect(sparqlCacheKey(endpoint, 'ASK { ?s ?p ?o # x\nFILTER(false) }')).not.toBe(
+        sparqlCacheKey(endpoint, 'ASK { ?s ?p ?o # x FILTER(false) }')
+      );
+      expect(sparqlCacheKey(endpoint, 'ASK { ?s ?p """a\n  b""" }')).not.toBe(
+        sparqlCacheKey(endpoint, 'ASK { ?s ?p """a b""" }')
+      );
+      expect(sparqlCacheKey(endpoint, "ASK { ?s ?p '''a # b''' }")).not.toBe(
+        sparqlCacheKey(endpoint, "ASK { ?s ?p '''a''' }")
+      );
+    });
+  });
+
+  describe('readCachedResponse', () => {
+    it('should return stored responses until they expire', () => {
+      const entry = { endpoint: 'e', query: 'q', response: { boolean: true } };
+      storeCachedResponse('key', entry, settings, 1000);
+
+      expect(readCachedResponse('key', settings, 30000)).toEqual({ boolean: true });
+      expect(readCachedResponse('key', settings, 62000)).toBeUndefined();
+      expect(readCachedResponse('key', settings, 1000)).toBeUndefined();
+    });
+  });
+
+  describe('storeCachedResponse', () => {
+    it('should evict the least recently used responses beyond the size limit', () => {
+      const response = { text: 'x'.repeat(400 * 1024) };
+      storeCachedResponse('a', { endpoint: 'e', query: 'a', response }, settings, 1000);
+      storeCachedResponse('b', { endpoint: 'e', query: 'b', response }, settings, 2000);
+      readCachedResponse('a', settings, 3000);
+      storeCachedResponse('c', { endpoint: 'e', query: 'c', response }, settings, 4000);
+
+      expect(readCachedResponse('a', settings, 5000)).toEqual(response);
+      expect(readCachedResponse('b', settings, 5000)).toBeUndefined();
+      expect(readCachedResponse('c', settings, 5000)).toEqual(response);
+    });
+  });
+});
@@ -1,48 +1,63 @@
-import { jest } from '@jest/globals';
-import { searchProperties, querySparql, parsePropertyPrice } from '../../services/sparqlService.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  searchProperties,
+  querySparql,
+  parsePropertyPrice,
+  countTransactions,
+  searchPostcodes,
+  withCacheMode,
+  withToolCall,
+} from '../../services/sparqlService.js';
+import { closeSparqlCache } from '../../services/sparqlCacheService.js';
 import { SearchParams } from '../../models/types.js';
+import { resetConfig } from '../../utils/config.js';
+import {
+  mockSparqlFetch,
+  restoreFetch,
+  SparqlFetchMock,
+  sentQueries,
+} from '../helpers/sparqlFetch.js';
+
+function createPostcodeDb(postcodes: string[]): string {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sparql-postcodes-'));
+  const dbPath = path.join(tmpDir, 'postcodes.sqlite');
+  const db = new Database(dbPath);
+  db.exec('CREATE TABLE postcodes (postcode TEXT PRIMARY KEY)');
+  const insert = db.prepare('INSERT INTO postcodes (postcode) VALUES (?)');
+  postcodes.forEach(postcode => insert.run(postcode));
+  db.close();
+  return dbPath;
+}
 
 describe('sparqlService', () => {
-  let mockFetch: jest.Mock;
+  let mockFetch: SparqlFetchMock;
 
   beforeEach(() => {
-    mockFetch = jest.fn();
-    mockFetch.mockImplementation(() =>
-      Promise.resolve({
-        ok: true,
-        status: 200,
-        statusText: 'OK',
-        headers: new Headers({
-          'Content-Type': 'application/sparql-results+json',
-          'Content-Length': '1000',
-        }),
-        json: () =>
-          Promise.resolve({
-            results: {
-              bindings: [
-                {
-                  amount: { value: '500000' },
-                  date: { value: '2024-01-01' },
-                  postcode: { value: 'SW1A 1AA' },
-                  propertyType: {
-                    value: 'http://landregistry.data.gov.uk/def/common/flat-maisonette',
-                  },
-                  street: { value: 'Test Street' },
-                  town: { value: 'LONDON' },
-                  paon: { value: '10' },
-                  saon: { value: 'Apt 2' },
-                },
-              ],
+    mockFetch = mockSparqlFetch(query =>
+      query.includes('COUNT(')
+        ? [{ count: { value: '1' } }]
+        : [
+            {
+              amount: { value: '500000' },
+              date: { value: '2024-01-01' },
+              postcode: { value: 'SW1A 1AA' },
+              propertyType: {
+                value: 'http://landregistry.data.gov.uk/def/common/flat-maisonette',
+              },
+              street: { value: 'Test Street' },
+              town: { value: 'LONDON' },
+              paon: { value: '10' },
+              saon: { value: 'Apt 2' },
             },
-          }),
-      })
+          ]
     );
-    (global as any).fetch = mockFetch;
   });
 
   afterEach(() => {
-    jest.resetAllMocks();
-    delete (global as any).fetch;
+    restoreFetch();
   });
 
   describe('querySparql', () => {
@@ -58,6 +73,7 @@ describe('sparqlService', () => {
           Accept: 'application/sparql-results+json',
         },
         body: 'query=SELECT+*+WHERE+%7B+%3Fs+%3Fp+%3Fo+%7D',
+        signal: expect.any(AbortSignal),
       });
       expect(result).toHaveLength(1);
       expect(result[0]).toEqual({
@@ -75,17 +91,181 @@ describe('sparqlService', () => {
     it('should handle query errors', async () => {
       const endpoint = 'https://example.com/sparql';
       const query = 'SELECT * WHERE { ?s ?p ?o }';
-      mockFetch.mockImplementationOnce(() =>
-        Promise.resolve({
-          ok: false,
-          status: 400,
-          statusText: 'Bad Request',
-          text: () => Promise.resolve('Invalid query'),
-          headers: new Headers(),
-        })
+      mockFetch.mockResolvedValueOnce(
+        new Response('Invalid query', { status: 400, statusText: 'Bad Request' })
       );
 
       await expect(querySparql(endpoint, query)).rejects.toThrow('HTTP error 400: Invalid query');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry transient failures, honouring Retry-After', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          new Response('Service Unavailable', { status: 503, headers: { 'Retry-After': '0' } })
+        )
+        .mockRejectedValueOnce(new TypeError('fetch failed'));
+
+      process.env.SPARQL_RETRY_BASE_DELAY_MS = '0';
+      resetConfig();
+      try {
+        const result = await querySparql(
+          'https://example.com/sparql',
+          'SELECT * WHERE { ?s ?p ?o }'
+        );
+        expect(result).toHaveLength(1);
+      } finally {
+        delete process.env.SPARQL_RETRY_BASE_DELAY_MS;
+        resetConfig();
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry an attempt that times out', async () => {
+      const timeout = new Error('The operation was aborted due to timeout');
+      timeout.name = 'TimeoutError';
+      mockFetch.mockRejectedValueOnce(timeout);
+
+      process.env.SPARQL_RETRY_BASE_DELAY_MS = '0';
+      resetConfig();
+      try {
+        const result = await querySparql(
+          'https://example.com/sparql',
+          'SELECT * WHERE { ?s ?p ?o }',
+          { timeoutMs: 50 }
+        );
+        expect(result).toHaveLength(1);
+      } finally {
+        delete process.env.SPARQL_RETRY_BASE_DELAY_MS;
+        resetConfig();
+      }
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      mockFetch.mockImplementation(
+        async () =>
+          new Response('Too Many Requests', { status: 429, headers: { 'Retry-After': '0' } })
+      );
+
+      await expect(
+        querySparql('https://example.com/sparql', 'SELECT * WHERE { ?s ?p ?o }', { maxRetries: 2 })
+      ).rejects.toThrow('HTTP error 429: Too Many Requests');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop when the request signal is cancelled', async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementation(async (_url, init) => {
+        controller.abort();
+        throw init?.signal?.reason;
+      });
+
+      await expect(
+        withToolCall({ id: 'test', signal: controller.signal }, () =>
+          querySparql('https://example.com/sparql', 'SELECT * WHERE { ?s ?p ?o }')
+        )
+      ).rejects.toThrow('SPARQL request cancelled');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('response cache', () => {
+    const endpoint = 'https://example.com/sparql';
+    const query = 'SELECT * WHERE { ?s ?p ?o }';
+    let cacheDir: string;
+
+    beforeEach(() => {
+      cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sparql-cache-'));
+      process.env.SPARQL_CACHE = 'on';
+      process.env.SPARQL_CACHE_PATH = path.join(cacheDir, 'cache.sqlite');
+      resetConfig();
+    });
+
+    afterEach(() => {
+      process.env.SPARQL_CACHE = 'off';
+      delete process.env.SPARQL_CACHE_PATH;
+      resetConfig();
+      closeSparqlCache();
+      fs.rmSync(cacheDir, { recursive: true, force: true });
+    });
+
+    it('should answer repeated and concurrent queries with one request', async () => {
+      const [first, second] = await Promise.all([
+        querySparql(endpoint, query),
+        querySparql(endpoint, query),
+      ]);
+      const third = await querySparql(endpoint, `${query}\n`);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(second).toEqual(first);
+      expect(third).toEqual(first);
+    });
+
+    it('should keep a shared request going while any caller still waits for it', async () => {
+      const respond = mockFetch.getMockImplementation()!;
+      let release = () => {};
+      let sharedSignal: AbortSignal | undefined;
+      mockFetch.mockImplementationOnce(
+        (url, init) =>
+          new Promise(resolve => {
+            sharedSignal = init?.signal ?? undefined;
+            release = () => resolve(respond(url, init));
+          })
+      );
+      const cancelled = new AbortController();
+
+      const first = querySparql(endpoint, query, { signal: cancelled.signal });
+      const second = querySparql(endpoint, query);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      cancelled.abort();
+      await expect(first).rejects.toThrow('SPARQL request cancelled');
+      expect(sharedSignal?.aborted).toBe(false);
+
+      release();
+      await expect(second).resolves.toHaveLength(1);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort a shared request once every caller has given up', async () => {
+      let sharedSignal: AbortSignal | undefined;
+      mockFetch.mockImplementationOnce(
+        (_url, init) =>
+          new Promise((_resolve, reject) => {
+            const signal = init!.signal!;
+            sharedSignal = signal;
+            signal.addEventListener('abort', () => reject(signal.reason));
+          })
+      );
+      const cancelled = new AbortController();
+
+      const first = querySparql(endpoint, query, { signal: cancelled.signal });
+      const second = querySparql(endpoint, query, { timeoutMs: 20 });
+      await expect(second).rejects.toThrow('SPARQL request timed out after 20ms');
+      expect(sharedSignal?.aborted).toBe(false);
+
+      cancelled.abort();
+      await expect(first).rejects.toThrow('SPARQL request cancelled');
+      expect(sharedSignal?.aborted).toBe(true);
+    });
+
+    it('should bypass or refresh the cache when asked', async () => {
+      await querySparql(endpoint, query);
+      await querySparql(endpoint, query, { cache: 'bypass' });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await withCacheMode('refresh', () => querySparql(endpoint, query));
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      await querySparql(endpoint, query);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('countTransactions', () => {
+    it('should return zero when the count binding is missing', async () => {
+      mockFetch = mockSparqlFetch(() => []);
+
+      await expect(countTransactions('https://example.com/sparql', 'SELECT')).resolves.toBe(0);
     });
   });
 
@@ -115,6 +295,38 @@ describe('sparqlService', () => {
       });
     });
 
+    it('should map tenure, new-build, category, county and transaction ID', () => {
+      const binding = {
+        amount: { value: '325000' },
+        date: { value: '2023-06-30' },
+        postcode: { value: 'PL6 8RU' },
+        propertyType: { value: 'http://landregistry.data.gov.uk/def/common/detached' },
+        street: { value: 'PATTINSON DRIVE' },
+        town: { value: 'PLYMOUTH' },
+        county: { value: 'CITY OF PLYMOUTH' },
+        estateType: { value: 'http://landregistry.data.gov.uk/def/common/leasehold' },
+        newBuild: { value: 'true' },
+        category: { value: 'Additional price paid transaction' },
+        transactionId: { value: 'E3AA6B5C-8D8E-4FAC-9C9D-0F1E2D3C4B5A' },
+      };
+
+      expect(parsePropertyPrice(binding)).toMatchObject({
+        county: 'CITY OF PLYMOUTH',
+        estateType: 'leasehold',
+        newBuild: true,
+        transactionCategory: 'additional',
+        transactionId: 'E3AA6B5C-8D8E-4FAC-9C9D-0F1E2D3C4B5A',
+      });
+      expect(
+        parsePropertyPrice({
+          ...binding,
+          estateType: { value: 'http://landregistry.data.gov.uk/def/common/freehold' },
+          newBuild: { value: 'false' },
+          category: { value: 'Standard price paid transaction' },
+        })
+      ).toMatchObject({ estateType: 'freehold', newBuild: false, transactionCategory: 'standard' });
+    });
+
     it('should throw error for invalid binding', () => {
       const binding = {
         amount: { value: '500000' },
@@ -175,6 +387,12 @@ describe('sparqlService', () => {
       );
     });
 
+    it('should throw error when limit exceeds the maximum page size', async () => {
+      await expect(
+        searchProperties(validEndpoint, { ...validParams, limit: 5000 })
+      ).rejects.toThrow('limit cannot exceed 1000');
+    });
+
     it('should throw error for non-positive limit', async () => {
       await expect(searchProperties(validEndpoint, { ...validParams, limit: 0 })).rejects.toThrow(
         'limit must be positive'
@@ -206,5 +424,400 @@ describe('sparqlService', () => {
       expect(result.offset).toBe(0);
       expect(result.limit).toBe(10);
     });
+
+    it('should push filters, sorting and pagination into the SPARQL query', async () => {
+      await searchProperties(validEndpoint, {
+        street: 'High Street',
+        city: 'London',
+        minPrice: 200000,
+        maxPrice: 400000,
+        propertyType: 'terraced',
+        sortBy: 'price',
+        sortOrder: 'asc',
+        limit: 5,
+        offset: 15,
+      });
+
+      const [query] = sentQueries(mockFetch);
+      expect(query).toContain('VALUES ?street {"HIGH STREET"^^xsd:string}');
+      expect(query).toContain(
+        'VALUES ?propertyType {<http://landregistry.data.gov.uk/def/common/terraced>}'
+      );
+      expect(query).toContain('FILTER(?amount >= 200000)');
+      expect(query).toContain('FILTER(?amount <= 400000)');
+      expect(query).toContain('ORDER BY ASC(?amount)');
+      expect(query).toContain('LIMIT 5');
+      expect(query).toContain('OFFSET 15');
+    });
+
+    it('should apply tenure, new-build and category filters to page and count queries', async () => {
+      await searchProperties(validEndpoint, {
+        ...validParams,
+        estateType: 'freehold',
+        newBuild: true,
+        transactionCategory: 'standard',
+      });
+
+      for (const query of sentQueries(mockFetch)) {
+        expect(query).toContain(
+          '?transx lrppi:estateType <http://landregistry.data.gov.uk/def/common/freehold> .'
+        );
+        expect(query).toContain('?transx lrppi:newBuild true .');
+        expect(query).toContain('standardPricePaidTransaction');
+      }
+    });
+
+    it('should report the total from a companion COUNT query', async () => {
+      mockFetch = mockSparqlFetch(query =>
+        query.includes('COUNT(') ? [{ count: { value: '2437' } }] : []
+      );
+
+      const result = await searchProperties(validEndpoint, {
+        ...validParams,
+        minPrice: 100000,
+        limit: 50,
+        offset: 2400,
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      const [, countQuery] = sentQueries(mockFetch);
+      expect(countQuery).toContain('SELECT (COUNT(DISTINCT ?transx) AS ?count)');
+      expect(countQuery).toContain('FILTER(?amount >= 100000)');
+      expect(countQuery).not.toContain('OFFSET');
+      expect(result.total).toBe(2437);
+      expect(result.offset).toBe(2400);
+      expect(result.limit).toBe(50);
+    });
+  });
+
+  describe('outliers', () => {
+    const endpoint = 'https://example.com/sparql';
+
+    beforeEach(() => {
+      mockFetch = mockSparqlFetch(query =>
+        query.includes('COUNT(')
+          ? [{ count: { value: '2' } }]
+          : ['325000', '1'].map(amount => ({
+              amount: { value: amount },
+              date: { value: '2024-01-01' },
+              postcode: { value: 'PL6 8RU' },
+              propertyType: { value: 'http://landregistry.data.gov.uk/def/common/detached' },
+            }))
+      );
+    });
+
+    it('should flag likely non-market sales without removing them', async () => {
+      const result = await searchProperties(endpoint, { postcode: 'PL6 8RU', flagOutliers: true });
+      expect(result.properties.map(p => p.outlierFlags)).toEqual([undefined, ['lowPrice']]);
+      expect(result.outliersExcluded).toBeUndefined();
+    });
+
+    it('should exclude category B entries in the query and drop flagged sales', async () => {
+      const result = await searchProperties(endpoint, {
+        postcode: 'PL6 8RU',
+        excludeOutliers: true,
+      });
+
+      for (const query of sentQueries(mockFetch)) {
+        expect(query).toContain('standardPricePaidTransaction');
+      }
+      expect(result.properties.map(p => p.price)).toEqual([325000]);
+      expect(result.outliersExcluded).toBe(1);
+      expect(result.total).toBe(1);
+    });
+
+    it('should judge outliers against every matching sale, not just the page', async () => {
+      const prices = ['300000', '310000', '320000', '330000', '340000', '5000000'];
+      mockFetch = mockSparqlFetch(query => {
+        const offset = Number(/OFFSET (\d+)/.exec(query)?.[1] ?? 0);
+        return query.includes('COUNT(')
+          ? [{ count: { value: String(prices.length) } }]
+          : prices.slice(offset, offset + 4).map(amount => ({
+              amount: { value: amount },
+              date: { value: '2024-01-01' },
+              postcode: { value: 'PL6 8RU' },
+              propertyType: { value: 'http://landregistry.data.gov.uk/def/common/detached' },
+            }));
+      });
+
+      const pages = await Promise.all(
+        [0, 2, 4].map(offset =>
+          searchProperties(endpoint, {
+            postcode: 'PL6 8RU',
+            excludeOutliers: true,
+            sortBy: 'price',
+            sortOrder: 'asc',
+            limit: 2,
+            offset,
+          })
+        )
+      );
+
+      expect(pages.map(page => page.properties.map(p => p.price))).toEqual([
+        [300000, 310000],
+        [320000, 330000],
+        [340000],
+      ]);
+      expect(pages.map(page => page.total)).toEqual([5, 5, 5]);
+      expect(pages.map(page => page.outliersExcluded)).toEqual([1, 1, 1]);
+    });
+
+    it('should reject outlier checks on searches matching too many sales', async () => {
+      mockFetch = mockSparqlFetch(query =>
+        query.includes('COUNT(') ? [{ count: { value: '20000' } }] : []
+      );
+
+      await expect(
+        searchProperties(endpoint, { postcode: 'PL6 8RU', flagOutliers: true })
+      ).rejects.toThrow('this search matches 20000 (the limit is 10000)');
+    });
+
+    it('should not exclude outliers from a search for category B entries', async () => {
+      await expect(
+        searchProperties(endpoint, {
+          postcode: 'PL6 8RU',
+          excludeOutliers: true,
+          transactionCategory: 'additional',
+        })
+      ).rejects.toThrow('excludeOutliers cannot be combined');
+    });
+  });
+
+  describe('street name matching', () => {
+    const endpoint = 'https://example.com/sparql';
+
+    function mockCounts(countFor: (query: string) => number) {
+      mockFetch = mockSparqlFetch(query => {
+        const total = countFor(query);
+        if (query.includes('COUNT(')) {
+          return [{ count: { value: String(total) } }];
+        }
+        return total > 0
+          ? [
+              {
+                amount: { value: '450000' },
+                date: { value: '2023-05-01' },
+                postcode: { value: 'E9 6NR' },
+                propertyType: { value: 'http://landregistry.data.gov.uk/def/common/terraced' },
+                street: { value: "ST JOHN'S ROAD" },
+                town: { value: 'LONDON' },
+              },
+            ]
+          : [];
+      });
+    }
+
+    it('should try abbreviation and apostrophe variants in one query', async () => {
+      mockCounts(() => 1);
+
+      const result = await searchProperties(endpoint, {
+        street: 'St Johns Rd',
+        city: 'London',
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      const [query] = sentQueries(mockFetch);
+      expect(query).toContain('"ST JOHNS RD"^^xsd:string');
+      expect(query).toContain('"ST JOHN\'S ROAD"^^xsd:string');
+      expect(query).toContain('"SAINT JOHNS ROAD"^^xsd:string');
+      expect(result.match).toMatchObject({
+        mode: 'exact',
+        matchedStreets: ["ST JOHN'S ROAD"],
+        matchedCities: ['LONDON'],
+      });
+    });
+
+    it('should not fall back to fuzzy matching unless asked', async () => {
+      mockCounts(() => 0);
+
+      const result = await searchProperties(endpoint, { street: 'Carlton', city: 'Hackney' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.total).toBe(0);
+      expect(result.match?.mode).toBe('exact');
+    });
+
+    it('should retry with a prefix match across town, locality and district in fuzzy mode', async () => {
+      mockCounts(query => (query.includes('STRSTARTS') ? 1 : 0));
+
+      const result = await searchProperties(endpoint, {
+        street: "St John's Road",
+        city: 'Hackney',
+        fuzzy: true,
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      const fuzzyQuery = sentQueries(mockFetch)[2];
+      expect(fuzzyQuery).toContain('lrcommon:locality ?place');
+      expect(fuzzyQuery).toContain('STRSTARTS(UCASE(?street), "SAINT JOHN")');
+      expect(result.total).toBe(1);
+      expect(result.match).toEqual({
+        mode: 'fuzzy',
+        streetCandidates: ['ST JOHN', 'SAINT JOHN'],
+        cityCandidates: ['HACKNEY'],
+        matchedStreets: ["ST JOHN'S ROAD"],
+        matchedCities: ['LONDON'],
+      });
+    });
+  });
+
+  describe('administrative area search', () => {
+    const endpoint = 'https://example.com/sparql';
+
+    it('should search a district over the requested date range', async () => {
+      const result = await searchProperties(endpoint, {
+        district: 'City of Plymouth',
+        propertyType: 'detached',
+        fromDate: '2024-01-01',
+        toDate: '2024-03-31',
+      });
+
+      const [query, countQuery] = sentQueries(mockFetch);
+      expect(query).toContain('VALUES ?district {"CITY OF PLYMOUTH"^^xsd:string}');
+      expect(query).toContain('FILTER(?date <= "2024-03-31"^^xsd:date)');
+      expect(countQuery).toContain('?addr lrcommon:district ?district .');
+      expect(result.total).toBe(1);
+      expect(result.administrativeArea).toEqual({
+        district: 'CITY OF PLYMOUTH',
+        county: undefined,
+        locality: undefined,
+        fromDate: '2024-01-01',
+        toDate: '2024-03-31',
+      });
+    });
+
+    it('should require fromDate', async () => {
+      await expect(searchProperties(endpoint, { county: 'DEVON' })).rejects.toThrow(
+        'fromDate is required when searching by district, county or locality'
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should cap the date range', async () => {
+      await expect(
+        searchProperties(endpoint, {
+          county: 'DEVON',
+          fromDate: '2022-01-01',
+          toDate: '2024-01-01',
+        })
+      ).rejects.toThrow('limited to 366 days');
+    });
+
+    it('should not combine an area with a postcode or street', async () => {
+      await expect(
+        searchProperties(endpoint, {
+          locality: 'PLYMPTON',
+          postcode: 'PL6 8RU',
+          fromDate: '2024-01-01',
+        })
+      ).rejects.toThrow('cannot be combined with postcode or street/city');
+    });
+  });
+
+  describe('postcode district and sector search', () => {
+    const endpoint = 'https://example.com/sparql';
+    const originalDbPath = process.env.POSTCODE_DB_PATH;
+
+    beforeAll(() => {
+      process.env.POSTCODE_DB_PATH = createPostcodeDb(['SW1A1AA', 'SW1A1AB', 'SW1A2AA', 'SW1 1AA']);
+      resetConfig();
+    });
+
+    afterAll(() => {
+      if (originalDbPath === undefined) {
+        delete process.env.POSTCODE_DB_PATH;
+      } else {
+        process.env.POSTCODE_DB_PATH = originalDbPath;
+      }
+      resetConfig();
+    });
+
+    it('should expand a district into its member postcodes', async () => {
+      const result = await searchProperties(endpoint, { postcode: 'sw1a', limit: 10 });
+
+      const [countQuery, pageQuery] = sentQueries(mockFetch);
+      const values =
+        'VALUES ?postcode {"SW1A 1AA"^^xsd:string "SW1A 1AB"^^xsd:string "SW1A 2AA"^^xsd:string}';
+      expect(countQuery).toContain(values);
+      expect(pageQuery).toContain(values);
+      expect(pageQuery).not.toContain('SW1 1AA');
+      expect(result.area).toEqual({ type: 'district', code: 'SW1A', postcodeCount: 3 });
+      expect(result.total).toBe(1);
+      expect(result.properties).toHaveLength(1);
+    });
+
+    it('should restrict a sector search to the sector', async () => {
+      const result = await searchProperties(endpoint, { postcode: 'SW1A 2' });
+      expect(sentQueries(mockFetch)[0]).toContain('VALUES ?postcode {"SW1A 2AA"^^xsd:string}');
+      expect(result.area?.type).toBe('sector');
+    });
+
+    it('should fetch each batch once when checking a district for outliers', async () => {
+      mockFetch = mockSparqlFetch(query =>
+        query.includes('COUNT(')
+          ? [{ count: { value: '1500' } }]
+          : Array.from({ length: 1500 }, () => ({
+              amount: { value: '500000' },
+              date: { value: '2024-01-01' },
+              postcode: { value: 'SW1A 1AA' },
+              propertyType: { value: 'http://landregistry.data.gov.uk/def/common/detached' },
+            }))
+      );
+
+      const result = await searchProperties(endpoint, {
+        postcode: 'SW1A',
+        flagOutliers: true,
+        limit: 5,
+      });
+
+      const queries = sentQueries(mockFetch);
+      expect(queries).toHaveLength(2);
+      expect(queries[1]).toContain('LIMIT 10000');
+      expect(result.total).toBe(1500);
+      expect(result.properties).toHaveLength(5);
+    });
+
+    it('should fail when the area has no postcodes', async () => {
+      await expect(searchProperties(endpoint, { postcode: 'ZZ9' })).rejects.toThrow(
+        'No postcodes found for district ZZ9'
+      );
+    });
+  });
+
+  describe('searchPostcodes', () => {
+    it('should merge batches and page across them', async () => {
+      const postcodes = Array.from({ length: 250 }, (_, i) => `AB1 ${i}`);
+      let batch = 0;
+      mockFetch = mockSparqlFetch(query =>
+        query.includes('COUNT(')
+          ? [{ count: { value: '2' } }]
+          : [
+              {
+                amount: { value: String(100000 * ++batch) },
+                date: { value: '2024-01-01' },
+                propertyType: { value: 'http://landregistry.data.gov.uk/def/common/detached' },
+              },
+              {
+                amount: { value: String(100000 * batch + 50000) },
+                date: { value: '2024-01-01' },
+                propertyType: { value: 'http://landregistry.data.gov.uk/def/common/detached' },
+              },
+            ]
+      );
+
+      const result = await searchPostcodes('https://example.com/sparql', postcodes, {
+        sortBy: 'price',
+        sortOrder: 'asc',
+        limit: 2,
+        offset: 1,
+      });
+
+      const queries = sentQueries(mockFetch);
+      expect(queries).toHaveLength(4);
+      expect(queries[1]).toContain('LIMIT 3');
+      expect(queries[1]).not.toContain('OFFSET');
+      expect(result.total).toBe(4);
+      expect(result.properties.map(p => p.price)).toEqual([150000, 200000]);
+    });
   });
 });
@@ -0,0 +1,165 @@
+import {
+  getPriceStatistics,
+  percentile,
+  summarizeBy,
+  summarizePrices,
+} from '../../services/statisticsService.js';
+import { PriceStatisticsParamsSchema } from '../../models/statistics.js';
+import { PropertyPrice } from '../../models/types.js';
+import { mockSparqlFetch, restoreFetch } from '../helpers/sparqlFetch.js';
+
+function sale(price: number, date: string, extra: Partial<PropertyPrice> = {}): PropertyPrice {
+  return {
+    price,
+    date,
+    postcode: 'PL6 8RU',
+    propertyType: 'detached',
+    street: 'PATTINSON DRIVE',
+    city: 'PLYMOUTH',
+    ...extra,
+  };
+}
+
+describe('statisticsService', () => {
+  describe('percentile', () => {
+    it('should interpolate between the closest ranks', () => {
+      expect(percentile([100, 200, 300, 400], 0.5)).toBe(250);
+      expect(percentile([100, 200, 300, 400], 0.25)).toBe(175);
+      expect(percentile([100], 0.9)).toBe(100);
+    });
+  });
+
+  describe('summarizePrices', () => {
+    it('should report count, mean, median, percentiles and range', () => {
+      expect(summarizePrices([300000, 100000, 200000, 400000, 500000])).toEqual({
+        count: 5,
+        mean: 300000,
+        median: 300000,
+        p10: 140000,
+        p25: 200000,
+        p75: 400000,
+        p90: 460000,
+        min: 100000,
+        max: 500000,
+      });
+    });
+
+    it('should report only the count when there are no prices', () => {
+      expect(summarizePrices([])).toEqual({ count: 0 });
+    });
+  });
+
+  describe('summarizeBy', () => {
+    it('should group by year in ascending order', () => {
+      const groups = summarizeBy(
+        [sale(200000, '2021-03-01'), sale(100000, '2020-06-01'), sale(300000, '2021-09-01')],
+        'year'
+      );
+      expect(Object.keys(groups)).toEqual(['2020', '2021']);
+      expect(groups['2021']).toMatchObject({ count: 2, median: 250000 });
+    });
+
+    it('should group sales without a tenure as unknown', () => {
+      const groups = summarizeBy(
+        [sale(200000, '2021-03-01', { estateType: 'leasehold' }), sale(100000, '2020-06-01')],
+        'estateType'
+      );
+      expect(Object.keys(groups)).toEqual(['leasehold', 'unknown']);
+    });
+  });
+
+  describe('getPriceStatistics', () => {
+    beforeEach(() => {
+      mockSparqlFetch(query =>
+        query.includes('COUNT(')
+          ? [{ count: { value: '3' } }]
+          : [
+              ['150000', '2024-01-05', 'flat'],
+              ['350000', '2023-07-01', 'detached'],
+              ['250000', '2023-02-11', 'detached'],
+            ].map(([amount, date, type]) => ({
+              amount: { value: amount },
+              date: { value: date },
+              postcode: { value: 'PL6 8RU' },
+              propertyType: {
+                value: `http://landregistry.data.gov.uk/def/common/${type === 'flat' ? 'flat-maisonette' : type}`,
+              },
+            }))
+      );
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    it('should summarise every sale in the area with the requested breakdowns', async () => {
+      const result = await getPriceStatistics(
+        'https://example.com/sparql',
+        PriceStatisticsParamsSchema.parse({
+          postcode: 'PL6 8RU',
+          groupBy: ['propertyType', 'year'],
+        })
+      );
+
+      expect(result.total).toBe(3);
+      expect(result.salesAnalysed).toBe(3);
+      expect(result.truncated).toBe(false);
+      expect(result.statistics).toMatchObject({ count: 3, median: 250000, min: 150000 });
+      expect(result.breakdowns?.propertyType).toEqual({
+        detached: expect.objectContaining({ count: 2, median: 300000 }),
+        flat: expect.objectContaining({ count: 1, median: 150000 }),
+      });
+      expect(Object.keys(result.breakdowns?.year ?? {})).toEqual(['2023', '2024']);
+    });
+
+    it('should leave outliers out when asked', async () => {
+      mockSparqlFetch(query =>
+        query.includes('COUNT(')
+          ? [{ count: { value: '3' } }]
+          : ['250000', '1', '270000'].map(amount => ({
+              amount: { value: amount },
+              date: { value: '2024-01-05' },
+              postcode: { value: 'PL6 8RU' },
+              propertyType: { value: 'http://landregistry.data.gov.uk/def/common/detached' },
+            }))
+      );
+
+      const result = await getPriceStatistics(
+        'https://example.com/sparql',
+        PriceStatisticsParamsSchema.parse({ postcode: 'PL6 8RU', excludeOutliers: true })
+      );
+      expect(result.total).toBe(3);
+      expect(result.outliersExcluded).toBe(1);
+      expect(result.salesAnalysed).toBe(2);
+      expect(result.statistics).toMatchObject({ count: 2, min: 250000 });
+    });
+
+    it('should require an area', () => {
+      expect(() => PriceStatisticsParamsSchema.parse({ propertyType: 'flat' })).toThrow(
+        'Provide exactly one of: a postcode, both street and city'
+      );
+    });
+
+    it('should accept one area and reject several', () => {
+      const accepted = [
+        { postcode: 'PL6 8RU', city: 'PLYMOUTH' },
+        { district: 'CITY OF PLYMOUTH', county: 'CITY OF PLYMOUTH' },
+        { postcode: 'PL6 8RU', radiusMeters: 500 },
+        { easting: 248000, northing: 59000, radiusMeters: 500 },
+      ];
+      for (const area of accepted) {
+        expect(PriceStatisticsParamsSchema.safeParse(area).success).toBe(true);
+      }
+
+      const rejected = [
+        { postcode: 'PL6 8RU', street: 'PATTINSON DRIVE', city: 'PLYMOUTH' },
+        { postcode: 'PL6 8RU', district: 'CITY OF PLYMOUTH' },
+        { street: 'PATTINSON DRIVE', city: 'PLYMOUTH', locality: 'ROBOROUGH' },
+        { postcode: 'PL6 8RU', district: 'CITY OF PLYMOUTH', radiusMeters: 500 },
+      ];
+      for (const area of rejected) {
+        expect(() => PriceStatisticsParamsSchema.parse(area)).toThrow('Provide exactly one of');
+      }
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  midpointDate,
+  rankStreets,
+  summarizeStreets,
+} from '../../services/streetRankingService.js';
+import { RankStreetsParamsSchema } from '../../models/streets.js';
+import { PropertyPrice } from '../../models/types.js';
+import { mockSparqlFetch, restoreFetch } from '../helpers/sparqlFetch.js';
+
+function sale(street: string, price: number, date: string, postcode = 'PL6 8RU'): PropertyPrice {
+  return { price, date, postcode, propertyType: 'terraced', street, city: 'PLYMOUTH' };
+}
+
+describe('streetRankingService', () => {
+  describe('midpointDate', () => {
+    it('should split a date window in half', () => {
+      expect(midpointDate('2022-01-01', '2023-12-31')).toBe('2022-12-31');
+      expect(midpointDate('2024-03-01', '2024-03-03')).toBe('2024-03-02');
+    });
+  });
+
+  describe('summarizeStreets', () => {
+    it('should group by street and town and drop streets below the minimum', () => {
+      const streets = summarizeStreets(
+        [
+          sale('HIGH STREET', 200000, '2022-03-01'),
+          sale('HIGH STREET', 240000, '2023-06-01', 'PL6 8RX'),
+          sale('HIGH STREET', 260000, '2023-09-01'),
+          sale('MILL LANE', 500000, '2023-01-01'),
+        ],
+        2,
+        '2023-01-01'
+      );
+
+      expect(streets).toEqual([
+        {
+          street: 'HIGH STREET',
+          town: 'PLYMOUTH',
+          count: 3,
+          medianPrice: 240000,
+          meanPrice: 233333,
+          minPrice: 200000,
+          maxPrice: 260000,
+          firstSaleDate: '2022-03-01',
+          lastSaleDate: '2023-09-01',
+          growthPercent: 25,
+          postcodes: ['PL6 8RU', 'PL6 8RX'],
+        },
+      ]);
+    });
+
+    it('should leave growth out without sales in both halves', () => {
+      const [street] = summarizeStreets([sale('MILL LANE', 1, '2023-05-01')], 1, '2023-01-01');
+      expect(street.growthPercent).toBeUndefined();
+    });
+  });
+
+  describe('rankStreets', () => {
+    beforeEach(() => {
+      mockSparqlFetch(query =>
+        query.includes('COUNT(')
+          ? [{ count: { value: '5' } }]
+          : [
+              ['HIGH STREET', '300000', '2024-06-01'],
+              ['HIGH STREET', '200000', '2022-02-01'],
+              ['MILL LANE', '250000', '2024-01-01'],
+              ['MILL LANE', '240000', '2022-05-01'],
+              ['MILL LANE', '230000', '2022-01-01'],
+            ].map(([street, amount, date]) => ({
+              street: { value: street },
+              town: { value: 'PLYMOUTH' },
+              amount: { value: amount },
+              date: { value: date },
+              postcode: { value: 'PL6 8RU' },
+              propertyType: { value: 'http://landregistry.data.gov.uk/def/common/terraced' },
+            }))
+      );
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    it('should rank by median price, volume or growth', async () => {
+      const rank = (params: Record<string, unknown>) =>
+        rankStreets(
+          'https://example.com/sparql',
+          RankStreetsParamsSchema.parse({ postcode: 'PL6 8RU', minSales: 2, ...params })
+        );
+
+      const byPrice = await rank({});
+      expect(byPrice.streets.map(street => [street.rank, street.street])).toEqual([
+        [1, 'HIGH STREET'],
+        [2, 'MILL LANE'],
+      ]);
+      expect(byPrice.growthSplitDate).toBe('2023-03-18');
+
+      const byVolume = await rank({ rankBy: 'salesVolume' });
+      expect(byVolume.streets[0]).toMatchObject({ street: 'MILL LANE', count: 3 });
+
+      const byGrowth = await rank({ rankBy: 'growth', sortOrder: 'asc' });
+      expect(byGrowth.streets.map(street => [street.street, street.growthPercent])).toEqual([
+        ['MILL LANE', 6.38],
+        ['HIGH STREET', 50],
+      ]);
+    });
+
+    it('should not rank a single street', () => {
+      expect(() =>
+        RankStreetsParamsSchema.parse({ street: 'HIGH STREET', city: 'PLYMOUTH' })
+      ).toThrow('not a street');
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { getTransaction, normalizeTransactionId } from '../../services/transactionService.js';
+import {
+  mockSparqlFetch,
+  restoreFetch,
+  SparqlFetchMock,
+  sentQuery,
+} from '../helpers/sparqlFetch.js';
+
+const TRANSACTION_ID = 'E3AA6B5C-8D8E-4FAC-9C9D-0F1E2D3C4B5A';
+
+describe('transactionService', () => {
+  describe('normalizeTransactionId', () => {
+    it('should accept the braced CSV form and lower case', () => {
+      expect(normalizeTransactionId(`{${TRANSACTION_ID}}`)).toBe(TRANSACTION_ID);
+      expect(normalizeTransactionId(` ${TRANSACTION_ID.toLowerCase()} `)).toBe(TRANSACTION_ID);
+    });
+
+    it('should reject anything that is not a GUID', () => {
+      expect(() => normalizeTransactionId('12345')).toThrow('Invalid transaction ID: 12345');
+      expect(() => normalizeTransactionId(`${TRANSACTION_ID}> } #`)).toThrow(
+        'Invalid transaction ID'
+      );
+    });
+  });
+
+  describe('getTransaction', () => {
+    let bindings: Record<string, { value: string }>[];
+    let mockFetch: SparqlFetchMock;
+
+    beforeEach(() => {
+      mockFetch = mockSparqlFetch(() => bindings);
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    it('should fetch the current record with its record status', async () => {
+      bindings = [
+        {
+          amount: { value: '265000' },
+          date: { value: '2019-03-29' },
+          postcode: { value: 'PL6 8RU' },
+          propertyType: { value: 'http://landregistry.data.gov.uk/def/common/detached' },
+          street: { value: 'PATTINSON DRIVE' },
+          locality: { value: 'ROBOROUGH' },
+          town: { value: 'PLYMOUTH' },
+          district: { value: 'CITY OF PLYMOUTH' },
+          paon: { value: '10' },
+          category: { value: 'Standard price paid transaction' },
+          transactionId: { value: TRANSACTION_ID },
+          recordStatus: { value: 'http://landregistry.data.gov.uk/def/ppi/change' },
+        },
+      ];
+
+      const result = await getTransaction('https://example.com/sparql', {
+        transactionId: `{${TRANSACTION_ID.toLowerCase()}}`,
+      });
+
+      const query = sentQuery(mockFetch.mock.calls[0][1]);
+      expect(query).toContain(
+        `VALUES ?transx {<http://landregistry.data.gov.uk/data/ppi/transaction/${TRANSACTION_ID}/current>}`
+      );
+      expect(result).toMatchObject({
+        price: 265000,
+        transactionId: TRANSACTION_ID,
+        recordStatus: 'change',
+        locality: 'ROBOROUGH',
+        district: 'CITY OF PLYMOUTH',
+        transactionCategory: 'standard',
+      });
+    });
+
+    it('should report an unknown transaction', async () => {
+      bindings = [];
+
+      await expect(
+        getTransaction('https://example.com/sparql', { transactionId: TRANSACTION_ID })
+      ).rejects.toThrow(`No transaction found with ID ${TRANSACTION_ID}`);
+    });
+
+    it('should not query with an invalid ID', async () => {
+      bindings = [];
+
+      await expect(
+        getTransaction('https://example.com/sparql', { transactionId: 'not-an-id' })
+      ).rejects.toThrow('Invalid transaction ID');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  buildPriceTrend,
+  describePeriod,
+  getPriceTrend,
+  periodIndex,
+} from '../../services/trendService.js';
+import { PriceTrendParamsSchema } from '../../models/trend.js';
+import { PropertyPrice } from '../../models/types.js';
+import {
+  mockSparqlFetch,
+  restoreFetch,
+  SparqlFetchMock,
+  sentQuery,
+} from '../helpers/sparqlFetch.js';
+
+function sale(price: number, date: string): PropertyPrice {
+  return {
+    price,
+    date,
+    postcode: 'PL6 8RU',
+    propertyType: 'detached',
+    street: 'PATTINSON DRIVE',
+    city: 'PLYMOUTH',
+  };
+}
+
+describe('trendService', () => {
+  describe('describePeriod', () => {
+    it('should label months, quarters and years with their date range', () => {
+      expect(describePeriod(periodIndex('2024-02-10', 'month'), 'month')).toEqual({
+        period: '2024-02',
+        startDate: '2024-02-01',
+        endDate: '2024-02-29',
+      });
+      expect(describePeriod(periodIndex('2023-11-30', 'quarter'), 'quarter')).toEqual({
+        period: '2023-Q4',
+        startDate: '2023-10-01',
+        endDate: '2023-12-31',
+      });
+      expect(describePeriod(periodIndex('2022-06-01', 'year'), 'year')).toEqual({
+        period: '2022',
+        startDate: '2022-01-01',
+        endDate: '2022-12-31',
+      });
+    });
+  });
+
+  describe('buildPriceTrend', () => {
+    const sales = [
+      sale(100000, '2024-01-15'),
+      sale(300000, '2024-01-20'),
+      sale(400000, '2024-03-02'),
+    ];
+
+    it('should include periods with no sales', () => {
+      const series = buildPriceTrend(sales, 'month');
+      expect(series.map(point => [point.period, point.count, point.medianPrice])).toEqual([
+        ['2024-01', 2, 200000],
+        ['2024-02', 0, undefined],
+        ['2024-03', 1, 400000],
+      ]);
+    });
+
+    it('should span the requested date range', () => {
+      const series = buildPriceTrend(sales, 'quarter', {
+        fromDate: '2023-07-01',
+        toDate: '2024-06-30',
+      });
+      expect(series.map(point => point.period)).toEqual([
+        '2023-Q3',
+        '2023-Q4',
+        '2024-Q1',
+        '2024-Q2',
+      ]);
+      expect(series[2]).toMatchObject({ count: 3, medianPrice: 300000, meanPrice: 266667 });
+    });
+
+    it('should add a trailing rolling median across the window', () => {
+      const series = buildPriceTrend(sales, 'month', { smoothingWindow: 2 });
+      expect(series.map(point => point.smoothedMedianPrice)).toEqual([200000, 200000, 400000]);
+    });
+
+    it('should return no periods when there are no sales or dates', () => {
+      expect(buildPriceTrend([], 'year')).toEqual([]);
+    });
+
+    it('should refuse a series with too many periods', () => {
+      expect(() =>
+        buildPriceTrend([], 'month', { fromDate: '1000-01-01', toDate: '2024-12-31' })
+      ).toThrow(
+        'A monthly trend from 1000-01-01 to 2024-12-31 has 12300 periods (the limit is 600)'
+      );
+      expect(
+        buildPriceTrend([], 'year', { fromDate: '1995-01-01', toDate: '2024-12-31' })
+      ).toHaveLength(30);
+    });
+  });
+
+  describe('getPriceTrend', () => {
+    let mockFetch: SparqlFetchMock;
+
+    beforeEach(() => {
+      mockFetch = mockSparqlFetch(query =>
+        query.includes('COUNT(')
+          ? [{ count: { value: '2' } }]
+          : [
+              ['250000', '2023-02-11'],
+              ['350000', '2023-11-01'],
+            ].map(([amount, date]) => ({
+              amount: { value: amount },
+              date: { value: date },
+              postcode: { value: 'PL6 8RU' },
+              propertyType: { value: 'http://landregistry.data.gov.uk/def/common/detached' },
+            }))
+      );
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    it('should bucket the sales of an area into a series', async () => {
+      const result = await getPriceTrend(
+        'https://example.com/sparql',
+        PriceTrendParamsSchema.parse({
+          postcode: 'PL6 8RU',
+          propertyType: 'detached',
+          interval: 'quarter',
+          fromDate: '2023-01-01',
+          toDate: '2023-12-31',
+        })
+      );
+
+      const query = sentQuery(mockFetch.mock.calls[0][1]);
+      expect(query).toContain('<http://landregistry.data.gov.uk/def/common/detached>');
+      expect(result.interval).toBe('quarter');
+      expect(result.series.map(point => point.count)).toEqual([1, 0, 0, 1]);
+      expect(result.salesAnalysed).toBe(2);
+    });
+
+    it('should only accept full dates', () => {
+      for (const fromDate of ['2023', '2023-01', '2023-13-01', '01/02/2023']) {
+        expect(() => PriceTrendParamsSchema.parse({ postcode: 'PL6 8RU', fromDate })).toThrow(
+          'Expected a date as YYYY-MM-DD'
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  estimateValue,
+  hpiValue,
+  propertyTypeSimilarity,
+  weightedPercentile,
+} from '../../services/valuationService.js';
+import { ValuationParamsSchema } from '../../models/valuation.js';
+import { HpiObservation } from '../../models/hpi.js';
+import { mockSparqlFetch, restoreFetch } from '../helpers/sparqlFetch.js';
+
+function createTempDb(): string {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'valuation-db-'));
+  const dbPath = path.join(tmpDir, 'postcodes.sqlite');
+  const db = new Database(dbPath);
+
+  db.exec(`
+    CREATE TABLE postcodes (
+      postcode TEXT PRIMARY KEY,
+      positional_quality INTEGER,
+      easting INTEGER,
+      northing INTEGER,
+      country_code TEXT,
+      nhs_regional_ha_code TEXT,
+      nhs_ha_code TEXT,
+      admin_county_code TEXT,
+      admin_district_code TEXT,
+      admin_ward_code TEXT
+    );
+    CREATE VIRTUAL TABLE postcodes_rtree USING rtree(id, minX, maxX, minY, maxY);
+  `);
+
+  const insertPostcode = db.prepare(
+    `INSERT INTO postcodes (postcode, positional_quality, easting, northing) VALUES (?, 10, ?, ?)`
+  );
+  const insertRtree = db.prepare(
+    `INSERT INTO postcodes_rtree (id, minX, maxX, minY, maxY) VALUES (?, ?, ?, ?, ?)`
+  );
+  const rows: Array<[string, number, number]> = [
+    ['EX1 1AA', 1000, 1000],
+    ['EX1 1AB', 1300, 1400],
+  ];
+  for (const [postcode, easting, northing] of rows) {
+    const info = insertPostcode.run(postcode, easting, northing);
+    insertRtree.run(info.lastInsertRowid, easting, easting, northing, northing);
+  }
+
+  db.close();
+  return dbPath;
+}
+
+function sale(postcode: string, amount: number, date: string, paon: string, type = 'terraced') {
+  return {
+    amount: { value: String(amount) },
+    date: { value: date },
+    postcode: { value: postcode },
+    paon: { value: paon },
+    county: { value: 'DEVON' },
+    propertyType: { value: `http://landregistry.data.gov.uk/def/common/${type}` },
+  };
+}
+
+function month(value: string, index: number, terracedIndex?: number): HpiObservation {
+  return {
+    month: value,
+    index,
+    byPropertyType: terracedIndex === undefined ? {} : { terraced: { index: terracedIndex } },
+  };
+}
+
+describe('valuationService', () => {
+  describe('propertyTypeSimilarity', () => {
+    it('should rank the same type above neighbouring house types and flats', () => {
+      expect(propertyTypeSimilarity('terraced', 'terraced')).toBe(1);
+      expect(propertyTypeSimilarity('terraced', 'semi-detached')).toBe(0.5);
+      expect(propertyTypeSimilarity('terraced', 'detached')).toBe(0.25);
+      expect(propertyTypeSimilarity('terraced', 'flat')).toBe(0.05);
+    });
+  });
+
+  describe('weightedPercentile', () => {
+    it('should return the value at the cumulative weight fraction', () => {
+      const values = [
+        { value: 300, weight: 1 },
+        { value: 100, weight: 1 },
+        { value: 200, weight: 3 },
+      ];
+      expect(weightedPercentile(values, 0.5)).toBe(200);
+      expect(weightedPercentile(values, 0.1)).toBe(100);
+      expect(weightedPercentile(values, 0.9)).toBe(300);
+    });
+  });
+
+  describe('hpiValue', () => {
+    const months = [month('2024-01', 100, 90), month('2024-02', 102), month('2024-03', 104)];
+
+    it('should prefer the property type index and fall back to the overall index', () => {
+      expect(hpiValue(months, '2024-01-20', 'terraced')).toBe(90);
+      expect(hpiValue(months, '2024-02-05', 'terraced')).toBe(102);
+      expect(hpiValue(months, '2024-01-20', 'other')).toBe(100);
+    });
+
+    it('should use the nearest end of the series outside it', () => {
+      expect(hpiValue(months, '2023-06-01', 'flat')).toBe(100);
+      expect(hpiValue(months, '2025-06-01', 'flat')).toBe(104);
+    });
+  });
+
+  describe('estimateValue', () => {
+    const dbPath = createTempDb();
+    const endpoint = 'https://example.com/sparql';
+
+    beforeEach(() => {
+      mockSparqlFetch(query => {
+        if (query.includes('ukhpi:')) {
+          // No county-level series, so the valuation falls back to the UK index
+          return query.includes('/region/united-kingdom>')
+            ? [
+                { month: { value: '2024-01' }, index: { value: '100' } },
+                { month: { value: '2025-01' }, index: { value: '110' } },
+              ]
+            : [];
+        }
+        if (query.includes('COUNT(')) {
+          return [{ count: { value: '3' } }];
+        }
+        return [
+          sale('EX1 1AA', 200000, '2024-01-15', '12'),
+          sale('EX1 1AB', 220000, '2025-01-10', '3'),
+          sale('EX1 1AB', 500000, '2024-01-20', '7', 'detached'),
+        ];
+      });
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    it('should index comparables to the latest HPI month and weight the subject property', async () => {
+      const result = await estimateValue(
+        endpoint,
+        ValuationParamsSchema.parse({ postcode: 'ex11aa', propertyType: 'terraced', paon: '12' }),
+        { dbPath }
+      );
+
+      expect(result.hpiRegion).toBe('united-kingdom');
+      expect(result.valuationMonth).toBe('2025-01');
+      expect(result.comparableCount).toBe(3);
+      expect(result.estimate).toBe(220000);
+      expect(result.range.low).toBe(220000);
+      expect(result.range.high).toBe(220000);
+
+      const subject = result.comparables.find(comparable => comparable.paon === '12');
+      expect(subject).toMatchObject({ adjustedPrice: 220000, indexRatio: 1.1 });
+      expect(subject?.isSubjectProperty).toBe(true);
+      expect(result.comparables[0]).toBe(subject);
+      expect(result.comparables.reduce((sum, c) => sum + c.weight, 0)).toBeCloseTo(1, 3);
+
+      const detached = result.comparables.find(comparable => comparable.paon === '7');
+      expect(detached?.adjustedPrice).toBe(550000);
+      expect(detached?.isSubjectProperty).toBeUndefined();
+    });
+
+    it('should use the requested HPI region only', async () => {
+      await expect(
+        estimateValue(
+          endpoint,
+          ValuationParamsSchema.parse({
+            postcode: 'EX1 1AA',
+            propertyType: 'terraced',
+            hpiRegion: 'Exeter',
+          }),
+          { dbPath }
+        )
+      ).rejects.toThrow('No UKHPI data found for region exeter');
+    });
+
+    it('should fail when there are no comparable sales', async () => {
+      mockSparqlFetch(() => []);
+      await expect(
+        estimateValue(
+          endpoint,
+          ValuationParamsSchema.parse({ postcode: 'EX1 1AA', propertyType: 'flat' }),
+          { dbPath }
+        )
+      ).rejects.toThrow('No comparable sales found');
+    });
+  });
+});
@@ -1,21 +1,20 @@
 import { searchProperties } from '../services/sparqlService.js';
-
-const LAND_REGISTRY_ENDPOINT = 'https://landregistry.data.gov.uk/landregistry/query';
+import { initConfig } from '../utils/config.js';
 
 async function main() {
-  const postcode = process.argv[2];
+  const { config, positionals } = initConfig(process.argv.slice(2));
+  const postcode = positionals[0];
   if (!postcode) {
     console.error('Please provide a postcode as an argument');
-    console.error('Usage: node dist/cli.js <postcode>');
+    console.error('Usage: node dist/cli.js [--endpoint <url>] [--config <file>] <postcode>');
     process.exit(1);
   }
 
   console.log(`Searching for properties in postcode: ${postcode}`);
 
   try {
-    const result = await searchProperties(LAND_REGISTRY_ENDPOINT, {
+    const result = await searchProperties(config.endpoint, {
       postcode,
-      limit: 10,
       offset: 0,
       sortBy: 'date',
       sortOrder: 'desc',
@@ -3,12 +3,56 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
-import { searchProperties } from './services/sparqlService.js';
+import { searchProperties, withToolCall } from './services/sparqlService.js';
 import { lookupPostcodes } from './services/postcodeService.js';
+import { searchNearbySales } from './services/nearbyService.js';
+import { getPropertyHistory } from './services/propertyHistoryService.js';
+import { getTransaction } from './services/transactionService.js';
+import { getPriceStatistics } from './services/statisticsService.js';
+import { getPriceTrend } from './services/trendService.js';
+import { getHousePriceIndex } from './services/hpiService.js';
+import { estimateValue } from './services/valuationService.js';
+import { getRepeatSales } from './services/repeatSalesService.js';
+import { compareAreas } from './services/comparisonService.js';
+import { rankStreets } from './services/streetRankingService.js';
+import { runSparql } from './services/rawQueryService.js';
+import { explainNearbySales, explainSearchProperties } from './services/queryPlanService.js';
 import { logInfo, logError, logMcpRequest, logMcpResponse, logMcpError } from './utils/logger.js';
-import { PostcodeLookupParamsSchema } from './models/postcodes.js';
+import { initConfig } from './utils/config.js';
+import { PostcodeLookupParams, PostcodeLookupParamsSchema } from './models/postcodes.js';
+import { PropertyHistoryParamsSchema } from './models/history.js';
+import { TransactionLookupParamsSchema } from './models/transaction.js';
+import { PriceStatisticsParamsSchema } from './models/statistics.js';
+import { MAX_SMOOTHING_WINDOW, PriceTrendParamsSchema } from './models/trend.js';
+import { HousePriceIndexParamsSchema, MAX_HPI_MONTHS } from './models/hpi.js';
+import {
+  MAX_LISTED_COMPARABLES,
+  MAX_LOOKBACK_YEARS,
+  ValuationParamsSchema,
+} from './models/valuation.js';
+import { MAX_LISTED_REPEAT_SALES, RepeatSalesParamsSchema } from './models/repeatSales.js';
+import { CompareAreasParamsSchema, MAX_COMPARED_AREAS } from './models/comparison.js';
+import { MAX_RANKED_STREETS, RankStreetsParamsSchema } from './models/streets.js';
+import { RawQueryParamsSchema } from './models/rawQuery.js';
+import { Config } from './models/config.js';
+import { QueryPlan } from './models/types.js';
+import { MAX_AREA_SALES } from './models/area.js';
+import {
+  MAX_NEARBY_POSTCODES,
+  MAX_NEARBY_RADIUS,
+  NearbySalesParams,
+  NearbySalesParamsSchema,
+  NearbySalesResponse,
+} from './models/nearby.js';
 
-const LAND_REGISTRY_ENDPOINT = 'https://landregistry.data.gov.uk/landregistry/query';
+let config: Config;
+try {
+  ({ config } = initConfig(process.argv.slice(2)));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+}
+const LAND_REGISTRY_ENDPOINT = config.endpoint;
 
 const server = new McpServer({
   name: 'property-prices-mcp',
@@ -19,13 +63,24 @@ const searchPropertyPricesInputSchema: z.ZodTypeAny = z.object({
   postcode: z.string().optional(),
   street: z.string().optional(),
   city: z.string().optional(),
+  district: z.string().optional(),
+  county: z.string().optional(),
+  locality: z.string().optional(),
   minPrice: z.number().optional(),
   maxPrice: z.number().optional(),
   propertyType: z.enum(['detached', 'semi-detached', 'terraced', 'flat', 'other']).optional(),
   fromDate: z.string().optional(),
   toDate: z.string().optional(),
-  limit: z.number().optional(),
-  offset: z.number().optional(),
+  estateType: z.enum(['freehold', 'leasehold']).optional(),
+  newBuild: z.boolean().optional(),
+  transactionCategory: z.enum(['standard', 'additional']).optional(),
+  fuzzy: z.boolean().optional(),
+  flagOutliers: z.boolean().optional(),
+  excludeOutliers: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+  cache: z.enum(['bypass', 'refresh']).optional(),
+  limit: z.number().int().positive().max(1000).optional(),
+  offset: z.number().int().nonnegative().optional(),
   sortBy: z.enum(['date', 'price']).optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
 });
@@ -40,6 +95,139 @@ const lookupPostcodesInputSchema: z.ZodTypeAny = z.object({
   adminDistrict: z.string().optional(),
 });
 
+const searchNearbySalesInputSchema: z.ZodTypeAny = z.object({
+  postcode: z.string().optional(),
+  easting: z.number().optional(),
+  northing: z.number().optional(),
+  radiusMeters: z.number().positive().max(MAX_NEARBY_RADIUS),
+  maxPostcodes: z.number().int().positive().max(MAX_NEARBY_POSTCODES).optional(),
+  minPrice: z.number().optional(),
+  maxPrice: z.number().optional(),
+  propertyType: z.enum(['detached', 'semi-detached', 'terraced', 'flat', 'other']).optional(),
+  fromDate: z.string().optional(),
+  toDate: z.string().optional(),
+  estateType: z.enum(['freehold', 'leasehold']).optional(),
+  newBuild: z.boolean().optional(),
+  transactionCategory: z.enum(['standard', 'additional']).optional(),
+  limit: z.number().int().positive().max(1000).optional(),
+  offset: z.number().int().nonnegative().optional(),
+  sortBy: z.enum(['distance', 'date', 'price']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  dryRun: z.boolean().optional(),
+});
+
+const propertyHistoryInputSchema: z.ZodTypeAny = z.object({
+  paon: z.string(),
+  saon: z.string().optional(),
+  noSaon: z.boolean().optional(),
+  street: z.string().optional(),
+  town: z.string().optional(),
+  postcode: z.string().optional(),
+});
+
+const getTransactionInputSchema: z.ZodTypeAny = z.object({
+  transactionId: z.string(),
+});
+
+// Area and filters shared by the tools that analyse every sale in an area
+const areaSelectionInputFields = {
+  postcode: z.string().optional(),
+  street: z.string().optional(),
+  city: z.string().optional(),
+  district: z.string().optional(),
+  county: z.string().optional(),
+  locality: z.string().optional(),
+  easting: z.number().optional(),
+  northing: z.number().optional(),
+  radiusMeters: z.number().positive().max(MAX_NEARBY_RADIUS).optional(),
+  maxPostcodes: z.number().int().positive().max(MAX_NEARBY_POSTCODES).optional(),
+  minPrice: z.number().optional(),
+  maxPrice: z.number().optional(),
+  propertyType: z.enum(['detached', 'semi-detached', 'terraced', 'flat', 'other']).optional(),
+  fromDate: z.string().optional(),
+  toDate: z.string().optional(),
+  estateType: z.enum(['freehold', 'leasehold']).optional(),
+  newBuild: z.boolean().optional(),
+  transactionCategory: z.enum(['standard', 'additional']).optional(),
+  maxSales: z.number().int().positive().max(MAX_AREA_SALES).optional(),
+};
+
+const AREA_SELECTION_DESCRIPTION =
+  'Choose the area with one of: `postcode` (unit, sector such as `SW1A 1` or district such as `SW1A`), `street` and `city`, `district`/`county`/`locality` (local authority areas; need `fromDate` and at most 366 days), or `radiusMeters` (max 5000) around `postcode` or `easting`/`northing` (optional `maxPostcodes`, default 500). Sector, district and radius areas need the local Code-Point database (`npm run build:postcodes`). Optional filters as in `search-property-prices`: `minPrice`, `maxPrice`, `propertyType`, `fromDate`, `toDate`, `estateType`, `newBuild`, `transactionCategory`. At most `maxSales` (default 5000, max 10000) of the most recent sales are analysed; `truncated` is true when there were more.';
+
+const priceStatisticsInputSchema: z.ZodTypeAny = z.object({
+  ...areaSelectionInputFields,
+  groupBy: z.array(z.enum(['propertyType', 'estateType', 'year'])).optional(),
+  excludeOutliers: z.boolean().optional(),
+});
+
+const priceTrendInputSchema: z.ZodTypeAny = z.object({
+  ...areaSelectionInputFields,
+  interval: z.enum(['month', 'quarter', 'year']).optional(),
+  smoothingWindow: z.number().int().positive().max(MAX_SMOOTHING_WINDOW).optional(),
+});
+
+const housePriceIndexInputSchema: z.ZodTypeAny = z.object({
+  region: z.string(),
+  fromDate: z.string().optional(),
+  toDate: z.string().optional(),
+  limit: z.number().int().positive().max(MAX_HPI_MONTHS).optional(),
+});
+
+const estimateValueInputSchema: z.ZodTypeAny = z.object({
+  postcode: z.string(),
+  propertyType: z.enum(['detached', 'semi-detached', 'terraced', 'flat', 'other']),
+  paon: z.string().optional(),
+  saon: z.string().optional(),
+  estateType: z.enum(['freehold', 'leasehold']).optional(),
+  radiusMeters: z.number().positive().max(MAX_NEARBY_RADIUS).optional(),
+  maxPostcodes: z.number().int().positive().max(MAX_NEARBY_POSTCODES).optional(),
+  lookbackYears: z.number().positive().max(MAX_LOOKBACK_YEARS).optional(),
+  hpiRegion: z.string().optional(),
+  maxComparables: z.number().int().positive().max(MAX_LISTED_COMPARABLES).optional(),
+});
+
+const repeatSalesInputSchema: z.ZodTypeAny = z.object({
+  ...areaSelectionInputFields,
+  minHoldingYears: z.number().nonnegative().optional(),
+  limit: z.number().int().positive().max(MAX_LISTED_REPEAT_SALES).optional(),
+});
+
+const compareAreasInputSchema: z.ZodTypeAny = z.object({
+  areas: z
+    .array(
+      z.object({
+        postcode: z.string().optional(),
+        street: z.string().optional(),
+        city: z.string().optional(),
+      })
+    )
+    .min(2)
+    .max(MAX_COMPARED_AREAS),
+  fromDate: z.string().optional(),
+  toDate: z.string().optional(),
+  propertyType: z.enum(['detached', 'semi-detached', 'terraced', 'flat', 'other']).optional(),
+  estateType: z.enum(['freehold', 'leasehold']).optional(),
+  newBuild: z.boolean().optional(),
+  transactionCategory: z.enum(['standard', 'additional']).optional(),
+  excludeOutliers: z.boolean().optional(),
+  maxSalesPerArea: z.number().int().positive().max(MAX_AREA_SALES).optional(),
+});
+
+const rankStreetsInputSchema: z.ZodTypeAny = z.object({
+  ...areaSelectionInputFields,
+  rankBy: z.enum(['medianPrice', 'salesVolume', 'growth']).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+  minSales: z.number().int().positive().optional(),
+  limit: z.number().int().positive().max(MAX_RANKED_STREETS).optional(),
+});
+
+const runSparqlInputSchema: z.ZodTypeAny = z.object({
+  query: z.string(),
+  limit: z.number().int().positive().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+});
+
 type ToolResponse = {
   content: Array<{
     type: 'text';
@@ -54,89 +242,134 @@ type RegisterToolCompat = {
       description: string;
       inputSchema: z.ZodTypeAny;
     },
-    cb: (params: Record<string, unknown>) => Promise<ToolResponse>
+    cb: (params: Record<string, unknown>, extra: { signal?: AbortSignal }) => Promise<ToolResponse>
   ) => unknown;
 };
 
-const registerTool = (server as unknown as RegisterToolCompat).registerTool.bind(server);
+const registerServerTool = (server as unknown as RegisterToolCompat).registerTool.bind(server);
+const toolNames: string[] = [];
+let toolCallCount = 0;
+
+/**
+ * Register a tool unless the configuration limits the server to other tools. Each call's
+ * SPARQL requests are queued fairly against other calls' and cancelled with the call.
+ */
+const registerTool: RegisterToolCompat['registerTool'] = (name, toolConfig, cb) => {
+  toolNames.push(name);
+  if (config.enabledTools && !config.enabledTools.includes(name)) {
+    return undefined;
+  }
+  return registerServerTool(name, toolConfig, (params, extra) =>
+    withToolCall({ id: `${name}#${++toolCallCount}`, signal: extra?.signal }, () =>
+      cb(params, extra)
+    )
+  );
+};
+
+interface ToolResultSummary {
+  /** The parsed parameters, logged with the response in place of the raw input. */
+  params?: Record<string, unknown>;
+  resultCount?: number;
+  totalResults?: number;
+}
+
+function jsonToolResponse(payload: unknown): ToolResponse {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(payload, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Run a tool handler with the request/response/error logging shared by every tool.
+ * Errors are returned to the client as `{ error }` JSON rather than thrown.
+ */
+async function handleToolCall<T>(
+  toolName: string,
+  params: Record<string, unknown>,
+  run: () => Promise<T> | T,
+  summarize: (result: T) => ToolResultSummary
+): Promise<ToolResponse> {
+  const startTime = Date.now();
+  let responseStatus = 200;
+
+  try {
+    // Log the MCP tool request
+    logMcpRequest(`MCP tool invoked: ${toolName}`, { toolName, params });
+
+    const result = await run();
+
+    // Log the successful MCP response
+    const responseTime = Date.now() - startTime;
+    logMcpResponse(`MCP tool completed: ${toolName}`, {
+      toolName,
+      params,
+      responseStatus,
+      responseTime,
+      ...summarize(result),
+    });
+
+    return jsonToolResponse(result);
+  } catch (error) {
+    responseStatus = 500;
+    const responseTime = Date.now() - startTime;
+
+    // Log MCP error
+    logMcpError(`MCP tool failed: ${toolName}`, {
+      toolName,
+      params,
+      responseStatus,
+      responseTime,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    // Return error response to the client
+    return jsonToolResponse({ error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Log summary for search tools, which return a query plan instead of results on a dry run.
+ */
+function summarizeSearch(
+  result: QueryPlan | { properties: unknown[]; total: number }
+): ToolResultSummary {
+  return 'dryRun' in result
+    ? { resultCount: result.queries.length + result.fallbackQueries.length }
+    : { resultCount: result.properties.length, totalResults: result.total };
+}
+
+/**
+ * Drop null values, which some MCP clients send for omitted optional parameters.
+ */
+function withoutNulls(params: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(params).filter(([_, value]) => value !== null));
+}
 
 // Configure the property prices search tool
 registerTool(
   'search-property-prices',
   {
     description:
-      'Search HM Land Registry price-paid data. Provide either `postcode` or both `street` and `city` (case-insensitive; uppercased for the query). Optional filters: `minPrice`/`maxPrice` (GBP), `propertyType` (detached | semi-detached | terraced | flat | other), `fromDate`/`toDate` (YYYY-MM-DD), `limit`/`offset` (pagination), `sortBy` (date | price), `sortOrder` (asc | desc). Returns JSON: `{ properties: [{ price, date, postcode, propertyType, street, city, paon?, saon? }], total, offset, limit }`, where `paon` is the Primary Addressable Object Name (e.g., house number/name) and `saon` is the Secondary Addressable Object Name (e.g., flat/unit/apartment).',
+      'Search HM Land Registry price-paid data. Provide either `postcode` or both `street` and `city` (case-insensitive; abbreviations such as Rd/St and apostrophes are normalised and every spelling is tried). Alternatively search a local authority `district`, `county` and/or `locality` (e.g. `district: "CITY OF PLYMOUTH"`); these need `fromDate`, default `toDate` to today and are limited to a 366-day range. `postcode` may also be a district/outward code (e.g. `SW1A`) or a sector (e.g. `SW1A 1`) to search every postcode in that area; this needs the local Code-Point database (`npm run build:postcodes`). Optional filters: `minPrice`/`maxPrice` (GBP), `propertyType` (detached | semi-detached | terraced | flat | other), `fromDate`/`toDate` (YYYY-MM-DD), `estateType` (freehold | leasehold), `newBuild` (true | false), `transactionCategory` (standard | additional; use standard to exclude repossessions and bulk/buy-to-let sales), `fuzzy` (true to retry an unmatched street with a prefix match where `city` may also be a locality or district; slower), `flagOutliers` (true to add `outlierFlags` to sales that look non-market: `additionalCategory`, `lowPrice` under £10,000, or `extremePrice` more than 5x from the median of all matching sales for the same property type and year; fetches every match, so searches matching over 10,000 sales are rejected), `excludeOutliers` (true to drop those sales, leave them out of `total` and report how many in `outliersExcluded`), `dryRun` (true to return the query plan instead of results: `{ dryRun, endpoint, database?, parameters, queries, fallbackQueries, processing }` with the normalised parameters, the exact SPARQL (or, from the local price-paid database, SQL) that would be run and the local processing steps; nothing is sent to the endpoint), `cache` (bypass to skip the local response cache, refresh to re-query and update it; responses are otherwise reused until they expire, a day by default), `limit`/`offset` (pagination; `limit` up to 1000), `sortBy` (date | price), `sortOrder` (asc | desc). Returns JSON: `{ properties: [{ price, date, postcode, propertyType, street, city, paon?, saon?, county?, estateType?, newBuild?, transactionCategory?, transactionId?, outlierFlags? }], total, offset, limit, area?, match?, administrativeArea?, outliersExcluded? }`, where `area` describes the expanded postcode district/sector, `administrativeArea` echoes the district/county/locality and date range searched, `match` (street searches) lists the `streetCandidates`/`cityCandidates` tried, the `mode` (exact | fuzzy) and the `matchedStreets`/`matchedCities`, `total` counts every matching transaction (not just this page), `paon` is the Primary Addressable Object Name (e.g., house number/name), `saon` is the Secondary Addressable Object Name (e.g., flat/unit/apartment), `estateType` is freehold | leasehold, `newBuild` is true for a newly built property and `transactionCategory` is standard | additional (Additional Price Paid entries such as repossessions and bulk/buy-to-let sales).',
     inputSchema: searchPropertyPricesInputSchema,
   },
-  async (params: Record<string, unknown>) => {
-    const startTime = Date.now();
-    let responseStatus = 200;
-
-    try {
-      // Log the MCP tool request
-      logMcpRequest('MCP tool invoked: search-property-prices', {
-        toolName: 'search-property-prices',
-        params,
-      });
-
-      // Normalize params by removing null values
-      const normalizedParams = Object.fromEntries(
-        Object.entries(params).filter(([_, value]) => value !== null)
-      );
-
+  async (params: Record<string, unknown>) =>
+    handleToolCall(
+      'search-property-prices',
+      params,
       // Note: sparqlService will automatically convert street and city values to uppercase
       // to handle Land Registry data's case sensitivity requirements
-      const result = await searchProperties(LAND_REGISTRY_ENDPOINT, normalizedParams);
-
-      // Log the successful MCP response
-      const responseTime = Date.now() - startTime;
-      logMcpResponse('MCP tool completed: search-property-prices', {
-        toolName: 'search-property-prices',
-        params,
-        responseStatus,
-        responseTime,
-        resultCount: result.properties.length,
-        totalResults: result.total,
-      });
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      responseStatus = 500;
-      const responseTime = Date.now() - startTime;
-
-      // Log MCP error
-      logMcpError('MCP tool failed: search-property-prices', {
-        toolName: 'search-property-prices',
-        params,
-        responseStatus,
-        responseTime,
-        error: error instanceof Error ? error.message : String(error),
-      });
-
-      // Return error response to the client
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                error: error instanceof Error ? error.message : String(error),
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    }
-  }
+      () =>
+        params.dryRun
+          ? explainSearchProperties(LAND_REGISTRY_ENDPOINT, withoutNulls(params))
+          : searchProperties(LAND_REGISTRY_ENDPOINT, withoutNulls(params)),
+      summarizeSearch
+    )
 );
 
 // Postcode lookup and nearest-neighbour tool backed by the Code-Point Open dataset
@@ -148,65 +381,253 @@ registerTool(
     inputSchema: lookupPostcodesInputSchema,
   },
   async (rawParams: Record<string, unknown>) => {
-    const startTime = Date.now();
-    let responseStatus = 200;
-    try {
-      logMcpRequest('MCP tool invoked: lookup-postcodes', {
-        toolName: 'lookup-postcodes',
-        params: rawParams,
-      });
-
-      const params = PostcodeLookupParamsSchema.parse(rawParams);
-      const result = lookupPostcodes(params);
-
-      const responseTime = Date.now() - startTime;
-      logMcpResponse('MCP tool completed: lookup-postcodes', {
-        toolName: 'lookup-postcodes',
-        params,
-        responseStatus,
-        responseTime,
-        resultCount: result.postcodes.length,
-        totalResults: result.total,
-      });
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
-    } catch (error) {
-      responseStatus = 500;
-      const responseTime = Date.now() - startTime;
-
-      logMcpError('MCP tool failed: lookup-postcodes', {
-        toolName: 'lookup-postcodes',
-        params: rawParams,
-        responseStatus,
-        responseTime,
-        error: error instanceof Error ? error.message : String(error),
-      });
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              { error: error instanceof Error ? error.message : String(error) },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    }
+    let params: PostcodeLookupParams | undefined;
+    return handleToolCall(
+      'lookup-postcodes',
+      rawParams,
+      () => {
+        params = PostcodeLookupParamsSchema.parse(rawParams);
+        return lookupPostcodes(params);
+      },
+      result => ({ params, resultCount: result.postcodes.length, totalResults: result.total })
+    );
   }
 );
 
+// Sales within a radius, combining the Code-Point neighbour search with Land Registry queries
+registerTool(
+  'search-nearby-sales',
+  {
+    description:
+      'Search Land Registry sales in every postcode within `radiusMeters` (max 5000) of a centre. Provide either `postcode` or both `easting` and `northing` (OSGB36) as the centre. Optional: `maxPostcodes` (nearest postcodes to include, default 500, max 2000), the same filters as `search-property-prices` (`minPrice`, `maxPrice`, `propertyType`, `fromDate`, `toDate`, `estateType`, `newBuild`, `transactionCategory`), `limit`/`offset`, `sortBy` (distance | date | price, default distance) and `sortOrder` (defaults to asc for distance, desc otherwise) and `dryRun` (true to return the postcodes, exact SPARQL and processing steps as `{ dryRun, endpoint, parameters, queries, fallbackQueries, processing }` without querying the endpoint). Returns `{ center, radiusMeters, postcodeCount, properties: [{ ...sale, distanceMeters }], total, offset, limit }`. Requires the local Code-Point database built via `npm run build:postcodes`.',
+    inputSchema: searchNearbySalesInputSchema,
+  },
+  async (rawParams: Record<string, unknown>) => {
+    let params: NearbySalesParams | undefined;
+    return handleToolCall<QueryPlan | NearbySalesResponse>(
+      'search-nearby-sales',
+      rawParams,
+      () => {
+        params = NearbySalesParamsSchema.parse(withoutNulls(rawParams));
+        return params.dryRun
+          ? explainNearbySales(LAND_REGISTRY_ENDPOINT, params)
+          : searchNearbySales(LAND_REGISTRY_ENDPOINT, params);
+      },
+      result => ({ params, ...summarizeSearch(result) })
+    );
+  }
+);
+
+// Full sale history of a single property
+registerTool(
+  'property-history',
+  {
+    description:
+      'Get the full chronological sale history of one property. Provide `paon` (house number/name) plus `postcode` and/or both `street` and `town`; add `saon` (flat/unit) for flats, or `noSaon: true` for only the sales without one (e.g. the whole house when its flats also sold). Returns `{ address, sales: [{ ...sale, priceChange?, priceChangePercent?, yearsSincePreviousSale?, annualisedGrowthPercent? }], summary: { saleCount, firstSale, lastSale, totalPriceChange?, totalPriceChangePercent?, annualisedGrowthPercent? } }`, where the change fields compare each sale with the previous one. Returns an error listing the candidates when the address matches more than one property.',
+    inputSchema: propertyHistoryInputSchema,
+  },
+  async (rawParams: Record<string, unknown>) =>
+    handleToolCall(
+      'property-history',
+      rawParams,
+      () =>
+        getPropertyHistory(
+          LAND_REGISTRY_ENDPOINT,
+          PropertyHistoryParamsSchema.parse(withoutNulls(rawParams))
+        ),
+      result => ({ resultCount: result.sales.length, totalResults: result.summary.saleCount })
+    )
+);
+
+// Single transaction by Land Registry transaction ID
+registerTool(
+  'get-transaction',
+  {
+    description:
+      'Fetch one Land Registry price-paid transaction by its `transactionId` (the GUID returned as `transactionId` on search results; braces as in the Price Paid CSV files are accepted). Returns `{ price, date, postcode, propertyType, street, city, paon?, saon?, locality?, district?, county?, estateType?, newBuild?, transactionCategory?, transactionId, recordStatus? }`, where `recordStatus` is add | change | delete according to the latest monthly update, for reconciling corrections.',
+    inputSchema: getTransactionInputSchema,
+  },
+  async (rawParams: Record<string, unknown>) =>
+    handleToolCall(
+      'get-transaction',
+      rawParams,
+      () => getTransaction(LAND_REGISTRY_ENDPOINT, TransactionLookupParamsSchema.parse(rawParams)),
+      () => ({ resultCount: 1, totalResults: 1 })
+    )
+);
+
+// Summary statistics over every sale in an area
+registerTool(
+  'price-statistics',
+  {
+    description: `Summarise sale prices across an area: count, mean, median, p10/p25/p75/p90, min and max. ${AREA_SELECTION_DESCRIPTION} Optional \`groupBy\`: any of propertyType, estateType, year for breakdowns, and \`excludeOutliers\` (true to leave out category B entries, prices under £10,000 and prices more than 5x from the area median for the same property type and year). Returns \`{ area: { type, label, postcodeCount? }, total, salesAnalysed, truncated, outliersExcluded?, statistics: { count, mean?, median?, p10?, p25?, p75?, p90?, min?, max? }, breakdowns?: { propertyType?: { [type]: statistics }, estateType?: {...}, year?: {...} } }\`.`,
+    inputSchema: priceStatisticsInputSchema,
+  },
+  async (rawParams: Record<string, unknown>) =>
+    handleToolCall(
+      'price-statistics',
+      rawParams,
+      () =>
+        getPriceStatistics(
+          LAND_REGISTRY_ENDPOINT,
+          PriceStatisticsParamsSchema.parse(withoutNulls(rawParams))
+        ),
+      result => ({ resultCount: result.salesAnalysed, totalResults: result.total })
+    )
+);
+
+// Time series of volumes and median prices for an area
+registerTool(
+  'price-trend',
+  {
+    description: `Sale volumes and median prices per period across an area, for describing how a market has moved. ${AREA_SELECTION_DESCRIPTION} Optional: \`interval\` (month | quarter | year, default month) and \`smoothingWindow\` (1-${MAX_SMOOTHING_WINDOW}; adds a trailing rolling median over that many periods). Every period from \`fromDate\` (or the first sale) to \`toDate\` (or the last sale) is returned, with \`count: 0\` and no prices when nothing sold. When \`truncated\` is true the earliest periods are incomplete; narrow the date range. Returns \`{ area, interval, smoothingWindow?, total, salesAnalysed, truncated, series: [{ period, startDate, endDate, count, medianPrice?, meanPrice?, smoothedMedianPrice? }] }\`.`,
+    inputSchema: priceTrendInputSchema,
+  },
+  async (rawParams: Record<string, unknown>) =>
+    handleToolCall(
+      'price-trend',
+      rawParams,
+      () =>
+        getPriceTrend(
+          LAND_REGISTRY_ENDPOINT,
+          PriceTrendParamsSchema.parse(withoutNulls(rawParams))
+        ),
+      result => ({ resultCount: result.series.length, totalResults: result.total })
+    )
+);
+
+// UK House Price Index for a region or local authority
+registerTool(
+  'house-price-index',
+  {
+    description: `Monthly UK House Price Index (UKHPI) figures for a region or local authority, to put individual sales into market context. \`region\` is a UKHPI region name, slug or URI (e.g. "united-kingdom", "england", "london", "south-west", "plymouth", "city-of-westminster"). Optional: \`fromDate\`/\`toDate\` (YYYY-MM or YYYY-MM-DD) and \`limit\` (latest months to return, default 24, max ${MAX_HPI_MONTHS}). Returns \`{ region: { slug, uri, name? }, months: [{ month, averagePrice?, index?, monthlyChangePercent?, annualChangePercent?, salesVolume?, byPropertyType: { detached?, semi-detached?, terraced?, flat?: { averagePrice?, index?, monthlyChangePercent?, annualChangePercent? } } }] }\`, oldest month first.`,
+    inputSchema: housePriceIndexInputSchema,
+  },
+  async (rawParams: Record<string, unknown>) =>
+    handleToolCall(
+      'house-price-index',
+      rawParams,
+      () =>
+        getHousePriceIndex(
+          LAND_REGISTRY_ENDPOINT,
+          HousePriceIndexParamsSchema.parse(withoutNulls(rawParams))
+        ),
+      result => ({ resultCount: result.months.length, totalResults: result.months.length })
+    )
+);
+
+// Comparable-sales valuation indexed with UKHPI
+registerTool(
+  'estimate-value',
+  {
+    description: `Estimate what a property is worth today from comparable sales. Provide \`postcode\` and \`propertyType\` (detached | semi-detached | terraced | flat | other); add \`paon\`/\`saon\` to give the property's own previous sales extra weight and \`estateType\` to prefer the same tenure. Standard-category sales within \`radiusMeters\` (default 1000, max ${MAX_NEARBY_RADIUS}) over the last \`lookbackYears\` (default 5) are indexed to the latest UKHPI month and weighted by distance, recency and property type/tenure similarity. The HPI region is \`hpiRegion\` if given, otherwise the comparables' county, falling back to the UK. Returns \`{ subject, estimate, range: { low, high }, valuationMonth, hpiRegion, comparableCount, effectiveComparableCount, comparables: [{ ...sale, distanceMeters, adjustedPrice, indexRatio, weight, isSubjectProperty? }] }\`, where \`estimate\` is the weighted median and \`range\` the weighted 25th-75th percentiles of the adjusted prices, and up to \`maxComparables\` (default 20) of the most heavily weighted comparables are listed. Requires the local Code-Point database (\`npm run build:postcodes\`). This is a statistical indication, not a formal valuation.`,
+    inputSchema: estimateValueInputSchema,
+  },
+  async (rawParams: Record<string, unknown>) =>
+    handleToolCall(
+      'estimate-value',
+      rawParams,
+      () =>
+        estimateValue(LAND_REGISTRY_ENDPOINT, ValuationParamsSchema.parse(withoutNulls(rawParams))),
+      result => ({ resultCount: result.comparables.length, totalResults: result.comparableCount })
+    )
+);
+
+// Returns between consecutive sales of the same property across an area
+registerTool(
+  'repeat-sales',
+  {
+    description: `Find properties in an area that sold more than once and report the holding period and return between each pair of consecutive sales, plus area-wide aggregates. Properties are identified by saon, paon, street and postcode. ${AREA_SELECTION_DESCRIPTION} Only sales inside the date range and \`maxSales\` can be paired, so use a wide \`fromDate\` for long holding periods. Optional: \`minHoldingYears\` (default 1; shorter pairs are ignored) and \`limit\` (properties to list, default 50, max ${MAX_LISTED_REPEAT_SALES}). Returns \`{ area, total, salesAnalysed, truncated, minHoldingYears, summary: { propertyCount, pairCount, medianHoldingYears?, medianPriceChangePercent?, medianAnnualisedReturnPercent?, meanAnnualisedReturnPercent?, lossPercent? }, properties: [{ address, paon?, saon?, street, postcode, propertyType, saleCount, pairs: [{ fromDate, fromPrice, toDate, toPrice, holdingYears, priceChange, priceChangePercent?, annualisedReturnPercent? }] }] }\`, most recent resale first.`,
+    inputSchema: repeatSalesInputSchema,
+  },
+  async (rawParams: Record<string, unknown>) =>
+    handleToolCall(
+      'repeat-sales',
+      rawParams,
+      () =>
+        getRepeatSales(
+          LAND_REGISTRY_ENDPOINT,
+          RepeatSalesParamsSchema.parse(withoutNulls(rawParams))
+        ),
+      result => ({
+        resultCount: result.properties.length,
+        totalResults: result.summary.propertyCount,
+      })
+    )
+);
+
+// Side-by-side summaries of several areas
+registerTool(
+  'compare-areas',
+  {
+    description: `Compare 2-${MAX_COMPARED_AREAS} areas side by side over the same date window, instead of calling search-property-prices repeatedly. Each entry in \`areas\` is a \`postcode\` (unit, sector such as \`SW1A 1\` or district such as \`SW1A\`; sectors and districts need the local Code-Point database) or a \`street\` and \`city\`. Optional filters apply to every area: \`fromDate\`, \`toDate\`, \`propertyType\`, \`estateType\`, \`newBuild\`, \`transactionCategory\`, \`excludeOutliers\`; at most \`maxSalesPerArea\` (default 5000, max ${MAX_AREA_SALES}) of the most recent sales per area are analysed. Returns \`{ fromDate?, toDate?, areas: [{ area: { type, label, postcodeCount? }, total, salesAnalysed, truncated, outliersExcluded?, count, medianPrice?, statistics, byPropertyType: { [type]: statistics }, tenureMix: { freehold?, leasehold?, unknown? } (percent of sales), byYear: [{ year, count, medianPrice?, medianChangePercent? }] }] }\`, where \`statistics\` is \`{ count, mean?, median?, p10?, p25?, p75?, p90?, min?, max? }\` and \`medianChangePercent\` is the change from the previous calendar year (unset when that year had no sales).`,
+    inputSchema: compareAreasInputSchema,
+  },
+  async (rawParams: Record<string, unknown>) =>
+    handleToolCall(
+      'compare-areas',
+      rawParams,
+      () =>
+        compareAreas(
+          LAND_REGISTRY_ENDPOINT,
+          CompareAreasParamsSchema.parse(withoutNulls(rawParams))
+        ),
+      result => ({
+        resultCount: result.areas.length,
+        totalResults: result.areas.reduce((sum, comparison) => sum + comparison.total, 0),
+      })
+    )
+);
+
+// Streets of an area ranked by price, volume or growth
+registerTool(
+  'rank-streets',
+  {
+    description: `Rank the streets of an area, typically a postcode sector/district or a radius, by \`rankBy\`: medianPrice (default), salesVolume or growth. Sales are grouped by street and town; streets with fewer than \`minSales\` (default 5) sales are left out. growth is the change in median price between sales in the first and second half of the date window (\`fromDate\`-\`toDate\`, or the span of the sales), so streets without sales in both halves are not ranked by it. ${AREA_SELECTION_DESCRIPTION} Optional: \`sortOrder\` (desc for most expensive/busiest/fastest-growing first, the default; asc for the reverse) and \`limit\` (default 20, max ${MAX_RANKED_STREETS}). Returns \`{ area, total, salesAnalysed, truncated, rankBy, sortOrder, minSales, growthSplitDate?, streetCount, streets: [{ rank, street, town, count, medianPrice, meanPrice, minPrice, maxPrice, firstSaleDate, lastSaleDate, growthPercent?, postcodes }] }\`.`,
+    inputSchema: rankStreetsInputSchema,
+  },
+  async (rawParams: Record<string, unknown>) =>
+    handleToolCall(
+      'rank-streets',
+      rawParams,
+      () =>
+        rankStreets(LAND_REGISTRY_ENDPOINT, RankStreetsParamsSchema.parse(withoutNulls(rawParams))),
+      result => ({ resultCount: result.streets.length, totalResults: result.streetCount })
+    )
+);
+
+// Guarded raw SPARQL for questions the other tools do not cover
+const rawQueryRules = config.runSparql;
+
+registerTool(
+  'run-sparql',
+  {
+    description: `Run your own read-only SPARQL query against the HM Land Registry endpoint when no other tool fits. Only ${rawQueryRules.allowedForms.join(' and ')} queries are accepted; updates (INSERT, DELETE, LOAD, ...)${rawQueryRules.allowService ? '' : ' and SERVICE clauses'} are rejected. A SELECT without a top-level LIMIT gets \`LIMIT limit\` (default and maximum ${rawQueryRules.maxLimit}); an explicit LIMIT above the maximum is rejected. The query is not retried and is aborted after \`timeoutMs\` (default and maximum ${rawQueryRules.timeoutMs}). Useful prefixes: lrppi: <http://landregistry.data.gov.uk/def/ppi/>, lrcommon: <http://landregistry.data.gov.uk/def/common/>, ukhpi: <http://landregistry.data.gov.uk/def/ukhpi/>. Returns \`{ form, query, limit?, resultCount, bindings?: [{ [variable]: { type, value, datatype? } }], boolean? }\`, where \`query\` is the query as sent and \`boolean\` answers an ASK.`,
+    inputSchema: runSparqlInputSchema,
+  },
+  async (rawParams: Record<string, unknown>) =>
+    handleToolCall(
+      'run-sparql',
+      rawParams,
+      () =>
+        runSparql(
+          LAND_REGISTRY_ENDPOINT,
+          RawQueryParamsSchema.parse(withoutNulls(rawParams)),
+          rawQueryRules
+        ),
+      result => ({ resultCount: result.resultCount, totalResults: result.resultCount })
+    )
+);
+
 async function main() {
   try {
+    const unknownTools = config.enabledTools?.filter(name => !toolNames.includes(name)) ?? [];
+    if (unknownTools.length > 0) {
+      throw new Error(
+        `Unknown tools in enabledTools: ${unknownTools.join(', ')} (available: ${toolNames.join(', ')})`
+      );
+    }
+
     const transport = new StdioServerTransport();
     await server.connect(transport);
     logInfo('Property Price MCP Server started', { service: 'property-prices-mcp' });
@@ -217,6 +638,9 @@ async function main() {
       process.exit(0);
     });
   } catch (error) {
+    console.error(
+      `Failed to start Property Price MCP Server: ${error instanceof Error ? error.message : String(error)}`
+    );
     logError('Failed to start Property Price MCP Server', {
       error: error instanceof Error ? error.message : String(error),
       service: 'property-prices-mcp',
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { EstateTypeSchema, PropertyTypeSchema, TransactionCategorySchema } from './types.js';
+import { MAX_NEARBY_POSTCODES, MAX_NEARBY_RADIUS } from './nearby.js';
+
+export const MAX_AREA_SALES = 10000;
+
+/**
+ * The area and filters for tools that analyse every sale in an area rather than a page:
+ * a postcode, sector or district, a street and city, a local authority district/county/
+ * locality, or a radius around a postcode or easting/northing.
+ */
+export const AreaSelectionSchema = z.object({
+  postcode: z.string().optional(),
+  street: z.string().optional(),
+  city: z.string().optional(),
+  district: z.string().optional(),
+  county: z.string().optional(),
+  locality: z.string().optional(),
+  easting: z.number().optional(),
+  northing: z.number().optional(),
+  radiusMeters: z.number().positive().max(MAX_NEARBY_RADIUS).optional(),
+  maxPostcodes: z.number().int().positive().max(MAX_NEARBY_POSTCODES).default(500),
+  minPrice: z.number().nonnegative().optional(),
+  maxPrice: z.number().nonnegative().optional(),
+  propertyType: PropertyTypeSchema.optional(),
+  fromDate: z.string().optional(),
+  toDate: z.string().optional(),
+  estateType: EstateTypeSchema.optional(),
+  newBuild: z.boolean().optional(),
+  transactionCategory: TransactionCategorySchema.optional(),
+  maxSales: z.number().int().positive().max(MAX_AREA_SALES).default(5000),
+});
+
+export type AreaSelection = z.infer<typeof AreaSelectionSchema>;
+
+export const AREA_SELECTION_MESSAGE =
+  'Provide exactly one of: a postcode, both street and city, a district/county/locality, or radiusMeters with a postcode or easting and northing';
+
+/**
+ * Whether an area selection names exactly one way of finding its sales. A radius centre
+ * may be a postcode, and district, county and locality together describe one area.
+ */
+export function isValidAreaSelection(data: AreaSelection): boolean {
+  const hasStreet = Boolean(data.street && data.city);
+  const hasAdministrativeArea = Boolean(data.district || data.county || data.locality);
+  if (data.radiusMeters !== undefined) {
+    const hasCentre = Boolean(
+      data.postcode || (typeof data.easting === 'number' && typeof data.northing === 'number')
+    );
+    return hasCentre && !hasStreet && !hasAdministrativeArea;
+  }
+  return [Boolean(data.postcode), hasStreet, hasAdministrativeArea].filter(Boolean).length === 1;
+}
+
+export type AreaType =
+  | 'postcode'
+  | 'sector'
+  | 'district'
+  | 'street'
+  | 'administrativeArea'
+  | 'radius';
+
+/**
+ * The area whose sales were analysed, described for the client.
+ */
+export interface AreaDescription {
+  type: AreaType;
+  label: string;
+  postcodeCount?: number;
+}
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { AreaDescription, MAX_AREA_SALES } from './area.js';
+import { PriceStatistics } from './statistics.js';
+import { EstateTypeSchema, PropertyTypeSchema, TransactionCategorySchema } from './types.js';
+
+export const MAX_COMPARED_AREAS = 10;
+
+/**
+ * One area to compare: a postcode unit, sector or district, or a street and city.
+ */
+export const ComparedAreaSchema = z
+  .object({
+    postcode: z.string().optional(),
+    street: z.string().optional(),
+    city: z.string().optional(),
+  })
+  .refine(data => data.postcode || (data.street && data.city), {
+    message: 'Each area needs a postcode (unit, sector or district) or both street and city',
+  });
+
+export type ComparedArea = z.infer<typeof ComparedAreaSchema>;
+
+export const CompareAreasParamsSchema = z.object({
+  areas: z.array(ComparedAreaSchema).min(2).max(MAX_COMPARED_AREAS),
+  fromDate: z.string().optional(),
+  toDate: z.string().optional(),
+  propertyType: PropertyTypeSchema.optional(),
+  estateType: EstateTypeSchema.optional(),
+  newBuild: z.boolean().optional(),
+  transactionCategory: TransactionCategorySchema.optional(),
+  excludeOutliers: z.boolean().default(false),
+  maxSalesPerArea: z.number().int().positive().max(MAX_AREA_SALES).default(5000),
+});
+
+export type CompareAreasParams = z.infer<typeof CompareAreasParamsSchema>;
+
+export interface YearSummary {
+  year: string;
+  count: number;
+  medianPrice?: number;
+  /** Change in median price since the previous calendar year, as a percentage; unset if it had no sales. */
+  medianChangePercent?: number;
+}
+
+export interface AreaComparison {
+  area: AreaDescription;
+  total: number;
+  salesAnalysed: number;
+  truncated: boolean;
+  outliersExcluded?: number;
+  count: number;
+  medianPrice?: number;
+  statistics: PriceStatistics;
+  byPropertyType: Record<string, PriceStatistics>;
+  /** Percentage of analysed sales by tenure, including `unknown`. */
+  tenureMix: Record<string, number>;
+  byYear: YearSummary[];
+}
+
+export interface CompareAreasResponse {
+  fromDate?: string;
+  toDate?: string;
+  areas: AreaComparison[];
+}
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { RawQueryRulesSchema } from './rawQuery.js';
+
+export const DEFAULT_LAND_REGISTRY_ENDPOINT = 'https://landregistry.data.gov.uk/landregistry/query';
+
+/**
+ * Runtime settings, merged from defaults, a JSON config file, environment variables and
+ * command-line flags (later sources win).
+ */
+export const ConfigSchema = z.object({
+  /** SPARQL endpoint for price-paid and UKHPI queries, e.g. a mirror or local stand-in. */
+  endpoint: z.string().url().default(DEFAULT_LAND_REGISTRY_ENDPOINT),
+  /** Where price-paid searches are answered: the SPARQL endpoint or a local database. */
+  pricePaidBackend: z.enum(['sparql', 'local']).default('sparql'),
+  /** Database built from the bulk CSVs; defaults to data/price-paid.sqlite in the working directory. */
+  pricePaidDbPath: z.string().optional(),
+  /** Code-Point Open database; defaults to data/postcodes.sqlite in the working directory. */
+  postcodeDbPath: z.string().optional(),
+  /** Page size for searches that do not give a `limit`. */
+  defaultLimit: z.number().int().positive().max(1000).default(10),
+  /** Abort each SPARQL request attempt after this long unless a tool sets its own timeout. */
+  sparqlTimeoutMs: z.number().int().positive().default(60000),
+  /** Retries after network errors and retryable HTTP statuses; 0 disables retrying. */
+  sparqlMaxRetries: z.number().int().min(0).max(10).default(3),
+  /** Backoff before the first retry, doubling each time up to `sparqlRetryMaxDelayMs`. */
+  sparqlRetryBaseDelayMs: z.number().int().min(0).default(500),
+  /** Longest wait between retries, including one asked for by a Retry-After header. */
+  sparqlRetryMaxDelayMs: z.number().int().min(0).default(10000),
+  /** Most SPARQL requests in flight at once, across all tool calls. */
+  sparqlMaxConcurrency: z.number().int().positive().default(4),
+  /** Most SPARQL requests started per second, across all tool calls. */
+  sparqlRequestsPerSecond: z.number().positive().default(5),
+  /** Most SPARQL requests waiting for a slot; further requests fail rather than queue. */
+  sparqlMaxQueuedRequests: z.number().int().positive().default(500),
+  /** Keep successful SPARQL responses on disk and reuse them until they expire. */
+  cacheEnabled: z.boolean().default(true),
+  /** Cache database; defaults to ~/.property-prices-mcp/sparql-cache.sqlite. */
+  cachePath: z.string().optional(),
+  /** Price-paid data changes monthly, so a day-old response is still current. */
+  cacheTtlSeconds: z.number().int().positive().default(86400),
+  /** Least recently used responses are evicted beyond this size. */
+  cacheMaxMegabytes: z.number().positive().default(100),
+  /** Log directory; defaults to /var/log/property-prices-mcp or ~/.property-prices-mcp/logs. */
+  logDirectory: z.string().optional(),
+  /** Any winston npm level, from most to least severe. */
+  logLevel: z.enum(['error', 'warn', 'info', 'http', 'verbose', 'debug', 'silly']).default('info'),
+  /** Tools to register; every tool when unset. */
+  enabledTools: z.array(z.string().min(1)).min(1).optional(),
+  runSparql: RawQueryRulesSchema.default({}),
+});
+
+export type Config = z.infer<typeof ConfigSchema>;
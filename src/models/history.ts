@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { PropertyPrice } from './types.js';
+
+export const PropertyHistoryParamsSchema = z
+  .object({
+    paon: z.string().min(1),
+    saon: z.string().optional(),
+    /** Only sales recorded without a saon, e.g. the whole house rather than its flats. */
+    noSaon: z.boolean().optional(),
+    street: z.string().optional(),
+    town: z.string().optional(),
+    postcode: z.string().optional(),
+  })
+  .refine(data => data.postcode || (data.street && data.town), {
+    message: 'Provide a postcode or both street and town alongside paon',
+  })
+  .refine(data => !(data.saon && data.noSaon), {
+    message: 'saon cannot be combined with noSaon',
+  });
+
+export type PropertyHistoryParams = z.infer<typeof PropertyHistoryParamsSchema>;
+
+export interface PropertySaleHistoryEntry extends PropertyPrice {
+  /** Change in price since the previous sale of the same property. */
+  priceChange?: number;
+  priceChangePercent?: number;
+  yearsSincePreviousSale?: number;
+  /** Compound annual growth rate since the previous sale, as a percentage. */
+  annualisedGrowthPercent?: number;
+}
+
+export interface PropertyHistorySummary {
+  saleCount: number;
+  firstSale?: { date: string; price: number };
+  lastSale?: { date: string; price: number };
+  totalPriceChange?: number;
+  totalPriceChangePercent?: number;
+  annualisedGrowthPercent?: number;
+}
+
+export interface PropertyHistoryResponse {
+  address: {
+    paon: string;
+    saon?: string;
+    street: string;
+    town: string;
+    postcode: string;
+  };
+  sales: PropertySaleHistoryEntry[];
+  summary: PropertyHistorySummary;
+}
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+export const MAX_HPI_MONTHS = 600;
+
+export const HousePriceIndexParamsSchema = z.object({
+  region: z.string().min(1),
+  fromDate: z.string().optional(),
+  toDate: z.string().optional(),
+  limit: z.number().int().positive().max(MAX_HPI_MONTHS).default(24),
+});
+
+export type HousePriceIndexParams = z.infer<typeof HousePriceIndexParamsSchema>;
+
+export const HpiPropertyTypeSchema = z.enum(['detached', 'semi-detached', 'terraced', 'flat']);
+export type HpiPropertyType = z.infer<typeof HpiPropertyTypeSchema>;
+
+export interface HpiFigures {
+  averagePrice?: number;
+  index?: number;
+  monthlyChangePercent?: number;
+  annualChangePercent?: number;
+}
+
+/**
+ * One month of the UK House Price Index for a region: all property types plus each type.
+ */
+export interface HpiObservation extends HpiFigures {
+  /** Reference month, `YYYY-MM`. */
+  month: string;
+  salesVolume?: number;
+  byPropertyType: Partial<Record<HpiPropertyType, HpiFigures>>;
+}
+
+export interface HousePriceIndexResponse {
+  region: {
+    slug: string;
+    uri: string;
+    name?: string;
+  };
+  months: HpiObservation[];
+}
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import {
+  EstateTypeSchema,
+  PropertyPrice,
+  PropertyTypeSchema,
+  TransactionCategorySchema,
+} from './types.js';
+
+export const MAX_NEARBY_RADIUS = 5000; // meters
+export const MAX_NEARBY_POSTCODES = 2000;
+
+export const NearbySalesParamsSchema = z
+  .object({
+    postcode: z.string().optional(),
+    easting: z.number().optional(),
+    northing: z.number().optional(),
+    radiusMeters: z.number().positive().max(MAX_NEARBY_RADIUS),
+    maxPostcodes: z.number().int().positive().max(MAX_NEARBY_POSTCODES).default(500),
+    minPrice: z.number().nonnegative().optional(),
+    maxPrice: z.number().nonnegative().optional(),
+    propertyType: PropertyTypeSchema.optional(),
+    fromDate: z.string().optional(),
+    toDate: z.string().optional(),
+    estateType: EstateTypeSchema.optional(),
+    newBuild: z.boolean().optional(),
+    transactionCategory: TransactionCategorySchema.optional(),
+    limit: z.number().int().positive().max(1000).default(10),
+    offset: z.number().int().nonnegative().default(0),
+    sortBy: z.enum(['distance', 'date', 'price']).default('distance'),
+    sortOrder: z.enum(['asc', 'desc']).optional(),
+    dryRun: z.boolean().optional(),
+  })
+  .refine(
+    data =>
+      data.postcode || (typeof data.easting === 'number' && typeof data.northing === 'number'),
+    { message: 'Provide a postcode or both easting and northing' }
+  );
+
+export type NearbySalesParams = z.infer<typeof NearbySalesParamsSchema>;
+
+export interface NearbyPropertyPrice extends PropertyPrice {
+  distanceMeters: number;
+}
+
+export interface NearbySalesResponse {
+  center: {
+    postcode?: string;
+    easting: number;
+    northing: number;
+  };
+  radiusMeters: number;
+  postcodeCount: number;
+  properties: NearbyPropertyPrice[];
+  total: number;
+  offset: number;
+  limit: number;
+}
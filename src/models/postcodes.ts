@@ -40,3 +40,16 @@ export interface PostcodeLookupResult {
   postcodes: PostcodeDistance[];
   total: number;
 }
+
+export type PostcodeAreaType = 'unit' | 'sector' | 'district';
+
+/**
+ * A postcode at one of three granularities: a full unit postcode (`SW1A 1AA`),
+ * a sector (`SW1A 1`) or an outward code / district (`SW1A`).
+ */
+export interface PostcodeArea {
+  type: PostcodeAreaType;
+  code: string;
+  outward: string;
+  sector?: string;
+}
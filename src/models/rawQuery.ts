@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+export const RawQueryFormSchema = z.enum(['SELECT', 'ASK']);
+export type RawQueryForm = z.infer<typeof RawQueryFormSchema>;
+
+/**
+ * Safety rules for client-supplied SPARQL. `maxLimit` caps an explicit LIMIT and is
+ * appended to SELECT queries without one.
+ */
+export const RawQueryRulesSchema = z.object({
+  maxLimit: z.number().int().positive().default(1000),
+  timeoutMs: z.number().int().positive().default(30000),
+  allowService: z.boolean().default(false),
+  allowedForms: z.array(RawQueryFormSchema).min(1).default(['SELECT', 'ASK']),
+});
+
+export type RawQueryRules = z.infer<typeof RawQueryRulesSchema>;
+
+export const RawQueryParamsSchema = z.object({
+  query: z.string().min(1),
+  limit: z.number().int().positive().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+});
+
+export type RawQueryParams = z.infer<typeof RawQueryParamsSchema>;
+
+export interface RawQueryResponse {
+  form: RawQueryForm;
+  /** The query as sent, including any LIMIT that was added. */
+  query: string;
+  limit?: number;
+  resultCount: number;
+  bindings?: Record<string, { type: string; value: string; datatype?: string }>[];
+  boolean?: boolean;
+}
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import {
+  AREA_SELECTION_MESSAGE,
+  AreaDescription,
+  AreaSelectionSchema,
+  isValidAreaSelection,
+} from './area.js';
+import { PropertyType } from './types.js';
+
+export const MAX_LISTED_REPEAT_SALES = 500;
+
+export const RepeatSalesParamsSchema = AreaSelectionSchema.extend({
+  minHoldingYears: z.number().nonnegative().default(1),
+  limit: z.number().int().positive().max(MAX_LISTED_REPEAT_SALES).default(50),
+}).refine(isValidAreaSelection, { message: AREA_SELECTION_MESSAGE });
+
+export type RepeatSalesParams = z.infer<typeof RepeatSalesParamsSchema>;
+
+/**
+ * Two consecutive sales of the same property.
+ */
+export interface RepeatSalePair {
+  fromDate: string;
+  fromPrice: number;
+  toDate: string;
+  toPrice: number;
+  holdingYears: number;
+  priceChange: number;
+  priceChangePercent?: number;
+  /** Compound annual return over the holding period, as a percentage. */
+  annualisedReturnPercent?: number;
+}
+
+export interface PropertyRepeatSales {
+  address: string;
+  paon?: string;
+  saon?: string;
+  street: string;
+  postcode: string;
+  propertyType: PropertyType;
+  saleCount: number;
+  pairs: RepeatSalePair[];
+}
+
+/**
+ * Aggregates over every pair of sales. Only the counts are present when there are no pairs.
+ */
+export interface RepeatSalesSummary {
+  propertyCount: number;
+  pairCount: number;
+  medianHoldingYears?: number;
+  medianPriceChangePercent?: number;
+  medianAnnualisedReturnPercent?: number;
+  meanAnnualisedReturnPercent?: number;
+  /** Share of pairs where the later sale was cheaper, as a percentage. */
+  lossPercent?: number;
+}
+
+export interface RepeatSalesResponse {
+  area: AreaDescription;
+  /** Every matching sale; only `salesAnalysed` of them are paired when `truncated`. */
+  total: number;
+  salesAnalysed: number;
+  truncated: boolean;
+  minHoldingYears: number;
+  summary: RepeatSalesSummary;
+  /** Properties with the most recent resale first, up to `limit`. */
+  properties: PropertyRepeatSales[];
+}
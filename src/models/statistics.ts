@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import {
+  AREA_SELECTION_MESSAGE,
+  AreaDescription,
+  AreaSelectionSchema,
+  isValidAreaSelection,
+} from './area.js';
+
+export const StatisticsBreakdownSchema = z.enum(['propertyType', 'estateType', 'year']);
+export type StatisticsBreakdown = z.infer<typeof StatisticsBreakdownSchema>;
+
+export const PriceStatisticsParamsSchema = AreaSelectionSchema.extend({
+  groupBy: z.array(StatisticsBreakdownSchema).default([]),
+  excludeOutliers: z.boolean().default(false),
+}).refine(isValidAreaSelection, { message: AREA_SELECTION_MESSAGE });
+
+export type PriceStatisticsParams = z.infer<typeof PriceStatisticsParamsSchema>;
+
+/**
+ * Summary of a set of sale prices. Only `count` is present when there are no sales.
+ */
+export interface PriceStatistics {
+  count: number;
+  mean?: number;
+  median?: number;
+  p10?: number;
+  p25?: number;
+  p75?: number;
+  p90?: number;
+  min?: number;
+  max?: number;
+}
+
+export interface PriceStatisticsResponse {
+  area: AreaDescription;
+  /** Every matching sale; statistics cover `salesAnalysed` of them when `truncated`. */
+  total: number;
+  salesAnalysed: number;
+  truncated: boolean;
+  /** Sales left out of the statistics by `excludeOutliers`. */
+  outliersExcluded?: number;
+  statistics: PriceStatistics;
+  breakdowns?: Partial<Record<StatisticsBreakdown, Record<string, PriceStatistics>>>;
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import {
+  AREA_SELECTION_MESSAGE,
+  AreaDescription,
+  AreaSelectionSchema,
+  isValidAreaSelection,
+} from './area.js';
+
+export const MAX_RANKED_STREETS = 200;
+
+export const StreetRankingSchema = z.enum(['medianPrice', 'salesVolume', 'growth']);
+export type StreetRanking = z.infer<typeof StreetRankingSchema>;
+
+export const RankStreetsParamsSchema = AreaSelectionSchema.extend({
+  rankBy: StreetRankingSchema.default('medianPrice'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  minSales: z.number().int().positive().default(5),
+  limit: z.number().int().positive().max(MAX_RANKED_STREETS).default(20),
+})
+  .refine(isValidAreaSelection, { message: AREA_SELECTION_MESSAGE })
+  .refine(data => !data.street, {
+    message: 'rank-streets needs an area containing several streets, not a street',
+  });
+
+export type RankStreetsParams = z.infer<typeof RankStreetsParamsSchema>;
+
+export interface StreetSummary {
+  rank: number;
+  street: string;
+  town: string;
+  count: number;
+  medianPrice: number;
+  meanPrice: number;
+  minPrice: number;
+  maxPrice: number;
+  firstSaleDate: string;
+  lastSaleDate: string;
+  /**
+   * Change in median price between sales in the first and second half of the date
+   * window, as a percentage. Absent unless the street has sales in both halves.
+   */
+  growthPercent?: number;
+  postcodes: string[];
+}
+
+export interface RankStreetsResponse {
+  area: AreaDescription;
+  total: number;
+  salesAnalysed: number;
+  truncated: boolean;
+  rankBy: StreetRanking;
+  sortOrder: 'asc' | 'desc';
+  minSales: number;
+  /** The date splitting the window into halves for `growthPercent`. */
+  growthSplitDate?: string;
+  /** Streets with at least `minSales` sales (and, for growth, a growth figure). */
+  streetCount: number;
+  streets: StreetSummary[];
+}
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { PropertyPrice } from './types.js';
+
+export const TransactionLookupParamsSchema = z.object({
+  transactionId: z.string().min(1),
+});
+
+export type TransactionLookupParams = z.infer<typeof TransactionLookupParamsSchema>;
+
+/**
+ * Price Paid Data record status: the record was added, changed or deleted in the latest
+ * monthly update.
+ */
+export const RecordStatusSchema = z.enum(['add', 'change', 'delete']);
+export type RecordStatus = z.infer<typeof RecordStatusSchema>;
+
+export interface TransactionDetails extends PropertyPrice {
+  transactionId: string;
+  recordStatus?: RecordStatus;
+  locality?: string;
+  district?: string;
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import {
+  AREA_SELECTION_MESSAGE,
+  AreaDescription,
+  AreaSelectionSchema,
+  isValidAreaSelection,
+} from './area.js';
+
+export const TrendIntervalSchema = z.enum(['month', 'quarter', 'year']);
+export type TrendInterval = z.infer<typeof TrendIntervalSchema>;
+
+export const MAX_SMOOTHING_WINDOW = 24;
+export const MAX_TREND_PERIODS = 600; // 50 years of months; the data starts in 1995
+
+const TrendDateSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/, 'Expected a date as YYYY-MM-DD');
+
+export const PriceTrendParamsSchema = AreaSelectionSchema.extend({
+  fromDate: TrendDateSchema.optional(),
+  toDate: TrendDateSchema.optional(),
+  interval: TrendIntervalSchema.default('month'),
+  smoothingWindow: z.number().int().positive().max(MAX_SMOOTHING_WINDOW).optional(),
+}).refine(isValidAreaSelection, { message: AREA_SELECTION_MESSAGE });
+
+export type PriceTrendParams = z.infer<typeof PriceTrendParamsSchema>;
+
+export interface PriceTrendPoint {
+  /** `2024-03`, `2024-Q1` or `2024` depending on the interval. */
+  period: string;
+  startDate: string;
+  endDate: string;
+  count: number;
+  medianPrice?: number;
+  meanPrice?: number;
+  /** Median of every sale in this and the previous `smoothingWindow - 1` periods. */
+  smoothedMedianPrice?: number;
+}
+
+export interface PriceTrendResponse {
+  area: AreaDescription;
+  interval: TrendInterval;
+  smoothingWindow?: number;
+  total: number;
+  salesAnalysed: number;
+  truncated: boolean;
+  series: PriceTrendPoint[];
+}
@@ -9,15 +9,45 @@ export const PropertyTypeSchema = z.enum([
 ]);
 export type PropertyType = z.infer<typeof PropertyTypeSchema>;
 
+export const EstateTypeSchema = z.enum(['freehold', 'leasehold']);
+export type EstateType = z.infer<typeof EstateTypeSchema>;
+
+export const TransactionCategorySchema = z.enum(['standard', 'additional']);
+export type TransactionCategory = z.infer<typeof TransactionCategorySchema>;
+
+/**
+ * Why a sale may not reflect open-market value: an Additional Price Paid (category B)
+ * entry, an implausibly low price, or a price far from the median for its type and year.
+ */
+export type OutlierFlag = 'additionalCategory' | 'lowPrice' | 'extremePrice';
+
+/**
+ * How a call uses the SPARQL response cache: `bypass` neither reads nor writes it,
+ * `refresh` skips cached responses but stores the new ones.
+ */
+export const CacheModeSchema = z.enum(['bypass', 'refresh']);
+export type CacheMode = z.infer<typeof CacheModeSchema>;
+
 export const SearchParamsSchema = z.object({
   postcode: z.string().optional(),
   street: z.string().optional(),
   city: z.string().optional(),
+  district: z.string().optional(),
+  county: z.string().optional(),
+  locality: z.string().optional(),
   minPrice: z.number().optional(),
   maxPrice: z.number().optional(),
   propertyType: PropertyTypeSchema.optional(),
   fromDate: z.string().optional(),
   toDate: z.string().optional(),
+  estateType: EstateTypeSchema.optional(),
+  newBuild: z.boolean().optional(),
+  transactionCategory: TransactionCategorySchema.optional(),
+  fuzzy: z.boolean().optional(),
+  flagOutliers: z.boolean().optional(),
+  excludeOutliers: z.boolean().optional(),
+  dryRun: z.boolean().optional(),
+  cache: CacheModeSchema.optional(),
   limit: z.number().optional(),
   offset: z.number().optional(),
   sortBy: z.enum(['date', 'price']).optional(),
@@ -35,6 +65,43 @@ export interface PropertyPrice {
   city: string;
   paon?: string;
   saon?: string;
+  county?: string;
+  estateType?: EstateType;
+  newBuild?: boolean;
+  transactionCategory?: TransactionCategory;
+  /** Land Registry transaction ID, stable across corrections to the record. */
+  transactionId?: string;
+  /** Set only when outlier flagging was requested and the sale looks unusual. */
+  outlierFlags?: OutlierFlag[];
+}
+
+export interface SearchArea {
+  type: 'sector' | 'district';
+  code: string;
+  postcodeCount: number;
+}
+
+/**
+ * The local authority district, county and/or locality searched, with the date range applied.
+ */
+export interface AdministrativeArea {
+  district?: string;
+  county?: string;
+  locality?: string;
+  fromDate: string;
+  toDate: string;
+}
+
+/**
+ * How a street/city search was matched: the spellings tried and the street and town
+ * names found in the returned properties.
+ */
+export interface AddressMatch {
+  mode: 'exact' | 'fuzzy';
+  streetCandidates: string[];
+  cityCandidates: string[];
+  matchedStreets: string[];
+  matchedCities: string[];
 }
 
 export interface SearchResponse {
@@ -42,4 +109,27 @@ export interface SearchResponse {
   total: number;
   offset: number;
   limit: number;
+  area?: SearchArea;
+  match?: AddressMatch;
+  administrativeArea?: AdministrativeArea;
+  /** Matching sales dropped by `excludeOutliers`; `total` already leaves them out. */
+  outliersExcluded?: number;
+}
+
+/**
+ * What a search would do, returned instead of its results when `dryRun` is set.
+ */
+export interface QueryPlan {
+  dryRun: true;
+  endpoint: string;
+  /** With `pricePaidBackend: "local"`, the price-paid database the queries run against. */
+  database?: string;
+  /** The parameters after defaults and normalisation. */
+  parameters: Record<string, unknown>;
+  /** Queries sent when matches are found, in order: SPARQL, or SQL for the local backend. */
+  queries: string[];
+  /** Further queries sent only when the first ones match nothing. */
+  fallbackQueries: string[];
+  /** Local steps around the queries: postcode expansion before, parsing, merging and filtering after. */
+  processing: string[];
 }
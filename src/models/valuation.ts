@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { EstateTypeSchema, PropertyTypeSchema } from './types.js';
+import { MAX_NEARBY_POSTCODES, MAX_NEARBY_RADIUS, NearbyPropertyPrice } from './nearby.js';
+
+export const MAX_LOOKBACK_YEARS = 25;
+export const MAX_LISTED_COMPARABLES = 100;
+
+export const ValuationParamsSchema = z.object({
+  postcode: z.string().min(1),
+  propertyType: PropertyTypeSchema,
+  paon: z.string().optional(),
+  saon: z.string().optional(),
+  estateType: EstateTypeSchema.optional(),
+  radiusMeters: z.number().positive().max(MAX_NEARBY_RADIUS).default(1000),
+  maxPostcodes: z.number().int().positive().max(MAX_NEARBY_POSTCODES).default(200),
+  lookbackYears: z.number().positive().max(MAX_LOOKBACK_YEARS).default(5),
+  hpiRegion: z.string().optional(),
+  maxComparables: z.number().int().positive().max(MAX_LISTED_COMPARABLES).default(20),
+});
+
+export type ValuationParams = z.infer<typeof ValuationParamsSchema>;
+
+export interface ComparableSale extends NearbyPropertyPrice {
+  /** Sale price indexed to the latest HPI month. */
+  adjustedPrice: number;
+  /** Latest HPI value divided by the HPI value in the month of sale. */
+  indexRatio: number;
+  /** Share of the total weight, 0-1. */
+  weight: number;
+  /** A previous sale of the property being valued. */
+  isSubjectProperty?: boolean;
+}
+
+export interface ValuationResponse {
+  subject: {
+    postcode: string;
+    propertyType: string;
+    paon?: string;
+    saon?: string;
+    estateType?: string;
+  };
+  /** Weighted median of the HPI-adjusted comparable prices. */
+  estimate: number;
+  /** Weighted 25th and 75th percentiles of the adjusted prices. */
+  range: { low: number; high: number };
+  valuationMonth: string;
+  hpiRegion: string;
+  comparableCount: number;
+  /** Kish effective sample size of the weights; low values mean a few sales dominate. */
+  effectiveComparableCount: number;
+  comparables: ComparableSale[];
+}
@@ -2,11 +2,159 @@
  * SPARQL query definitions for property price data retrieval.
  */
 
+import { EstateType, PropertyType, TransactionCategory } from '../models/types.js';
+import { RecordStatus } from '../models/transaction.js';
+import { HpiPropertyType } from '../models/hpi.js';
+
+/**
+ * Filters that are pushed down into the WHERE block of a search query.
+ */
+export interface QueryFilters {
+  minPrice?: number;
+  maxPrice?: number;
+  propertyType?: PropertyType;
+  fromDate?: string;
+  toDate?: string;
+  estateType?: EstateType;
+  newBuild?: boolean;
+  transactionCategory?: TransactionCategory;
+}
+
+/**
+ * Ordering and paging applied to a search query.
+ */
+export interface QueryPagination {
+  sortBy?: 'date' | 'price' | 'distance';
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+export type QueryOptions = QueryFilters & QueryPagination;
+
+/**
+ * A postcode paired with its distance from a search centre, bound as ?distance in nearby queries.
+ */
+export interface PostcodeWithDistance {
+  postcode: string;
+  distanceMeters: number;
+}
+
+const DEFAULT_QUERY_LIMIT = 100;
+
+/**
+ * Land Registry property type concepts keyed by the friendly names used in the API.
+ */
+export const PROPERTY_TYPE_URIS: Record<PropertyType, string> = {
+  detached: 'http://landregistry.data.gov.uk/def/common/detached',
+  'semi-detached': 'http://landregistry.data.gov.uk/def/common/semi-detached',
+  terraced: 'http://landregistry.data.gov.uk/def/common/terraced',
+  flat: 'http://landregistry.data.gov.uk/def/common/flat-maisonette',
+  other: 'http://landregistry.data.gov.uk/def/common/otherPropertyType',
+};
+
+/**
+ * Land Registry estate type (tenure) concepts keyed by the friendly names used in the API.
+ */
+export const ESTATE_TYPE_URIS: Record<EstateType, string> = {
+  freehold: 'http://landregistry.data.gov.uk/def/common/freehold',
+  leasehold: 'http://landregistry.data.gov.uk/def/common/leasehold',
+};
+
+/**
+ * Price Paid Data transaction categories: A (standard) and B (additional price paid).
+ */
+export const TRANSACTION_CATEGORY_URIS: Record<TransactionCategory, string> = {
+  standard: 'http://landregistry.data.gov.uk/def/ppi/standardPricePaidTransaction',
+  additional: 'http://landregistry.data.gov.uk/def/ppi/additionalPricePaidTransaction',
+};
+
+/**
+ * Price Paid Data record status concepts.
+ */
+export const RECORD_STATUS_URIS: Record<RecordStatus, string> = {
+  add: 'http://landregistry.data.gov.uk/def/ppi/add',
+  change: 'http://landregistry.data.gov.uk/def/ppi/change',
+  delete: 'http://landregistry.data.gov.uk/def/ppi/delete',
+};
+
+const TRANSACTION_RECORD_BASE = 'http://landregistry.data.gov.uk/data/ppi/transaction/';
+
+function escapeString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function dateFilterClauses(startDate?: string, endDate?: string): string[] {
+  const filterParts: string[] = [];
+  if (startDate) {
+    filterParts.push(`      FILTER(?date >= "${escapeString(startDate)}"^^xsd:date)`);
+  }
+  if (endDate) {
+    filterParts.push(`      FILTER(?date <= "${escapeString(endDate)}"^^xsd:date)`);
+  }
+  return filterParts;
+}
+
+/**
+ * Build the VALUES/FILTER clauses for the given filters, one clause per line.
+ */
+export function buildFilterClauses(filters: QueryFilters = {}): string {
+  const clauses: string[] = [];
+
+  if (filters.propertyType) {
+    clauses.push(`      VALUES ?propertyType {<${PROPERTY_TYPE_URIS[filters.propertyType]}>}`);
+  }
+  if (filters.minPrice !== undefined) {
+    clauses.push(`      FILTER(?amount >= ${Math.floor(filters.minPrice)})`);
+  }
+  if (filters.maxPrice !== undefined) {
+    clauses.push(`      FILTER(?amount <= ${Math.floor(filters.maxPrice)})`);
+  }
+  clauses.push(...dateFilterClauses(filters.fromDate, filters.toDate));
+
+  // Tenure, new-build and category are matched as required triples rather than
+  // filtering the OPTIONAL bindings, so count queries can reuse the same clauses
+  if (filters.estateType) {
+    clauses.push(`      ?transx lrppi:estateType <${ESTATE_TYPE_URIS[filters.estateType]}> .`);
+  }
+  if (filters.newBuild !== undefined) {
+    clauses.push(`      ?transx lrppi:newBuild ${filters.newBuild ? 'true' : 'false'} .`);
+  }
+  if (filters.transactionCategory) {
+    clauses.push(
+      `      ?transx lrppi:transactionCategory <${TRANSACTION_CATEGORY_URIS[filters.transactionCategory]}> .`
+    );
+  }
+
+  return clauses.join('\n');
+}
+
 /**
- * Generate SPARQL query for searching properties by postcode.
+ * Build the ORDER BY / LIMIT / OFFSET modifiers that follow the WHERE block.
  */
-export function getPostcodeQuery(postcode: string): string {
-  return `
+export function buildSolutionModifiers(pagination: QueryPagination = {}): string {
+  const direction = pagination.sortOrder === 'asc' ? 'ASC' : 'DESC';
+  let ordering: string;
+  if (pagination.sortBy === 'distance') {
+    // Only valid for queries that bind ?distance; newest sales first within a postcode
+    ordering = `${direction}(?distance) DESC(?date)`;
+  } else {
+    ordering = `${direction}(${pagination.sortBy === 'price' ? '?amount' : '?date'})`;
+  }
+
+  // ?transx breaks ties so that OFFSET paging walks a stable ordering
+  const modifiers = [
+    `ORDER BY ${ordering} ?transx`,
+    `LIMIT ${pagination.limit ?? DEFAULT_QUERY_LIMIT}`,
+  ];
+  if (pagination.offset) {
+    modifiers.push(`OFFSET ${pagination.offset}`);
+  }
+
+  return modifiers.join('\n    ');
+}
+
+const POSTCODE_PREFIXES = `
     PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
     PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
     PREFIX owl: <http://www.w3.org/2002/07/owl#>
@@ -14,20 +162,72 @@ export function getPostcodeQuery(postcode: string): string {
     PREFIX sr: <http://data.ordnancesurvey.co.uk/ontology/spatialrelations/>
     PREFIX lrppi: <http://landregistry.data.gov.uk/def/ppi/>
     PREFIX lrcommon: <http://landregistry.data.gov.uk/def/common/>
+    PREFIX skos: <http://www.w3.org/2004/02/skos/core#>`;
+
+const ADDRESS_PREFIXES = `
+    PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
+    PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
+    PREFIX owl: <http://www.w3.org/2002/07/owl#>
+    PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+    PREFIX sr: <http://data.ordnancesurvey.co.uk/ontology/spatialrelations/>
+    PREFIX ukhpi: <http://landregistry.data.gov.uk/def/ukhpi/>
+    PREFIX lrppi: <http://landregistry.data.gov.uk/def/ppi/>
     PREFIX skos: <http://www.w3.org/2004/02/skos/core#>
-    
-    SELECT ?amount ?date ?paon ?saon ?street ?town ?county ?postcode ?propertyType ?estateType ?newBuild ?category
+    PREFIX lrcommon: <http://landregistry.data.gov.uk/def/common/>`;
+
+/**
+ * Wrap a WHERE pattern in a COUNT query that uses the same filters as the page query.
+ */
+function buildCountQuery(prefixes: string, wherePattern: string, filters: QueryFilters): string {
+  return `${prefixes}
+
+    SELECT (COUNT(DISTINCT ?transx) AS ?count)
     WHERE {
-      VALUES ?postcode {"${postcode.replace(/"/g, '\\"')}"^^xsd:string}
-      
+${wherePattern}
+${buildFilterClauses(filters)}
+    }
+  `;
+}
+
+function postcodeValuesClause(postcode: string | string[]): string {
+  const postcodes = Array.isArray(postcode) ? postcode : [postcode];
+  const values = postcodes.map(value => `"${escapeString(value)}"^^xsd:string`).join(' ');
+  return `VALUES ?postcode {${values}}`;
+}
+
+function postcodeDistanceValuesClause(postcodes: PostcodeWithDistance[]): string {
+  const rows = postcodes
+    .map(
+      ({ postcode, distanceMeters }) =>
+        `("${escapeString(postcode)}"^^xsd:string ${Math.round(distanceMeters)})`
+    )
+    .join(' ');
+  return `VALUES (?postcode ?distance) {${rows}}`;
+}
+
+function postcodeWherePattern(valuesClause: string): string {
+  return `      ${valuesClause}
+
       ?transx lrppi:propertyAddress ?addr ;
               lrppi:pricePaid ?amount ;
               lrppi:transactionDate ?date ;
               lrppi:propertyType ?propertyType ;
               lrppi:transactionCategory/skos:prefLabel ?category .
-              
-      ?addr lrcommon:postcode ?postcode .
-      
+
+      ?addr lrcommon:postcode ?postcode .`;
+}
+
+function buildPostcodeSelectQuery(
+  valuesClause: string,
+  options: QueryOptions,
+  extraVariables: string = ''
+): string {
+  return `${POSTCODE_PREFIXES}
+
+    SELECT ?amount ?date ?paon ?saon ?street ?town ?county ?postcode ?propertyType ?estateType ?newBuild ?category${extraVariables} ?transactionId
+    WHERE {
+${postcodeWherePattern(valuesClause)}
+
       OPTIONAL { ?addr lrcommon:paon ?paon }
       OPTIONAL { ?addr lrcommon:saon ?saon }
       OPTIONAL { ?addr lrcommon:street ?street }
@@ -35,12 +235,58 @@ export function getPostcodeQuery(postcode: string): string {
       OPTIONAL { ?addr lrcommon:county ?county }
       OPTIONAL { ?transx lrppi:estateType ?estateType }
       OPTIONAL { ?transx lrppi:newBuild ?newBuild }
+      OPTIONAL { ?transx lrppi:transactionId ?transactionId }
+${buildFilterClauses(options)}
     }
-    ORDER BY DESC(?date)
-    LIMIT 100
+    ${buildSolutionModifiers(options)}
   `;
 }
 
+/**
+ * Generate SPARQL query for searching properties by postcode, or by any of a list of postcodes.
+ */
+export function getPostcodeQuery(postcode: string | string[], options: QueryOptions = {}): string {
+  return buildPostcodeSelectQuery(postcodeValuesClause(postcode), options);
+}
+
+/**
+ * Generate SPARQL query counting every transaction for the postcode(s) matching the filters.
+ */
+export function getPostcodeCountQuery(
+  postcode: string | string[],
+  filters: QueryFilters = {}
+): string {
+  return buildCountQuery(
+    POSTCODE_PREFIXES,
+    postcodeWherePattern(postcodeValuesClause(postcode)),
+    filters
+  );
+}
+
+/**
+ * Generate SPARQL query for sales in a set of postcodes around a centre point.
+ * Each postcode carries its distance so results can be ordered by ?distance.
+ */
+export function getNearbyQuery(
+  postcodes: PostcodeWithDistance[],
+  options: QueryOptions = {}
+): string {
+  return buildPostcodeSelectQuery(postcodeDistanceValuesClause(postcodes), options, ' ?distance');
+}
+
+/**
+ * Generate SPARQL query counting every transaction in a set of nearby postcodes.
+ */
+export function getNearbyCountQuery(
+  postcodes: PostcodeWithDistance[],
+  filters: QueryFilters = {}
+): string {
+  return getPostcodeCountQuery(
+    postcodes.map(({ postcode }) => postcode),
+    filters
+  );
+}
+
 /**
  * Add date filter clauses to a SPARQL query.
  */
@@ -58,13 +304,7 @@ export function addDateFilters(query: string, startDate?: string, endDate?: stri
   }
 
   // Build the filter clauses
-  const filterParts: string[] = [];
-  if (startDate) {
-    filterParts.push(`      FILTER(?date >= "${startDate}"^^xsd:date)`);
-  }
-  if (endDate) {
-    filterParts.push(`      FILTER(?date <= "${endDate}"^^xsd:date)`);
-  }
+  const filterParts = dateFilterClauses(startDate, endDate);
 
   // Insert the filters just before the closing brace of the WHERE block
   return (
@@ -76,61 +316,394 @@ export function addDateFilters(query: string, startDate?: string, endDate?: stri
   );
 }
 
-/**
- * Generate SPARQL query for searching properties by address details.
- */
-export function getAddressQuery(
-  streetName: string,
-  city: string,
+function stringValuesClause(variable: string, value: string | string[]): string {
+  const values = (Array.isArray(value) ? value : [value])
+    .map(item => `"${escapeString(item)}"^^xsd:string`)
+    .join(' ');
+  return `VALUES ?${variable} {${values}}`;
+}
+
+function addressWherePattern(
+  streetName: string | string[],
+  city: string | string[],
   houseNumber?: string,
   postcode?: string
 ): string {
-  let query = `
-    PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
-    PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
-    PREFIX owl: <http://www.w3.org/2002/07/owl#>
-    PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
-    PREFIX sr: <http://data.ordnancesurvey.co.uk/ontology/spatialrelations/>
-    PREFIX ukhpi: <http://landregistry.data.gov.uk/def/ukhpi/>
-    PREFIX lrppi: <http://landregistry.data.gov.uk/def/ppi/>
-    PREFIX skos: <http://www.w3.org/2004/02/skos/core#>
-    PREFIX lrcommon: <http://landregistry.data.gov.uk/def/common/>
+  let pattern = `      ${stringValuesClause('street', streetName)}
+      ${stringValuesClause('town', city)}
 
-    SELECT ?paon ?saon ?street ?town ?county ?postcode ?amount ?date ?category ?propertyType ?estateType ?newBuild
-    WHERE
-    {
-      VALUES ?street {"${streetName.replace(/"/g, '\\"')}"^^xsd:string}
-      VALUES ?town {"${city.replace(/"/g, '\\"')}"^^xsd:string}
-      
       ?addr lrcommon:street ?street ;
             lrcommon:town ?town .
-  `;
+`;
 
   if (houseNumber) {
-    query += `      ?addr lrcommon:paon "${houseNumber.replace(/"/g, '\\"')}"^^xsd:string .\n`;
+    pattern += `      ?addr lrcommon:paon "${escapeString(houseNumber)}"^^xsd:string .\n`;
   }
 
   if (postcode) {
-    query += `      ?addr lrcommon:postcode "${postcode.replace(/"/g, '\\"')}"^^xsd:string .\n`;
+    pattern += `      ?addr lrcommon:postcode "${escapeString(postcode)}"^^xsd:string .\n`;
   }
 
-  query += `
+  pattern += `
+      ?transx lrppi:propertyAddress ?addr ;
+              lrppi:pricePaid ?amount ;
+              lrppi:transactionDate ?date ;
+              lrppi:transactionCategory/skos:prefLabel ?category ;
+              lrppi:propertyType ?propertyType .`;
+
+  return pattern;
+}
+
+/**
+ * Generate SPARQL query for searching properties by address details. Several street
+ * or town spellings may be given; each is matched exactly.
+ */
+export function getAddressQuery(
+  streetName: string | string[],
+  city: string | string[],
+  houseNumber?: string,
+  postcode?: string,
+  options: QueryOptions = {}
+): string {
+  return `${ADDRESS_PREFIXES}
+
+    SELECT ?paon ?saon ?street ?town ?county ?postcode ?amount ?date ?category ?propertyType ?estateType ?newBuild ?transactionId
+    WHERE
+    {
+${addressWherePattern(streetName, city, houseNumber, postcode)}
+
+      OPTIONAL {?addr lrcommon:county ?county}
+      OPTIONAL {?addr lrcommon:paon ?paon}
+      OPTIONAL {?addr lrcommon:saon ?saon}
+      OPTIONAL {?addr lrcommon:postcode ?postcode}
+      OPTIONAL {?transx lrppi:estateType ?estateType}
+      OPTIONAL {?transx lrppi:newBuild ?newBuild}
+      OPTIONAL {?transx lrppi:transactionId ?transactionId}
+${buildFilterClauses(options)}
+    }
+    ${buildSolutionModifiers(options)}
+  `;
+}
+
+/**
+ * Generate SPARQL query counting every transaction at an address that matches the filters.
+ */
+export function getAddressCountQuery(
+  streetName: string | string[],
+  city: string | string[],
+  houseNumber?: string,
+  postcode?: string,
+  filters: QueryFilters = {}
+): string {
+  return buildCountQuery(
+    ADDRESS_PREFIXES,
+    addressWherePattern(streetName, city, houseNumber, postcode),
+    filters
+  );
+}
+
+/**
+ * Loose street/place match: the street must start with one of the prefixes and any of
+ * the place names may be the town, locality or district.
+ */
+export interface FuzzyAddressMatch {
+  streetPrefixes: string[];
+  places: string[];
+}
+
+function fuzzyAddressWherePattern(match: FuzzyAddressMatch): string {
+  const prefixFilter = match.streetPrefixes
+    .map(prefix => `STRSTARTS(UCASE(?street), "${escapeString(prefix.toUpperCase())}")`)
+    .join(' || ');
+
+  return `      ${stringValuesClause('place', match.places)}
+
+      { ?addr lrcommon:town ?place } UNION { ?addr lrcommon:locality ?place } UNION { ?addr lrcommon:district ?place }
+      ?addr lrcommon:street ?street .
+      FILTER(${prefixFilter})
+
+      ?transx lrppi:propertyAddress ?addr ;
+              lrppi:pricePaid ?amount ;
+              lrppi:transactionDate ?date ;
+              lrppi:transactionCategory/skos:prefLabel ?category ;
+              lrppi:propertyType ?propertyType .`;
+}
+
+/**
+ * Generate SPARQL query for a fuzzy street search. Slower than getAddressQuery because
+ * every street in the matching places is scanned.
+ */
+export function getFuzzyAddressQuery(match: FuzzyAddressMatch, options: QueryOptions = {}): string {
+  return `${ADDRESS_PREFIXES}
+
+    SELECT DISTINCT ?paon ?saon ?street ?town ?county ?postcode ?amount ?date ?category ?propertyType ?estateType ?newBuild ?transactionId ?transx
+    WHERE
+    {
+${fuzzyAddressWherePattern(match)}
+
+      OPTIONAL {?addr lrcommon:town ?town}
+      OPTIONAL {?addr lrcommon:county ?county}
+      OPTIONAL {?addr lrcommon:paon ?paon}
+      OPTIONAL {?addr lrcommon:saon ?saon}
+      OPTIONAL {?addr lrcommon:postcode ?postcode}
+      OPTIONAL {?transx lrppi:estateType ?estateType}
+      OPTIONAL {?transx lrppi:newBuild ?newBuild}
+      OPTIONAL {?transx lrppi:transactionId ?transactionId}
+${buildFilterClauses(options)}
+    }
+    ${buildSolutionModifiers(options)}
+  `;
+}
+
+/**
+ * Generate SPARQL query counting every transaction matched by a fuzzy street search.
+ */
+export function getFuzzyAddressCountQuery(
+  match: FuzzyAddressMatch,
+  filters: QueryFilters = {}
+): string {
+  return buildCountQuery(ADDRESS_PREFIXES, fuzzyAddressWherePattern(match), filters);
+}
+
+/**
+ * Administrative areas to search. Each part may list several spellings; every part
+ * given must match.
+ */
+export interface AdministrativeAreaQuery {
+  district?: string[];
+  county?: string[];
+  locality?: string[];
+}
+
+function administrativeAreaWherePattern(area: AdministrativeAreaQuery): string {
+  const parts = (['district', 'county', 'locality'] as const).filter(
+    part => area[part] && area[part]!.length > 0
+  );
+  const values = parts.map(part => `      ${stringValuesClause(part, area[part]!)}`).join('\n');
+  const triples = parts.map(part => `      ?addr lrcommon:${part} ?${part} .`).join('\n');
+
+  return `${values}
+
+${triples}
+
+      ?transx lrppi:propertyAddress ?addr ;
+              lrppi:pricePaid ?amount ;
+              lrppi:transactionDate ?date ;
+              lrppi:transactionCategory/skos:prefLabel ?category ;
+              lrppi:propertyType ?propertyType .`;
+}
+
+/**
+ * Generate SPARQL query for sales in a local authority district, county and/or locality.
+ * Callers should bound the date range, as an area can hold hundreds of thousands of sales.
+ */
+export function getAdministrativeAreaQuery(
+  area: AdministrativeAreaQuery,
+  options: QueryOptions = {}
+): string {
+  return `${ADDRESS_PREFIXES}
+
+    SELECT ?paon ?saon ?street ?town ?county ?postcode ?amount ?date ?category ?propertyType ?estateType ?newBuild ?transactionId
+    WHERE
+    {
+${administrativeAreaWherePattern(area)}
+
+      OPTIONAL {?addr lrcommon:paon ?paon}
+      OPTIONAL {?addr lrcommon:saon ?saon}
+      OPTIONAL {?addr lrcommon:street ?street}
+      OPTIONAL {?addr lrcommon:town ?town}
+      OPTIONAL {?addr lrcommon:county ?county}
+      OPTIONAL {?addr lrcommon:postcode ?postcode}
+      OPTIONAL {?transx lrppi:estateType ?estateType}
+      OPTIONAL {?transx lrppi:newBuild ?newBuild}
+      OPTIONAL {?transx lrppi:transactionId ?transactionId}
+${buildFilterClauses(options)}
+    }
+    ${buildSolutionModifiers(options)}
+  `;
+}
+
+/**
+ * Generate SPARQL query counting every transaction in an administrative area.
+ */
+export function getAdministrativeAreaCountQuery(
+  area: AdministrativeAreaQuery,
+  filters: QueryFilters = {}
+): string {
+  return buildCountQuery(ADDRESS_PREFIXES, administrativeAreaWherePattern(area), filters);
+}
+
+/**
+ * Address parts identifying a single property. Only the parts provided are matched.
+ */
+export interface PropertyAddressQuery {
+  paon: string;
+  saon?: string;
+  /** Match only addresses without a saon. */
+  noSaon?: boolean;
+  street?: string;
+  town?: string;
+  postcode?: string;
+}
+
+/**
+ * Generate SPARQL query returning every sale of a single property, oldest first.
+ */
+export function getPropertyHistoryQuery(address: PropertyAddressQuery, limit = 500): string {
+  const constraints = (['paon', 'saon', 'street', 'town', 'postcode'] as const)
+    .filter(part => address[part])
+    .map(part => `      ?addr lrcommon:${part} "${escapeString(address[part]!)}"^^xsd:string .`)
+    .concat(
+      address.noSaon
+        ? ['      FILTER NOT EXISTS {?addr lrcommon:saon ?anySaon FILTER(STRLEN(?anySaon) > 0)}']
+        : []
+    )
+    .join('\n');
+
+  return `${ADDRESS_PREFIXES}
+
+    SELECT ?paon ?saon ?street ?town ?county ?postcode ?amount ?date ?category ?propertyType ?estateType ?newBuild ?transactionId
+    WHERE
+    {
+${constraints}
+
       ?transx lrppi:propertyAddress ?addr ;
               lrppi:pricePaid ?amount ;
               lrppi:transactionDate ?date ;
               lrppi:transactionCategory/skos:prefLabel ?category ;
               lrppi:propertyType ?propertyType .
 
+      OPTIONAL {?addr lrcommon:paon ?paon}
+      OPTIONAL {?addr lrcommon:saon ?saon}
+      OPTIONAL {?addr lrcommon:street ?street}
+      OPTIONAL {?addr lrcommon:town ?town}
       OPTIONAL {?addr lrcommon:county ?county}
+      OPTIONAL {?addr lrcommon:postcode ?postcode}
+      OPTIONAL {?transx lrppi:estateType ?estateType}
+      OPTIONAL {?transx lrppi:newBuild ?newBuild}
+      OPTIONAL {?transx lrppi:transactionId ?transactionId}
+    }
+    ${buildSolutionModifiers({ sortBy: 'date', sortOrder: 'asc', limit })}
+  `;
+}
+
+/**
+ * Generate SPARQL query for the current record of one transaction. The ID must already be
+ * validated, as it is embedded in the record URI.
+ */
+export function getTransactionQuery(transactionId: string): string {
+  return `${ADDRESS_PREFIXES}
+
+    SELECT ?paon ?saon ?street ?locality ?town ?district ?county ?postcode ?amount ?date ?category ?propertyType ?estateType ?newBuild ?transactionId ?recordStatus
+    WHERE
+    {
+      VALUES ?transx {<${TRANSACTION_RECORD_BASE}${transactionId}/current>}
+
+      ?transx lrppi:propertyAddress ?addr ;
+              lrppi:pricePaid ?amount ;
+              lrppi:transactionDate ?date ;
+              lrppi:transactionCategory/skos:prefLabel ?category ;
+              lrppi:propertyType ?propertyType .
+
       OPTIONAL {?addr lrcommon:paon ?paon}
       OPTIONAL {?addr lrcommon:saon ?saon}
+      OPTIONAL {?addr lrcommon:street ?street}
+      OPTIONAL {?addr lrcommon:locality ?locality}
+      OPTIONAL {?addr lrcommon:town ?town}
+      OPTIONAL {?addr lrcommon:district ?district}
+      OPTIONAL {?addr lrcommon:county ?county}
       OPTIONAL {?addr lrcommon:postcode ?postcode}
       OPTIONAL {?transx lrppi:estateType ?estateType}
       OPTIONAL {?transx lrppi:newBuild ?newBuild}
+      OPTIONAL {?transx lrppi:transactionId ?transactionId}
+      OPTIONAL {?transx lrppi:recordStatus ?recordStatus}
     }
-    ORDER BY DESC(?date)
-    LIMIT 100
+    LIMIT 1
   `;
+}
+
+/**
+ * Suffixes of the per-property-type UKHPI measures, e.g. ukhpi:averagePriceSemiDetached.
+ */
+export const HPI_PROPERTY_TYPE_SUFFIXES: Record<HpiPropertyType, string> = {
+  detached: 'Detached',
+  'semi-detached': 'SemiDetached',
+  terraced: 'Terraced',
+  flat: 'FlatMaisonette',
+};
+
+export const HPI_REGION_BASE = 'http://landregistry.data.gov.uk/id/region/';
+
+const HPI_PREFIXES = `
+    PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>
+    PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+    PREFIX ukhpi: <http://landregistry.data.gov.uk/def/ukhpi/>`;
+
+/**
+ * UKHPI measures selected for each observation: the variable name and the ukhpi property.
+ */
+function hpiMeasures(): Array<[string, string]> {
+  const measures: Array<[string, string]> = [
+    ['averagePrice', 'averagePrice'],
+    ['index', 'housePriceIndex'],
+    ['monthlyChange', 'percentageChange'],
+    ['annualChange', 'percentageAnnualChange'],
+    ['salesVolume', 'salesVolume'],
+  ];
+  Object.values(HPI_PROPERTY_TYPE_SUFFIXES).forEach(suffix => {
+    measures.push(
+      [`averagePrice${suffix}`, `averagePrice${suffix}`],
+      [`index${suffix}`, `housePriceIndex${suffix}`],
+      [`monthlyChange${suffix}`, `percentageChange${suffix}`],
+      [`annualChange${suffix}`, `percentageAnnualChange${suffix}`]
+    );
+  });
+  return measures;
+}
+
+/**
+ * Generate SPARQL query for the UK House Price Index of one region, newest month first.
+ * Months are compared as YYYY-MM strings.
+ */
+export function getHousePriceIndexQuery(
+  regionSlug: string,
+  options: { fromMonth?: string; toMonth?: string; limit?: number } = {}
+): string {
+  const measures = hpiMeasures();
+  const filters: string[] = [];
+  if (options.fromMonth) {
+    filters.push(`          FILTER(STR(?month) >= "${escapeString(options.fromMonth)}")`);
+  }
+  if (options.toMonth) {
+    filters.push(`          FILTER(STR(?month) <= "${escapeString(options.toMonth)}")`);
+  }
+
+  // The subquery picks the latest months, so the limit counts months rather than rows,
+  // which repeat when a region has several labels
+  return `${HPI_PREFIXES}
 
-  return query;
+    SELECT ?month ?regionName ${measures.map(([variable]) => `?${variable}`).join(' ')}
+    WHERE
+    {
+      {
+        SELECT DISTINCT ?region ?month
+        WHERE
+        {
+          VALUES ?region {<${HPI_REGION_BASE}${encodeURIComponent(regionSlug)}>}
+          ?obs ukhpi:refRegion ?region ;
+               ukhpi:refMonth ?month .
+${filters.join('\n')}
+        }
+        ORDER BY DESC(?month)
+        LIMIT ${options.limit ?? 24}
+      }
+
+      ?obs ukhpi:refRegion ?region ;
+           ukhpi:refMonth ?month .
+
+      OPTIONAL {?region rdfs:label ?regionName FILTER(langMatches(lang(?regionName), "en"))}
+${measures.map(([variable, property]) => `      OPTIONAL {?obs ukhpi:${property} ?${variable}}`).join('\n')}
+    }
+    ORDER BY DESC(?month)
+  `;
 }
@@ -0,0 +1,199 @@
+import { AreaDescription, AreaSelection } from '../models/area.js';
+import { PropertyPrice, SearchParams, SearchResponse } from '../models/types.js';
+import { QueryFilters, QueryOptions } from '../queries/queries.js';
+import {
+  classifyPostcode,
+  formatPostcode,
+  listPostcodesInArea,
+  lookupPostcodes,
+} from './postcodeService.js';
+import { searchPostcodes, searchProperties } from './sparqlService.js';
+import { getConfig } from '../utils/config.js';
+import { logInfo, logWarn } from '../utils/logger.js';
+
+const PAGE_SIZE = 1000;
+
+export interface AreaSales {
+  area: AreaDescription;
+  /** Matching sales, newest first, up to `maxSales`. */
+  sales: PropertyPrice[];
+  /** Every matching sale, including any beyond `maxSales`. */
+  total: number;
+  truncated: boolean;
+}
+
+export function areaFilters(selection: AreaSelection): QueryFilters {
+  return {
+    minPrice: selection.minPrice,
+    maxPrice: selection.maxPrice,
+    propertyType: selection.propertyType,
+    fromDate: selection.fromDate,
+    toDate: selection.toDate,
+    estateType: selection.estateType,
+    newBuild: selection.newBuild,
+    transactionCategory: selection.transactionCategory,
+  };
+}
+
+function describeAdministrativeArea(selection: AreaSelection): string {
+  return [selection.locality, selection.district, selection.county]
+    .filter(Boolean)
+    .map(part => part!.toUpperCase())
+    .join(', ');
+}
+
+async function collectPostcodeSales(
+  endpoint: string,
+  postcodes: string[],
+  selection: AreaSelection
+): Promise<{ sales: PropertyPrice[]; total: number }> {
+  const options: QueryOptions = {
+    ...areaFilters(selection),
+    sortBy: 'date',
+    sortOrder: 'desc',
+    limit: selection.maxSales,
+    offset: 0,
+  };
+  const { properties, total } = await searchPostcodes(endpoint, postcodes, options);
+  return { sales: properties, total };
+}
+
+/**
+ * Page through searchProperties until every matching sale (or `maxSales`) is collected.
+ * `area` is the postcode area the search reported, if any.
+ */
+async function collectSearchSales(
+  endpoint: string,
+  params: SearchParams,
+  maxSales: number
+): Promise<{ sales: PropertyPrice[]; total: number; area?: SearchResponse['area'] }> {
+  const sales: PropertyPrice[] = [];
+  let total = 0;
+  let area: SearchResponse['area'];
+
+  do {
+    const page = await searchProperties(endpoint, {
+      ...params,
+      sortBy: 'date',
+      sortOrder: 'desc',
+      limit: Math.min(PAGE_SIZE, maxSales - sales.length),
+      offset: sales.length,
+    });
+    total = page.total;
+    area = page.area;
+    if (page.properties.length === 0) {
+      break;
+    }
+    sales.push(...page.properties);
+  } while (sales.length < Math.min(total, maxSales));
+
+  return { sales, total, area };
+}
+
+/**
+ * Collect every sale in an area, for tools that summarise an area rather than list a page
+ * of it. Sector, district and radius selections are resolved to postcodes through the
+ * local Code-Point database; other selections are paged through searchProperties. With
+ * `pricePaidBackend: 'local'` every selection is answered from the local price-paid
+ * database, sectors and districts by postcode prefix.
+ */
+export async function collectAreaSales(
+  endpoint: string,
+  selection: AreaSelection,
+  options?: { dbPath?: string }
+): Promise<AreaSales> {
+  let area: AreaDescription;
+  let result: { sales: PropertyPrice[]; total: number };
+
+  if (selection.radiusMeters !== undefined) {
+    const lookup = lookupPostcodes(
+      {
+        postcode: selection.postcode,
+        easting: selection.easting,
+        northing: selection.northing,
+        radiusMeters: selection.radiusMeters,
+        limit: selection.maxPostcodes,
+        includeSelf: true,
+      },
+      options
+    );
+    const postcodes = lookup.postcodes.map(record => formatPostcode(record.postcode));
+    const center = lookup.center.postcode
+      ? formatPostcode(lookup.center.postcode)
+      : `${lookup.center.easting},${lookup.center.northing}`;
+    area = {
+      type: 'radius',
+      label: `${selection.radiusMeters}m around ${center}`,
+      postcodeCount: postcodes.length,
+    };
+    result = await collectPostcodeSales(endpoint, postcodes, selection);
+  } else if (selection.postcode) {
+    const postcodeArea = classifyPostcode(selection.postcode);
+    if (postcodeArea && postcodeArea.type !== 'unit' && getConfig().pricePaidBackend === 'local') {
+      const { area: matched, ...sales } = await collectSearchSales(
+        endpoint,
+        { ...areaFilters(selection), postcode: postcodeArea.code },
+        selection.maxSales
+      );
+      area = {
+        type: postcodeArea.type,
+        label: postcodeArea.code,
+        postcodeCount: matched?.postcodeCount,
+      };
+      result = sales;
+    } else if (postcodeArea && postcodeArea.type !== 'unit') {
+      const postcodes = listPostcodesInArea(postcodeArea, options);
+      if (postcodes.length === 0) {
+        throw new Error(`No postcodes found for ${postcodeArea.type} ${postcodeArea.code}`);
+      }
+      area = { type: postcodeArea.type, label: postcodeArea.code, postcodeCount: postcodes.length };
+      result = await collectPostcodeSales(endpoint, postcodes, selection);
+    } else {
+      const postcode = formatPostcode(selection.postcode);
+      area = { type: 'postcode', label: postcode };
+      result = await collectSearchSales(
+        endpoint,
+        { ...areaFilters(selection), postcode },
+        selection.maxSales
+      );
+    }
+  } else if (selection.street && selection.city) {
+    area = {
+      type: 'street',
+      label: `${selection.street.toUpperCase()}, ${selection.city.toUpperCase()}`,
+    };
+    result = await collectSearchSales(
+      endpoint,
+      { ...areaFilters(selection), street: selection.street, city: selection.city },
+      selection.maxSales
+    );
+  } else {
+    area = { type: 'administrativeArea', label: describeAdministrativeArea(selection) };
+    result = await collectSearchSales(
+      endpoint,
+      {
+        ...areaFilters(selection),
+        district: selection.district,
+        county: selection.county,
+        locality: selection.locality,
+      },
+      selection.maxSales
+    );
+  }
+
+  const truncated = result.total > result.sales.length;
+  if (truncated) {
+    logWarn('Area sales truncated to the most recent sales', {
+      area: area.label,
+      total: result.total,
+      maxSales: selection.maxSales,
+    });
+  }
+  logInfo('Area sales collected', {
+    area: area.label,
+    salesCollected: result.sales.length,
+    total: result.total,
+  });
+
+  return { area, sales: result.sales, total: result.total, truncated };
+}
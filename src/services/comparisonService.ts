@@ -0,0 +1,98 @@
+import {
+  AreaComparison,
+  CompareAreasParams,
+  CompareAreasResponse,
+  YearSummary,
+} from '../models/comparison.js';
+import { AreaSelectionSchema } from '../models/area.js';
+import { PropertyPrice } from '../models/types.js';
+import { collectAreaSales } from './areaSalesService.js';
+import { roundTo } from './propertyHistoryService.js';
+import { summarizeBy, summarizePrices } from './statisticsService.js';
+import { logInfo } from '../utils/logger.js';
+import { excludeOutliers } from '../utils/outliers.js';
+
+/**
+ * Share of sales in each group, as percentages that may not sum to exactly 100.
+ */
+export function shareBy(
+  sales: PropertyPrice[],
+  key: (sale: PropertyPrice) => string
+): Record<string, number> {
+  const counts = new Map<string, number>();
+  sales.forEach(sale => counts.set(key(sale), (counts.get(key(sale)) ?? 0) + 1));
+  return Object.fromEntries(
+    [...counts.keys()]
+      .sort()
+      .map(group => [group, roundTo((counts.get(group)! / sales.length) * 100, 1)])
+  );
+}
+
+/**
+ * Count and median price per calendar year, each with the change from the previous
+ * calendar year when that year had sales too.
+ */
+export function summarizeYears(sales: PropertyPrice[]): YearSummary[] {
+  const years = summarizeBy(sales, 'year');
+  return Object.entries(years).map(([year, statistics]) => {
+    const previous = years[String(Number(year) - 1)]?.median;
+    const summary: YearSummary = { year, count: statistics.count, medianPrice: statistics.median };
+    if (previous && statistics.median !== undefined) {
+      summary.medianChangePercent = roundTo(((statistics.median - previous) / previous) * 100);
+    }
+    return summary;
+  });
+}
+
+/**
+ * Side-by-side price summaries for several areas over the same date window and filters.
+ * Areas are collected one after another to keep the load on the endpoint down.
+ */
+export async function compareAreas(
+  endpoint: string,
+  params: CompareAreasParams,
+  options?: { dbPath?: string }
+): Promise<CompareAreasResponse> {
+  const comparisons: AreaComparison[] = [];
+
+  for (const target of params.areas) {
+    const selection = AreaSelectionSchema.parse({
+      ...target,
+      fromDate: params.fromDate,
+      toDate: params.toDate,
+      propertyType: params.propertyType,
+      estateType: params.estateType,
+      newBuild: params.newBuild,
+      transactionCategory: params.transactionCategory,
+      maxSales: params.maxSalesPerArea,
+    });
+    const collected = await collectAreaSales(endpoint, selection, options);
+    let sales = collected.sales;
+    let outliersExcluded: number | undefined;
+    if (params.excludeOutliers) {
+      ({ sales, excluded: outliersExcluded } = excludeOutliers(sales));
+    }
+
+    const statistics = summarizePrices(sales.map(sale => sale.price));
+    comparisons.push({
+      area: collected.area,
+      total: collected.total,
+      salesAnalysed: sales.length,
+      truncated: collected.truncated,
+      ...(outliersExcluded !== undefined && { outliersExcluded }),
+      count: statistics.count,
+      medianPrice: statistics.median,
+      statistics,
+      byPropertyType: summarizeBy(sales, 'propertyType'),
+      tenureMix: shareBy(sales, sale => sale.estateType ?? 'unknown'),
+      byYear: summarizeYears(sales),
+    });
+  }
+
+  logInfo('Areas compared', {
+    areas: comparisons.map(comparison => comparison.area.label),
+    salesAnalysed: comparisons.reduce((sum, comparison) => sum + comparison.salesAnalysed, 0),
+  });
+
+  return { fromDate: params.fromDate, toDate: params.toDate, areas: comparisons };
+}
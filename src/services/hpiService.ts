@@ -0,0 +1,141 @@
+import {
+  HousePriceIndexParams,
+  HousePriceIndexResponse,
+  HpiFigures,
+  HpiObservation,
+  HpiPropertyType,
+} from '../models/hpi.js';
+import {
+  getHousePriceIndexQuery,
+  HPI_PROPERTY_TYPE_SUFFIXES,
+  HPI_REGION_BASE,
+} from '../queries/queries.js';
+import { querySparql } from './sparqlService.js';
+import { logInfo } from '../utils/logger.js';
+
+type HpiBinding = Record<string, { value: string } | undefined>;
+
+/**
+ * UKHPI region slug for a region name, slug or URI, e.g. "City of London" -> "city-of-london".
+ */
+export function regionSlug(region: string): string {
+  const trimmed = region.trim();
+  if (trimmed.startsWith(HPI_REGION_BASE)) {
+    return trimmed.slice(HPI_REGION_BASE.length);
+  }
+  return trimmed
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function toMonth(date: string, name: string): string {
+  if (!/^\d{4}-\d{2}(-\d{2})?$/.test(date)) {
+    throw new Error(`${name} must be YYYY-MM or YYYY-MM-DD`);
+  }
+  return date.slice(0, 7);
+}
+
+function numberValue(binding: HpiBinding, variable: string): number | undefined {
+  const value = binding[variable]?.value;
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function figures(binding: HpiBinding, suffix = ''): HpiFigures {
+  return {
+    averagePrice: numberValue(binding, `averagePrice${suffix}`),
+    index: numberValue(binding, `index${suffix}`),
+    monthlyChangePercent: numberValue(binding, `monthlyChange${suffix}`),
+    annualChangePercent: numberValue(binding, `annualChange${suffix}`),
+  };
+}
+
+export function parseHpiObservation(binding: HpiBinding): HpiObservation {
+  const byPropertyType: HpiObservation['byPropertyType'] = {};
+  (Object.keys(HPI_PROPERTY_TYPE_SUFFIXES) as HpiPropertyType[]).forEach(propertyType => {
+    const typeFigures = figures(binding, HPI_PROPERTY_TYPE_SUFFIXES[propertyType]);
+    if (Object.values(typeFigures).some(value => value !== undefined)) {
+      byPropertyType[propertyType] = typeFigures;
+    }
+  });
+
+  return {
+    month: (binding.month?.value ?? '').slice(0, 7),
+    ...figures(binding),
+    salesVolume: numberValue(binding, 'salesVolume'),
+    byPropertyType,
+  };
+}
+
+/**
+ * Load UKHPI observations for a region slug, oldest month first. Returns the latest
+ * `limit` months in the range, or an empty list when the region has no data.
+ */
+export async function loadHpiMonths(
+  endpoint: string,
+  slug: string,
+  options: { fromMonth?: string; toMonth?: string; limit?: number } = {}
+): Promise<{ months: HpiObservation[]; regionName?: string }> {
+  const results = await querySparql<HpiBinding>(endpoint, getHousePriceIndexQuery(slug, options));
+
+  // Several labels for a region can repeat a month; keep the first row for each
+  const months = new Map<string, HpiObservation>();
+  results.forEach(binding => {
+    const observation = parseHpiObservation(binding);
+    if (!months.has(observation.month)) {
+      months.set(observation.month, observation);
+    }
+  });
+
+  return {
+    months: [...months.values()].sort((a, b) => a.month.localeCompare(b.month)),
+    regionName: results.find(binding => binding.regionName)?.regionName?.value,
+  };
+}
+
+/**
+ * Monthly UK House Price Index figures for a region or local authority, oldest month first.
+ * Without a date range the latest `limit` months are returned.
+ */
+export async function getHousePriceIndex(
+  endpoint: string,
+  params: HousePriceIndexParams
+): Promise<HousePriceIndexResponse> {
+  const slug = regionSlug(params.region);
+  if (!slug) {
+    throw new Error(`Invalid region: ${params.region}`);
+  }
+  const fromMonth = params.fromDate ? toMonth(params.fromDate, 'fromDate') : undefined;
+  const toMonthValue = params.toDate ? toMonth(params.toDate, 'toDate') : undefined;
+  if (fromMonth && toMonthValue && fromMonth > toMonthValue) {
+    throw new Error('fromDate cannot be after toDate');
+  }
+
+  const { months, regionName } = await loadHpiMonths(endpoint, slug, {
+    fromMonth,
+    toMonth: toMonthValue,
+    limit: params.limit,
+  });
+  if (months.length === 0) {
+    throw new Error(
+      `No UKHPI data found for region "${params.region}" (${slug}); use a UKHPI region or local authority name such as "london", "plymouth" or "england"`
+    );
+  }
+
+  logInfo('House price index retrieved', { region: slug, monthCount: months.length });
+
+  return {
+    region: {
+      slug,
+      uri: `${HPI_REGION_BASE}${slug}`,
+      name: regionName,
+    },
+    months,
+  };
+}
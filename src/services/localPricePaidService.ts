@@ -0,0 +1,457 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  AddressMatch,
+  AdministrativeArea,
+  EstateType,
+  PropertyPrice,
+  PropertyType,
+  SearchParams,
+  SearchResponse,
+  TransactionCategory,
+} from '../models/types.js';
+import { QueryOptions } from '../queries/queries.js';
+import { classifyPostcode, formatPostcode } from './postcodeService.js';
+import { placeVariants, streetPrefixes, streetVariants } from '../utils/addressNormalizer.js';
+import { getConfig } from '../utils/config.js';
+import { logInfo } from '../utils/logger.js';
+import { normalizeSearchParams, validateSearchParams } from '../utils/searchParams.js';
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'price-paid.sqlite');
+const EARLIEST_SALE_DATE = '1995-01-01'; // Price Paid Data starts in January 1995
+
+let dbInstance: Database.Database | null = null;
+let dbPathInUse: string | null = null;
+
+interface TransactionRow {
+  transaction_id: string;
+  price: number;
+  date: string;
+  postcode: string | null;
+  property_type: PropertyType;
+  new_build: number | null;
+  estate_type: EstateType | null;
+  paon: string | null;
+  saon: string | null;
+  street: string | null;
+  locality: string | null;
+  town: string | null;
+  district: string | null;
+  county: string | null;
+  category: TransactionCategory | null;
+}
+
+/** SQL conditions joined with AND, and their parameters in order. */
+interface Conditions {
+  clauses: string[];
+  values: Array<string | number>;
+}
+
+function resolveDbPath(customPath?: string): string {
+  return path.resolve(customPath || getConfig().pricePaidDbPath || DEFAULT_DB_PATH);
+}
+
+function getDb(dbPath?: string): Database.Database {
+  const resolvedPath = resolveDbPath(dbPath);
+  if (dbInstance && dbPathInUse === resolvedPath) {
+    return dbInstance;
+  }
+
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(
+      `Price-paid database not found at ${resolvedPath}. Run "npm run build:price-paid" to generate it.`
+    );
+  }
+
+  dbInstance?.close();
+  dbInstance = new Database(resolvedPath, { readonly: true });
+  dbPathInUse = resolvedPath;
+  return dbInstance;
+}
+
+function toPropertyPrice(row: TransactionRow): PropertyPrice {
+  return {
+    price: row.price,
+    date: row.date,
+    postcode: row.postcode ?? '',
+    propertyType: row.property_type,
+    street: row.street ?? '',
+    city: row.town ?? '',
+    paon: row.paon ?? undefined,
+    saon: row.saon ?? undefined,
+    county: row.county ?? undefined,
+    estateType: row.estate_type ?? undefined,
+    newBuild: row.new_build === null ? undefined : row.new_build === 1,
+    transactionCategory: row.category ?? undefined,
+    transactionId: row.transaction_id,
+  };
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+/**
+ * Bounds for an indexable prefix match: every string from `prefix` up to, but not
+ * including, the prefix with its last character incremented.
+ */
+export function prefixRange(prefix: string): [string, string] {
+  const last = prefix.charCodeAt(prefix.length - 1);
+  return [prefix, prefix.slice(0, -1) + String.fromCharCode(last + 1)];
+}
+
+function filterConditions(options: QueryOptions): Conditions {
+  const conditions: Conditions = { clauses: [], values: [] };
+  const add = (clause: string, ...values: Array<string | number>) => {
+    conditions.clauses.push(clause);
+    conditions.values.push(...values);
+  };
+
+  if (options.propertyType) {
+    add('property_type = ?', options.propertyType);
+  }
+  if (options.minPrice !== undefined) {
+    add('price >= ?', Math.floor(options.minPrice));
+  }
+  if (options.maxPrice !== undefined) {
+    add('price <= ?', Math.floor(options.maxPrice));
+  }
+  if (options.fromDate) {
+    add('date >= ?', options.fromDate.slice(0, 10));
+  }
+  if (options.toDate) {
+    add('date <= ?', options.toDate.slice(0, 10));
+  }
+  if (options.estateType) {
+    add('estate_type = ?', options.estateType);
+  }
+  if (options.newBuild !== undefined) {
+    add('new_build = ?', options.newBuild ? 1 : 0);
+  }
+  if (options.transactionCategory) {
+    add('category = ?', options.transactionCategory);
+  }
+  return conditions;
+}
+
+/** One SQL statement and its parameters in order. */
+interface SqlQuery {
+  sql: string;
+  values: Array<string | number>;
+}
+
+/**
+ * The queries for one page of transactions matching `area` and the filters, ordered as
+ * the SPARQL queries order them, and for the number of matches overall.
+ */
+function transactionQueries(
+  area: Conditions,
+  options: QueryOptions
+): { select: SqlQuery; count: SqlQuery } {
+  const filters = filterConditions(options);
+  const where = [...area.clauses, ...filters.clauses].join(' AND ');
+  const values = [...area.values, ...filters.values];
+  const column = options.sortBy === 'price' ? 'price' : 'date';
+  const direction = options.sortOrder === 'asc' ? 'ASC' : 'DESC';
+
+  return {
+    select: {
+      sql: `SELECT * FROM transactions WHERE ${where} ORDER BY ${column} ${direction}, transaction_id LIMIT ? OFFSET ?`,
+      values: [...values, options.limit ?? 10, options.offset ?? 0],
+    },
+    count: { sql: `SELECT COUNT(*) FROM transactions WHERE ${where}`, values },
+  };
+}
+
+function postcodeCountQuery(area: Conditions): SqlQuery {
+  return {
+    sql: `SELECT COUNT(DISTINCT postcode) FROM transactions WHERE ${area.clauses.join(' AND ')}`,
+    values: area.values,
+  };
+}
+
+/**
+ * A query with its parameters written in as SQL literals, for showing rather than running.
+ */
+function inlineValues({ sql, values }: SqlQuery): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => {
+    const value = values[index++];
+    return typeof value === 'number' ? String(value) : `'${value.replace(/'/g, "''")}'`;
+  });
+}
+
+function searchTransactions(
+  db: Database.Database,
+  area: Conditions,
+  options: QueryOptions
+): { properties: PropertyPrice[]; total: number } {
+  const { select, count } = transactionQueries(area, options);
+  const rows = db.prepare(select.sql).all(...select.values) as TransactionRow[];
+  const total = db
+    .prepare(count.sql)
+    .pluck()
+    .get(...count.values) as number;
+  return { properties: rows.map(toPropertyPrice), total };
+}
+
+/**
+ * Fail for a tool the local backend cannot answer, rather than quietly querying the
+ * endpoint when `pricePaidBackend` is local.
+ */
+export function assertSparqlBackend(feature: string): void {
+  if (getConfig().pricePaidBackend === 'local') {
+    throw new Error(
+      `${feature} need the SPARQL endpoint and are not available with pricePaidBackend "local"`
+    );
+  }
+}
+
+/**
+ * Sales in any of `postcodes` from the local database, sorted and paged like
+ * sparqlService's searchPostcodes.
+ */
+export async function searchLocalPostcodes(
+  postcodes: string[],
+  options: QueryOptions,
+  dbOptions?: { dbPath?: string }
+): Promise<{ properties: PropertyPrice[]; total: number }> {
+  const result = searchTransactions(
+    getDb(dbOptions?.dbPath),
+    {
+      clauses: ['postcode IN (SELECT value FROM json_each(?))'],
+      values: [JSON.stringify(postcodes)],
+    },
+    options
+  );
+  logInfo('Local postcode list search completed', {
+    postcodeCount: postcodes.length,
+    total: result.total,
+  });
+  return result;
+}
+
+function distinctValues(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
+
+/**
+ * Where a local search looks for transactions and how it filters, orders and pages them,
+ * worked out before the database is opened.
+ */
+interface LocalSearch {
+  area: Conditions;
+  options: QueryOptions;
+  /** Searched instead when `area` matches nothing: the fuzzy street match. */
+  fallbackArea?: Conditions;
+  administrativeArea?: AdministrativeArea;
+  /** The sector or district searched by postcode prefix. */
+  postcodeArea?: { type: 'sector' | 'district'; code: string };
+  address?: { street: string; city: string };
+}
+
+function addressConditions(street: string, city: string): Conditions {
+  const streetCandidates = streetVariants(street);
+  const cityCandidates = placeVariants(city);
+  return {
+    clauses: [
+      `street IN (${placeholders(streetCandidates)})`,
+      `town IN (${placeholders(cityCandidates)})`,
+    ],
+    values: [...streetCandidates, ...cityCandidates],
+  };
+}
+
+function fuzzyAddressConditions(street: string, city: string): Conditions {
+  const cityCandidates = placeVariants(city);
+  const places = placeholders(cityCandidates);
+  const prefixes = streetPrefixes(street);
+  return {
+    clauses: [
+      `(town IN (${places}) OR locality IN (${places}) OR district IN (${places}))`,
+      `(${prefixes.map(() => '(street >= ? AND street < ?)').join(' OR ')})`,
+    ],
+    values: [
+      ...cityCandidates,
+      ...cityCandidates,
+      ...cityCandidates,
+      ...prefixes.flatMap(prefix => prefixRange(prefix.toUpperCase())),
+    ],
+  };
+}
+
+function planLocalSearch(params: SearchParams): LocalSearch {
+  validateSearchParams(params);
+  const normalizedParams = normalizeSearchParams(params);
+  const options: QueryOptions = {
+    minPrice: normalizedParams.minPrice,
+    maxPrice: normalizedParams.maxPrice,
+    propertyType: normalizedParams.propertyType,
+    fromDate: normalizedParams.fromDate,
+    toDate: normalizedParams.toDate,
+    estateType: normalizedParams.estateType,
+    newBuild: normalizedParams.newBuild,
+    transactionCategory: normalizedParams.transactionCategory,
+    sortBy: normalizedParams.sortBy,
+    sortOrder: normalizedParams.sortOrder,
+    limit: normalizedParams.limit ?? 10,
+    offset: normalizedParams.offset ?? 0,
+  };
+
+  // validateSearchParams rejects an administrative area alongside a postcode or street, so
+  // each branch below has every constraint the search gave
+  if (normalizedParams.district || normalizedParams.county || normalizedParams.locality) {
+    const administrativeArea: AdministrativeArea = {
+      district: normalizedParams.district && placeVariants(normalizedParams.district)[0],
+      county: normalizedParams.county && placeVariants(normalizedParams.county)[0],
+      locality: normalizedParams.locality && placeVariants(normalizedParams.locality)[0],
+      fromDate: normalizedParams.fromDate ?? EARLIEST_SALE_DATE,
+      toDate: normalizedParams.toDate ?? new Date().toISOString().slice(0, 10),
+    };
+    const area: Conditions = { clauses: [], values: [] };
+    for (const column of ['district', 'county', 'locality'] as const) {
+      const place = normalizedParams[column];
+      if (place) {
+        const variants = placeVariants(place);
+        area.clauses.push(`${column} IN (${placeholders(variants)})`);
+        area.values.push(...variants);
+      }
+    }
+    return { area, options: { ...options, ...administrativeArea }, administrativeArea };
+  }
+
+  if (normalizedParams.postcode) {
+    const postcodeArea = classifyPostcode(normalizedParams.postcode);
+    if (postcodeArea && postcodeArea.type !== 'unit') {
+      // A district's postcodes all start "SW1A "; a sector's start "SW1A 1"
+      const prefix = postcodeArea.type === 'district' ? `${postcodeArea.code} ` : postcodeArea.code;
+      return {
+        area: { clauses: ['postcode >= ?', 'postcode < ?'], values: prefixRange(prefix) },
+        options,
+        postcodeArea: { type: postcodeArea.type, code: postcodeArea.code },
+      };
+    }
+    return {
+      area: { clauses: ['postcode = ?'], values: [formatPostcode(normalizedParams.postcode)] },
+      options,
+    };
+  }
+
+  const street = normalizedParams.street!;
+  const city = normalizedParams.city!;
+  return {
+    area: addressConditions(street, city),
+    options,
+    fallbackArea: normalizedParams.fuzzy ? fuzzyAddressConditions(street, city) : undefined,
+    address: { street, city },
+  };
+}
+
+function searchAddress(
+  db: Database.Database,
+  search: LocalSearch,
+  street: string,
+  city: string
+): { properties: PropertyPrice[]; total: number; match: AddressMatch } {
+  let mode: AddressMatch['mode'] = 'exact';
+  let result = searchTransactions(db, search.area, search.options);
+  if (result.total === 0 && search.fallbackArea) {
+    mode = 'fuzzy';
+    result = searchTransactions(db, search.fallbackArea, search.options);
+  }
+
+  return {
+    ...result,
+    match: {
+      mode,
+      streetCandidates: mode === 'fuzzy' ? streetPrefixes(street) : streetVariants(street),
+      cityCandidates: placeVariants(city),
+      matchedStreets: distinctValues(result.properties.map(property => property.street)),
+      matchedCities: distinctValues(result.properties.map(property => property.city)),
+    },
+  };
+}
+
+/**
+ * Answer a `searchProperties` search from the database built by `npm run
+ * build:price-paid`. District, county and locality searches have no date range limit
+ * here; fromDate defaults to the start of the data. Sector and district postcode searches
+ * match on the postcode prefix, so they need no Code-Point database.
+ */
+export async function searchLocalPricePaid(
+  params: SearchParams,
+  options?: { dbPath?: string }
+): Promise<SearchResponse> {
+  const search = planLocalSearch(params);
+  const db = getDb(options?.dbPath);
+  const offset = search.options.offset ?? 0;
+  const limit = search.options.limit ?? 10;
+
+  if (search.administrativeArea) {
+    const result = searchTransactions(db, search.area, search.options);
+    logInfo('Local administrative area search completed', {
+      ...search.administrativeArea,
+      total: result.total,
+    });
+    return { ...result, offset, limit, administrativeArea: search.administrativeArea };
+  }
+
+  if (search.postcodeArea) {
+    const { type, code } = search.postcodeArea;
+    const result = searchTransactions(db, search.area, search.options);
+    const countQuery = postcodeCountQuery(search.area);
+    const postcodeCount = db
+      .prepare(countQuery.sql)
+      .pluck()
+      .get(...countQuery.values) as number;
+    if (postcodeCount === 0) {
+      throw new Error(`No postcodes found for ${type} ${code}`);
+    }
+    logInfo('Local postcode area search completed', { area: code, total: result.total });
+    return { ...result, offset, limit, area: { type, code, postcodeCount } };
+  }
+
+  if (!search.address) {
+    const result = searchTransactions(db, search.area, search.options);
+    logInfo('Local postcode search completed', {
+      postcode: params.postcode,
+      total: result.total,
+    });
+    return { ...result, offset, limit };
+  }
+
+  const { match, ...result } = searchAddress(
+    db,
+    search,
+    search.address.street,
+    search.address.city
+  );
+  logInfo('Local street search completed', {
+    street: search.address.street,
+    mode: match.mode,
+    total: result.total,
+  });
+  return { ...result, offset, limit, match };
+}
+
+/**
+ * The SQL `searchLocalPricePaid` would run, with its parameters written in, without
+ * opening the database. Validation errors are thrown as they would be by the search.
+ */
+export function explainLocalPricePaid(params: SearchParams): {
+  database: string;
+  queries: string[];
+  fallbackQueries: string[];
+} {
+  const search = planLocalSearch(params);
+  const { select, count } = transactionQueries(search.area, search.options);
+  const fallback = search.fallbackArea && transactionQueries(search.fallbackArea, search.options);
+  return {
+    database: resolveDbPath(),
+    queries: [select, count, ...(search.postcodeArea ? [postcodeCountQuery(search.area)] : [])].map(
+      inlineValues
+    ),
+    fallbackQueries: fallback ? [fallback.select, fallback.count].map(inlineValues) : [],
+  };
+}
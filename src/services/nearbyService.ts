@@ -0,0 +1,127 @@
+import { NearbyPropertyPrice, NearbySalesParams, NearbySalesResponse } from '../models/nearby.js';
+import {
+  getNearbyCountQuery,
+  getNearbyQuery,
+  PostcodeWithDistance,
+  QueryOptions,
+} from '../queries/queries.js';
+import { assertSparqlBackend } from './localPricePaidService.js';
+import { formatPostcode, lookupPostcodes } from './postcodeService.js';
+import {
+  comparePropertyPrices,
+  parsePropertyPrice,
+  POSTCODE_BATCH_SIZE,
+  searchInBatches,
+} from './sparqlService.js';
+import { logInfo, logWarn } from '../utils/logger.js';
+
+function compareByDistance(
+  sortOrder: 'asc' | 'desc'
+): (a: NearbyPropertyPrice, b: NearbyPropertyPrice) => number {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  const newestFirst = comparePropertyPrices('date', 'desc');
+  return (a, b) => (a.distanceMeters - b.distanceMeters) * direction || newestFirst(a, b);
+}
+
+export function nearbySortOrder(params: NearbySalesParams): 'asc' | 'desc' {
+  return params.sortOrder ?? (params.sortBy === 'distance' ? 'asc' : 'desc');
+}
+
+/**
+ * Resolve the postcodes within a radius of a postcode or easting/northing using the
+ * local Code-Point database, then search Land Registry sales across all of them.
+ */
+export async function searchNearbySales(
+  endpoint: string,
+  params: NearbySalesParams,
+  options?: { dbPath?: string }
+): Promise<NearbySalesResponse> {
+  assertSparqlBackend('Nearby sales searches');
+  if (
+    params.minPrice !== undefined &&
+    params.maxPrice !== undefined &&
+    params.minPrice > params.maxPrice
+  ) {
+    throw new Error('minPrice cannot be greater than maxPrice');
+  }
+
+  const lookup = lookupPostcodes(
+    {
+      postcode: params.postcode,
+      easting: params.easting,
+      northing: params.northing,
+      radiusMeters: params.radiusMeters,
+      limit: params.maxPostcodes,
+      includeSelf: true,
+    },
+    options
+  );
+
+  if (lookup.total > lookup.postcodes.length) {
+    logWarn('Nearby sales search truncated to the nearest postcodes', {
+      postcodesInRadius: lookup.total,
+      maxPostcodes: params.maxPostcodes,
+    });
+  }
+
+  const postcodes: PostcodeWithDistance[] = lookup.postcodes.map(record => ({
+    postcode: formatPostcode(record.postcode),
+    distanceMeters: Math.round(record.distanceMeters),
+  }));
+  const distances = new Map(postcodes.map(entry => [entry.postcode, entry.distanceMeters]));
+
+  const sortBy = params.sortBy;
+  const sortOrder = nearbySortOrder(params);
+  const queryOptions: QueryOptions = {
+    minPrice: params.minPrice,
+    maxPrice: params.maxPrice,
+    propertyType: params.propertyType,
+    fromDate: params.fromDate,
+    toDate: params.toDate,
+    estateType: params.estateType,
+    newBuild: params.newBuild,
+    transactionCategory: params.transactionCategory,
+    sortBy,
+    sortOrder,
+    limit: params.limit,
+    offset: params.offset,
+  };
+
+  const { properties, total } = await searchInBatches(endpoint, postcodes, queryOptions, {
+    batchSize: POSTCODE_BATCH_SIZE,
+    buildQuery: getNearbyQuery,
+    buildCountQuery: getNearbyCountQuery,
+    parse: binding => {
+      const property = parsePropertyPrice(binding);
+      return {
+        ...property,
+        distanceMeters: distances.get(property.postcode) ?? Number(binding.distance?.value),
+      };
+    },
+    compare:
+      sortBy === 'distance'
+        ? compareByDistance(sortOrder)
+        : comparePropertyPrices(sortBy, sortOrder),
+  });
+
+  logInfo('Nearby sales search completed', {
+    centerPostcode: lookup.center.postcode || undefined,
+    radiusMeters: params.radiusMeters,
+    postcodeCount: postcodes.length,
+    total,
+  });
+
+  return {
+    center: {
+      postcode: lookup.center.postcode ? formatPostcode(lookup.center.postcode) : undefined,
+      easting: lookup.center.easting,
+      northing: lookup.center.northing,
+    },
+    radiusMeters: params.radiusMeters,
+    postcodeCount: postcodes.length,
+    properties,
+    total,
+    offset: params.offset,
+    limit: params.limit,
+  };
+}
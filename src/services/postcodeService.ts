@@ -1,13 +1,24 @@
 import fs from 'fs';
 import path from 'path';
 import Database from 'better-sqlite3';
-import { PostcodeLookupParams, PostcodeRecord, PostcodeDistance } from '../models/postcodes.js';
+import {
+  PostcodeArea,
+  PostcodeLookupParams,
+  PostcodeRecord,
+  PostcodeDistance,
+} from '../models/postcodes.js';
 import { logInfo } from '../utils/logger.js';
+import { getConfig } from '../utils/config.js';
 
 const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'postcodes.sqlite');
 const DEFAULT_RADIUS = 5000; // meters, used when radiusMeters is not provided
 const MAX_RADIUS = 200000; // safeguard to avoid runaway expansion (200km)
 
+const OUTWARD_PATTERN = '[A-Z]{1,2}[0-9][A-Z0-9]?';
+const UNIT_REGEX = new RegExp(`^(${OUTWARD_PATTERN})\\s*([0-9][A-Z]{2})$`);
+const SECTOR_REGEX = new RegExp(`^(${OUTWARD_PATTERN})\\s+([0-9])$`);
+const DISTRICT_REGEX = new RegExp(`^(${OUTWARD_PATTERN})$`);
+
 let dbInstance: Database.Database | null = null;
 let dbPathInUse: string | null = null;
 
@@ -25,7 +36,7 @@ interface PostcodeRow {
 }
 
 function resolveDbPath(customPath?: string): string {
-  return path.resolve(customPath || process.env.POSTCODE_DB_PATH || DEFAULT_DB_PATH);
+  return path.resolve(customPath || getConfig().postcodeDbPath || DEFAULT_DB_PATH);
 }
 
 function getDb(dbPath?: string): Database.Database {
@@ -50,6 +61,63 @@ function normalizePostcode(postcode: string): string {
   return postcode.trim().toUpperCase();
 }
 
+/**
+ * Format a postcode the way Land Registry stores it: outward code, one space, inward code.
+ */
+export function formatPostcode(postcode: string): string {
+  const compact = postcode.replace(/\s+/g, '').toUpperCase();
+  if (compact.length < 5) {
+    return compact;
+  }
+  return `${compact.slice(0, -3)} ${compact.slice(-3)}`;
+}
+
+/**
+ * Code-Point Open stores postcodes in a fixed 7-character form (`SW1A1AA`, `PL6 8RU`, `B1  1AA`).
+ */
+function toCodePointFormat(postcode: string): string {
+  const compact = postcode.replace(/\s+/g, '');
+  if (compact.length < 5) {
+    return compact;
+  }
+  return `${compact.slice(0, -3).padEnd(4, ' ')}${compact.slice(-3)}`;
+}
+
+/**
+ * Work out whether the input is a full postcode, a sector (`SW1A 1`) or a district (`SW1A`).
+ * Returns null when the input does not look like any of them.
+ */
+export function classifyPostcode(input: string): PostcodeArea | null {
+  const value = normalizePostcode(input).replace(/\s+/g, ' ');
+
+  const unit = UNIT_REGEX.exec(value);
+  if (unit) {
+    return {
+      type: 'unit',
+      code: `${unit[1]} ${unit[2]}`,
+      outward: unit[1],
+      sector: `${unit[1]} ${unit[2][0]}`,
+    };
+  }
+
+  const sector = SECTOR_REGEX.exec(value);
+  if (sector) {
+    return {
+      type: 'sector',
+      code: `${sector[1]} ${sector[2]}`,
+      outward: sector[1],
+      sector: `${sector[1]} ${sector[2]}`,
+    };
+  }
+
+  const district = DISTRICT_REGEX.exec(value);
+  if (district) {
+    return { type: 'district', code: district[1], outward: district[1] };
+  }
+
+  return null;
+}
+
 function mapRow(row: PostcodeRow): PostcodeRecord {
   return {
     postcode: row.postcode,
@@ -75,13 +143,50 @@ export function getPostcodeRecord(
     .prepare(
       `SELECT postcode, positional_quality, easting, northing, country_code, nhs_regional_ha_code,
               nhs_ha_code, admin_county_code, admin_district_code, admin_ward_code
-       FROM postcodes WHERE postcode = ?`
+       FROM postcodes WHERE postcode IN (?, ?)`
     )
-    .get(normalized) as PostcodeRow | undefined;
+    .get(normalized, toCodePointFormat(normalized)) as PostcodeRow | undefined;
 
   return row ? mapRow(row) : null;
 }
 
+/**
+ * List every postcode in a district or sector, formatted as Land Registry stores them.
+ */
+export function listPostcodesInArea(area: PostcodeArea, options?: { dbPath?: string }): string[] {
+  if (area.type === 'unit') {
+    return [area.code];
+  }
+
+  const db = getDb(options?.dbPath);
+
+  // Code-Point pads outward codes to a fixed width, so range-scan on the outward
+  // code and then match the district/sector exactly once spaces are normalised
+  const rows = db
+    .prepare(
+      'SELECT postcode FROM postcodes WHERE postcode >= ? AND postcode < ? ORDER BY postcode'
+    )
+    .all(area.outward, `${area.outward}\uffff`) as Array<{ postcode: string }>;
+
+  const postcodes = rows
+    .map(row => formatPostcode(row.postcode))
+    .filter(postcode => {
+      const [outward, inward] = postcode.split(' ');
+      if (outward !== area.outward || !inward) {
+        return false;
+      }
+      return area.type === 'district' || `${outward} ${inward[0]}` === area.sector;
+    });
+
+  logInfo('Postcode area resolved', {
+    areaType: area.type,
+    area: area.code,
+    postcodeCount: postcodes.length,
+  });
+
+  return postcodes;
+}
+
 function queryByRadius(
   db: Database.Database,
   centerE: number,
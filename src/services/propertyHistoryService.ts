@@ -0,0 +1,176 @@
+import {
+  PropertyHistoryParams,
+  PropertyHistoryResponse,
+  PropertyHistorySummary,
+  PropertySaleHistoryEntry,
+} from '../models/history.js';
+import { PropertyPrice } from '../models/types.js';
+import { getPropertyHistoryQuery, PropertyAddressQuery } from '../queries/queries.js';
+import { assertSparqlBackend } from './localPricePaidService.js';
+import { formatPostcode } from './postcodeService.js';
+import { parsePropertyPrice, querySparql } from './sparqlService.js';
+import { logInfo } from '../utils/logger.js';
+
+const MAX_HISTORY_SALES = 500;
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+const MAX_LISTED_CANDIDATES = 20;
+
+export function roundTo(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function normalizeAddressPart(value?: string): string | undefined {
+  const normalized = value?.trim().replace(/\s+/g, ' ').toUpperCase();
+  return normalized || undefined;
+}
+
+/**
+ * Years between two ISO dates (only the YYYY-MM-DD part is used).
+ */
+export function yearsBetween(fromDate: string, toDate: string): number {
+  return (Date.parse(toDate.slice(0, 10)) - Date.parse(fromDate.slice(0, 10))) / MS_PER_YEAR;
+}
+
+/**
+ * Compound annual growth rate, as a percentage, or undefined when it is not meaningful.
+ */
+export function calculateAnnualisedGrowth(
+  fromPrice: number,
+  toPrice: number,
+  years: number
+): number | undefined {
+  if (fromPrice <= 0 || toPrice <= 0 || years <= 0) {
+    return undefined;
+  }
+  return ((toPrice / fromPrice) ** (1 / years) - 1) * 100;
+}
+
+/**
+ * Key identifying a single property: flat/unit, house number/name, street and postcode.
+ */
+export function propertyKey(sale: PropertyPrice): string {
+  return [sale.saon ?? '', sale.paon ?? '', sale.street, sale.postcode].join('|');
+}
+
+export function describeAddress(sale: {
+  paon?: string;
+  saon?: string;
+  street?: string;
+  postcode?: string;
+}): string {
+  const line = [sale.saon, sale.paon, sale.street].filter(Boolean).join(' ');
+  return [line, sale.postcode].filter(Boolean).join(', ');
+}
+
+/**
+ * Order a single property's sales chronologically and annotate each sale with the
+ * change since the previous one.
+ */
+export function buildSaleHistory(sales: PropertyPrice[]): PropertySaleHistoryEntry[] {
+  const ordered = [...sales].sort((a, b) => a.date.localeCompare(b.date));
+
+  return ordered.map((sale, index) => {
+    if (index === 0) {
+      return { ...sale };
+    }
+
+    const previous = ordered[index - 1];
+    const years = yearsBetween(previous.date, sale.date);
+    const growth = calculateAnnualisedGrowth(previous.price, sale.price, years);
+    return {
+      ...sale,
+      priceChange: sale.price - previous.price,
+      priceChangePercent:
+        previous.price > 0
+          ? roundTo(((sale.price - previous.price) / previous.price) * 100)
+          : undefined,
+      yearsSincePreviousSale: roundTo(years),
+      annualisedGrowthPercent: growth === undefined ? undefined : roundTo(growth),
+    };
+  });
+}
+
+export function summarizeSaleHistory(history: PropertySaleHistoryEntry[]): PropertyHistorySummary {
+  if (history.length === 0) {
+    return { saleCount: 0 };
+  }
+
+  const first = history[0];
+  const last = history[history.length - 1];
+  const summary: PropertyHistorySummary = {
+    saleCount: history.length,
+    firstSale: { date: first.date, price: first.price },
+    lastSale: { date: last.date, price: last.price },
+  };
+
+  if (history.length > 1) {
+    const growth = calculateAnnualisedGrowth(
+      first.price,
+      last.price,
+      yearsBetween(first.date, last.date)
+    );
+    summary.totalPriceChange = last.price - first.price;
+    summary.totalPriceChangePercent =
+      first.price > 0 ? roundTo(((last.price - first.price) / first.price) * 100) : undefined;
+    summary.annualisedGrowthPercent = growth === undefined ? undefined : roundTo(growth);
+  }
+
+  return summary;
+}
+
+/**
+ * Fetch the full sale history of one property identified by its PAON plus a
+ * postcode and/or street and town. Fails if the address matches several properties.
+ */
+export async function getPropertyHistory(
+  endpoint: string,
+  params: PropertyHistoryParams
+): Promise<PropertyHistoryResponse> {
+  assertSparqlBackend('Property histories');
+  const address: PropertyAddressQuery = {
+    paon: normalizeAddressPart(params.paon)!,
+    saon: normalizeAddressPart(params.saon),
+    noSaon: params.noSaon,
+    street: normalizeAddressPart(params.street),
+    town: normalizeAddressPart(params.town),
+    postcode: params.postcode ? formatPostcode(params.postcode) : undefined,
+  };
+
+  const results = await querySparql(endpoint, getPropertyHistoryQuery(address, MAX_HISTORY_SALES));
+  const sales = results.map(parsePropertyPrice);
+  if (sales.length === 0) {
+    throw new Error(`No sales found for ${describeAddress(address)}`);
+  }
+
+  const properties = new Map<string, PropertyPrice>();
+  sales.forEach(sale => properties.set(propertyKey(sale), sale));
+  if (properties.size > 1) {
+    const candidates = [...properties.values()]
+      .slice(0, MAX_LISTED_CANDIDATES)
+      .map(sale => describeAddress(sale));
+    throw new Error(
+      `${properties.size} properties match ${describeAddress(address)}; narrow the search with saon (or noSaon), street or postcode. Matches: ${candidates.join('; ')}`
+    );
+  }
+
+  const history = buildSaleHistory(sales);
+  const latest = history[history.length - 1];
+
+  logInfo('Property history retrieved', {
+    address: describeAddress(latest),
+    saleCount: history.length,
+  });
+
+  return {
+    address: {
+      paon: latest.paon ?? address.paon,
+      saon: latest.saon,
+      street: latest.street,
+      town: latest.city,
+      postcode: latest.postcode,
+    },
+    sales: history,
+    summary: summarizeSaleHistory(history),
+  };
+}
@@ -0,0 +1,214 @@
+import { MAX_AREA_SALES } from '../models/area.js';
+import { NearbySalesParams } from '../models/nearby.js';
+import { QueryPlan, SearchParams } from '../models/types.js';
+import { explainLocalPricePaid } from './localPricePaidService.js';
+import { nearbySortOrder, searchNearbySales } from './nearbyService.js';
+import {
+  classifyPostcode,
+  formatPostcode,
+  listPostcodesInArea,
+  lookupPostcodes,
+} from './postcodeService.js';
+import { POSTCODE_BATCH_SIZE, recordSparqlQueries, searchProperties } from './sparqlService.js';
+import { placeVariants, streetVariants } from '../utils/addressNormalizer.js';
+import { MAX_SEARCH_LIMIT, normalizeSearchParams } from '../utils/searchParams.js';
+import { getConfig } from '../utils/config.js';
+import { logInfo } from '../utils/logger.js';
+import { EXTREME_PRICE_RATIO, MIN_PLAUSIBLE_PRICE } from '../utils/outliers.js';
+
+/**
+ * Record the queries a search sends, first as if every COUNT found matches and then as
+ * if none did; queries only seen in the second run are the no-match fallbacks.
+ */
+export async function planQueries(
+  run: () => Promise<unknown>
+): Promise<Pick<QueryPlan, 'queries' | 'fallbackQueries'>> {
+  const queries = await recordSparqlQueries(run, 1);
+  const unmatched = await recordSparqlQueries(run, 0);
+  return { queries, fallbackQueries: unmatched.filter(query => !queries.includes(query)) };
+}
+
+function describeBatchMerge(
+  sortBy: string,
+  sortOrder: string,
+  offset: number,
+  limit: number
+): string {
+  return `Merge the batches, sort by ${sortBy} ${sortOrder} and keep results ${offset + 1}-${offset + limit}; total is the sum of the batch counts`;
+}
+
+function describeOutlierSteps(
+  params: { flagOutliers?: boolean; excludeOutliers?: boolean },
+  batched = false
+) {
+  if (!params.flagOutliers && !params.excludeOutliers) {
+    return [];
+  }
+  const fetched = batched ? 'from each batch in one pass' : `in pages of ${MAX_SEARCH_LIMIT}`;
+  const steps = [
+    `Fetch every matching sale (at most ${MAX_AREA_SALES.toLocaleString('en-GB')}) ${fetched}, then flag those that are category B, under £${MIN_PLAUSIBLE_PRICE.toLocaleString('en-GB')}, or more than ${EXTREME_PRICE_RATIO}x from the median of all matching sales for their property type and year`,
+  ];
+  if (params.excludeOutliers) {
+    steps.push(
+      'Drop the flagged sales, count them in outliersExcluded and leave them out of total'
+    );
+  }
+  steps.push('Keep the requested page of the remaining sales');
+  return steps;
+}
+
+/**
+ * The SQL a search answered from the local price-paid database would run: the page of
+ * sales in order, its count and any fuzzy street fallback.
+ */
+function explainLocalSearch(endpoint: string, searchParams: SearchParams): QueryPlan {
+  const parameters = normalizeSearchParams(searchParams);
+  const checksOutliers = parameters.flagOutliers || parameters.excludeOutliers;
+  const { database, queries, fallbackQueries } = explainLocalPricePaid(
+    checksOutliers ? { ...searchParams, limit: MAX_SEARCH_LIMIT, offset: 0 } : searchParams
+  );
+
+  const processing = [
+    `Run the queries against the local price-paid database at ${database} (pricePaidBackend "local"); nothing is sent to the endpoint`,
+  ];
+  const area = parameters.postcode ? classifyPostcode(parameters.postcode) : null;
+  if (area && area.type !== 'unit') {
+    processing.push(
+      `Match ${area.type} ${area.code} on the postcode prefix; postcodeCount counts only its postcodes with sales`
+    );
+  } else if (parameters.street && parameters.city) {
+    processing.push(
+      `Match any of ${streetVariants(parameters.street).length} street and ${placeVariants(parameters.city).length} town spellings`
+    );
+    if (parameters.fuzzy) {
+      processing.push(
+        'If nothing matches, retry with a street-name prefix match across town, locality and district (fallbackQueries)'
+      );
+    }
+    processing.push('List the street and town names found under match');
+  }
+  processing.push('Turn each row into a sale', ...describeOutlierSteps(parameters));
+
+  logInfo('Local search dry run', { queryCount: queries.length + fallbackQueries.length });
+  return {
+    dryRun: true,
+    endpoint,
+    database,
+    parameters: Object.fromEntries(
+      Object.entries(parameters).filter(([, value]) => value !== undefined)
+    ),
+    queries,
+    fallbackQueries,
+    processing,
+  };
+}
+
+/**
+ * The queries and post-processing `searchProperties` would use, without calling the
+ * endpoint. Validation errors are thrown as they would be by the search itself.
+ */
+export async function explainSearchProperties(
+  endpoint: string,
+  params: SearchParams
+): Promise<QueryPlan> {
+  const searchParams = { ...params, dryRun: undefined };
+  if (getConfig().pricePaidBackend === 'local') {
+    return explainLocalSearch(endpoint, searchParams);
+  }
+
+  const { queries, fallbackQueries } = await planQueries(() =>
+    searchProperties(endpoint, searchParams)
+  );
+  const parameters = normalizeSearchParams(searchParams);
+  const offset = parameters.offset ?? 0;
+  const limit = parameters.limit ?? 10;
+  const sortBy = parameters.sortBy ?? 'date';
+  const sortOrder = parameters.sortOrder ?? 'desc';
+
+  const checksOutliers = Boolean(parameters.flagOutliers || parameters.excludeOutliers);
+
+  const processing = ['Parse each result row into a sale'];
+  const area = parameters.postcode ? classifyPostcode(parameters.postcode) : null;
+  let batched = false;
+  if (area && area.type !== 'unit') {
+    batched = true;
+    const postcodeCount = listPostcodesInArea(area).length;
+    processing.unshift(
+      `Expand ${area.type} ${area.code} to its ${postcodeCount} postcodes from the local Code-Point database and query them in batches of ${POSTCODE_BATCH_SIZE}`
+    );
+    processing.push(
+      checksOutliers
+        ? describeBatchMerge(sortBy, sortOrder, 0, MAX_AREA_SALES)
+        : describeBatchMerge(sortBy, sortOrder, offset, limit)
+    );
+  } else if (parameters.street && parameters.city) {
+    processing.unshift(
+      `Match any of ${streetVariants(parameters.street).length} street and ${placeVariants(parameters.city).length} town spellings in one query`
+    );
+    processing.push('List the street and town names found under match');
+    if (parameters.fuzzy) {
+      processing.push(
+        'If nothing matches, retry with a street-name prefix match across town, locality and district (fallbackQueries)'
+      );
+    }
+  }
+  processing.push(...describeOutlierSteps(parameters, batched));
+
+  logInfo('Search dry run', { queryCount: queries.length + fallbackQueries.length });
+  return {
+    dryRun: true,
+    endpoint,
+    parameters: Object.fromEntries(
+      Object.entries(parameters).filter(([, value]) => value !== undefined)
+    ),
+    queries,
+    fallbackQueries,
+    processing,
+  };
+}
+
+/**
+ * The postcodes, queries and post-processing `searchNearbySales` would use, without
+ * calling the endpoint.
+ */
+export async function explainNearbySales(
+  endpoint: string,
+  params: NearbySalesParams,
+  options?: { dbPath?: string }
+): Promise<QueryPlan> {
+  const searchParams = { ...params, dryRun: undefined };
+  const { queries, fallbackQueries } = await planQueries(() =>
+    searchNearbySales(endpoint, searchParams, options)
+  );
+  const lookup = lookupPostcodes(
+    {
+      postcode: params.postcode,
+      easting: params.easting,
+      northing: params.northing,
+      radiusMeters: params.radiusMeters,
+      limit: params.maxPostcodes,
+      includeSelf: true,
+    },
+    options
+  );
+  const sortOrder = nearbySortOrder(params);
+  const center = lookup.center.postcode
+    ? formatPostcode(lookup.center.postcode)
+    : `${lookup.center.easting},${lookup.center.northing}`;
+
+  logInfo('Nearby sales dry run', { queryCount: queries.length });
+  return {
+    dryRun: true,
+    endpoint,
+    parameters: Object.fromEntries(
+      Object.entries({ ...searchParams, sortOrder }).filter(([, value]) => value !== undefined)
+    ),
+    queries,
+    fallbackQueries,
+    processing: [
+      `Find the ${lookup.postcodes.length} nearest postcodes (of ${lookup.total}) within ${params.radiusMeters}m of ${center} in the local Code-Point database and query them in batches of ${POSTCODE_BATCH_SIZE}`,
+      'Parse each result row into a sale and add its postcode distance as distanceMeters',
+      describeBatchMerge(params.sortBy, sortOrder, params.offset, params.limit),
+    ],
+  };
+}
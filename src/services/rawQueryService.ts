@@ -0,0 +1,175 @@
+import {
+  RawQueryForm,
+  RawQueryParams,
+  RawQueryResponse,
+  RawQueryRules,
+} from '../models/rawQuery.js';
+import { askSparql, querySparql } from './sparqlService.js';
+import { logInfo } from '../utils/logger.js';
+import { getConfig } from '../utils/config.js';
+
+type RawBinding = NonNullable<RawQueryResponse['bindings']>[number];
+
+// Strings, IRIs and comments, which may contain anything that looks like a keyword
+const OPAQUE_TOKENS =
+  /"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|<[^<>"{}|^`\\\s]*>|#[^\n]*/g;
+
+// Keywords that only appear in SPARQL Update requests; not variables or prefixed names
+const UPDATE_KEYWORDS =
+  /(?<![?$:\w-])(INSERT|DELETE|LOAD|CLEAR|CREATE|DROP|COPY|MOVE|ADD|WITH)(?![\w:-])/i;
+const SERVICE_KEYWORD = /(?<![?$:\w-])SERVICE(?![\w:-])/i;
+const CODEPOINT_ESCAPE = /\\u([0-9A-Fa-f]{4})|\\U([0-9A-Fa-f]{8})/g;
+// Braces, and the VALUES keyword that starts a query's trailing data block
+const TOP_LEVEL_TOKENS = /[{}]|(?<![?$:\w-])VALUES(?![\w:-])/gi;
+
+/**
+ * The query with `\uXXXX` and `\UXXXXXXXX` escapes replaced by their characters. SPARQL
+ * decodes these anywhere in the query before parsing, so keywords can hide behind them.
+ */
+function decodeCodepointEscapes(query: string): string {
+  return query.replace(CODEPOINT_ESCAPE, (escape, short: string, long: string) => {
+    const codePoint = parseInt(short ?? long, 16);
+    if (codePoint > 0x10ffff) {
+      throw new Error(`Invalid codepoint escape ${escape}`);
+    }
+    return String.fromCodePoint(codePoint);
+  });
+}
+
+/**
+ * The query with strings, IRIs and comments blanked out, for keyword checks.
+ */
+export function maskOpaqueTokens(query: string): string {
+  return query.replace(OPAQUE_TOKENS, token => {
+    if (token.startsWith('#')) {
+      return ' ';
+    }
+    return token.startsWith('<') ? '<>' : '""';
+  });
+}
+
+/**
+ * SELECT, ASK, CONSTRUCT or DESCRIBE after any PREFIX and BASE declarations.
+ */
+export function queryForm(masked: string): string | undefined {
+  const body = masked.replace(/^\s*(?:(?:PREFIX\s+[\w.-]*:\s*<>|BASE\s*<>)\s*)*/i, '');
+  return /^(SELECT|ASK|CONSTRUCT|DESCRIBE)\b/i.exec(body)?.[1].toUpperCase();
+}
+
+/**
+ * Where the query's trailing VALUES clause starts, if it has one. It is the only VALUES
+ * outside every brace; inline data blocks sit inside the WHERE clause.
+ */
+function trailingValuesIndex(query: string): number | undefined {
+  const code: Array<{ start: number; text: string }> = [];
+  let start = 0;
+  for (const token of query.matchAll(OPAQUE_TOKENS)) {
+    code.push({ start, text: query.slice(start, token.index) });
+    start = token.index! + token[0].length;
+  }
+  code.push({ start, text: query.slice(start) });
+
+  let depth = 0;
+  for (const segment of code) {
+    for (const match of segment.text.matchAll(TOP_LEVEL_TOKENS)) {
+      if (match[0] === '{') {
+        depth++;
+      } else if (match[0] === '}') {
+        depth--;
+      } else if (depth === 0) {
+        return segment.start + match.index!;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check a client query against the rules and return the query to send, with codepoint
+ * escapes decoded and a LIMIT added to SELECT queries that have none at the top level.
+ */
+export function guardQuery(
+  rawQuery: string,
+  rules: RawQueryRules,
+  requestedLimit?: number
+): { form: RawQueryForm; query: string; limit?: number } {
+  const query = decodeCodepointEscapes(rawQuery);
+  const masked = maskOpaqueTokens(query);
+
+  const update = UPDATE_KEYWORDS.exec(masked);
+  if (update) {
+    throw new Error(`Only read-only queries are allowed; found ${update[1].toUpperCase()}`);
+  }
+  if (!rules.allowService && SERVICE_KEYWORD.test(masked)) {
+    throw new Error('SERVICE clauses are not allowed');
+  }
+
+  const detected = queryForm(masked);
+  if (!detected || !rules.allowedForms.includes(detected as RawQueryForm)) {
+    throw new Error(
+      `Query must be ${rules.allowedForms.join(' or ')}${detected ? `, not ${detected}` : ''}`
+    );
+  }
+  const form = detected as RawQueryForm;
+  if (form === 'ASK') {
+    return { form, query };
+  }
+
+  if (requestedLimit !== undefined && requestedLimit > rules.maxLimit) {
+    throw new Error(`limit cannot exceed ${rules.maxLimit}`);
+  }
+
+  // Solution modifiers for the whole query follow its last closing brace, before any
+  // trailing VALUES clause
+  const valuesAt = trailingValuesIndex(query) ?? query.length;
+  const head = maskOpaqueTokens(query.slice(0, valuesAt));
+  const modifiers = head.slice(head.lastIndexOf('}') + 1);
+  const explicitLimit = /\bLIMIT\s+(\d+)/i.exec(modifiers);
+  if (explicitLimit) {
+    const limit = Number(explicitLimit[1]);
+    if (limit > rules.maxLimit) {
+      throw new Error(`LIMIT ${limit} exceeds the maximum of ${rules.maxLimit}`);
+    }
+    return { form, query, limit };
+  }
+
+  const limit = requestedLimit ?? rules.maxLimit;
+  const values = query.slice(valuesAt).trim();
+  return {
+    form,
+    query: `${query.slice(0, valuesAt).trimEnd()}\nLIMIT ${limit}${values && `\n${values}`}`,
+    limit,
+  };
+}
+
+/**
+ * Run a client-supplied read-only SELECT or ASK query under the safety rules.
+ */
+export async function runSparql(
+  endpoint: string,
+  params: RawQueryParams,
+  rules: RawQueryRules = getConfig().runSparql
+): Promise<RawQueryResponse> {
+  const guarded = guardQuery(params.query, rules, params.limit);
+  // Not retried, so timeoutMs bounds the whole request rather than each attempt
+  const options = {
+    timeoutMs: Math.min(params.timeoutMs ?? rules.timeoutMs, rules.timeoutMs),
+    maxRetries: 0,
+  };
+
+  if (guarded.form === 'ASK') {
+    const answer = await askSparql(endpoint, guarded.query, options);
+    logInfo('Raw SPARQL query completed', { form: guarded.form, boolean: answer });
+    return { form: guarded.form, query: guarded.query, resultCount: 1, boolean: answer };
+  }
+
+  const bindings = await querySparql<RawBinding>(endpoint, guarded.query, options);
+  logInfo('Raw SPARQL query completed', { form: guarded.form, resultCount: bindings.length });
+  return {
+    form: guarded.form,
+    query: guarded.query,
+    limit: guarded.limit,
+    resultCount: bindings.length,
+    bindings,
+  };
+}
@@ -0,0 +1,132 @@
+import {
+  PropertyRepeatSales,
+  RepeatSalePair,
+  RepeatSalesParams,
+  RepeatSalesResponse,
+  RepeatSalesSummary,
+} from '../models/repeatSales.js';
+import { PropertyPrice } from '../models/types.js';
+import { collectAreaSales } from './areaSalesService.js';
+import {
+  buildSaleHistory,
+  describeAddress,
+  propertyKey,
+  roundTo,
+} from './propertyHistoryService.js';
+import { median } from './statisticsService.js';
+import { logInfo } from '../utils/logger.js';
+
+/**
+ * Group sales into per-property histories and pair each sale with the one before it,
+ * keeping pairs held for at least `minHoldingYears`. Properties sold once are dropped.
+ */
+export function groupRepeatSales(
+  sales: PropertyPrice[],
+  minHoldingYears = 0
+): PropertyRepeatSales[] {
+  const byProperty = new Map<string, PropertyPrice[]>();
+  sales.forEach(sale => {
+    const key = propertyKey(sale);
+    byProperty.set(key, [...(byProperty.get(key) ?? []), sale]);
+  });
+
+  const properties: PropertyRepeatSales[] = [];
+  byProperty.forEach(propertySales => {
+    if (propertySales.length < 2) {
+      return;
+    }
+    const history = buildSaleHistory(propertySales);
+    const pairs: RepeatSalePair[] = history
+      .slice(1)
+      .map((sale, index) => ({
+        fromDate: history[index].date,
+        fromPrice: history[index].price,
+        toDate: sale.date,
+        toPrice: sale.price,
+        holdingYears: sale.yearsSincePreviousSale!,
+        priceChange: sale.priceChange!,
+        priceChangePercent: sale.priceChangePercent,
+        annualisedReturnPercent: sale.annualisedGrowthPercent,
+      }))
+      .filter(pair => pair.holdingYears >= minHoldingYears);
+    if (pairs.length === 0) {
+      return;
+    }
+
+    const latest = history[history.length - 1];
+    properties.push({
+      address: describeAddress(latest),
+      paon: latest.paon,
+      saon: latest.saon,
+      street: latest.street,
+      postcode: latest.postcode,
+      propertyType: latest.propertyType,
+      saleCount: history.length,
+      pairs,
+    });
+  });
+
+  return properties.sort((a, b) =>
+    b.pairs[b.pairs.length - 1].toDate.localeCompare(a.pairs[a.pairs.length - 1].toDate)
+  );
+}
+
+export function summarizeRepeatSales(properties: PropertyRepeatSales[]): RepeatSalesSummary {
+  const pairs = properties.flatMap(property => property.pairs);
+  const summary: RepeatSalesSummary = { propertyCount: properties.length, pairCount: pairs.length };
+  if (pairs.length === 0) {
+    return summary;
+  }
+
+  const defined = (values: Array<number | undefined>) =>
+    values.filter((value): value is number => value !== undefined);
+  const changes = defined(pairs.map(pair => pair.priceChangePercent));
+  const returns = defined(pairs.map(pair => pair.annualisedReturnPercent));
+
+  summary.medianHoldingYears = roundTo(median(pairs.map(pair => pair.holdingYears)));
+  if (changes.length > 0) {
+    summary.medianPriceChangePercent = roundTo(median(changes));
+  }
+  if (returns.length > 0) {
+    summary.medianAnnualisedReturnPercent = roundTo(median(returns));
+    summary.meanAnnualisedReturnPercent = roundTo(
+      returns.reduce((sum, value) => sum + value, 0) / returns.length
+    );
+  }
+  summary.lossPercent = roundTo(
+    (pairs.filter(pair => pair.priceChange < 0).length / pairs.length) * 100
+  );
+  return summary;
+}
+
+/**
+ * Properties in an area that sold more than once, with the holding period and return
+ * between each pair of sales and area-wide aggregates. Only sales inside the selection's
+ * date range (and within `maxSales`) can be paired.
+ */
+export async function getRepeatSales(
+  endpoint: string,
+  params: RepeatSalesParams,
+  options?: { dbPath?: string }
+): Promise<RepeatSalesResponse> {
+  const { area, sales, total, truncated } = await collectAreaSales(endpoint, params, options);
+  const properties = groupRepeatSales(sales, params.minHoldingYears);
+  const summary = summarizeRepeatSales(properties);
+
+  logInfo('Repeat sales analysed', {
+    area: area.label,
+    salesAnalysed: sales.length,
+    propertyCount: summary.propertyCount,
+    pairCount: summary.pairCount,
+  });
+
+  return {
+    area,
+    total,
+    salesAnalysed: sales.length,
+    truncated,
+    minHoldingYears: params.minHoldingYears,
+    summary,
+    properties: properties.slice(0, params.limit),
+  };
+}
@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Config } from '../models/config.js';
+
+const DEFAULT_CACHE_PATH = path.join(os.homedir(), '.property-prices-mcp', 'sparql-cache.sqlite');
+
+// Strings (including long ones) and IRIs are kept verbatim; whitespace and comments
+// elsewhere do not change a query's meaning
+const QUERY_TOKENS =
+  /"""[\s\S]*?"""|'''[\s\S]*?'''|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|<[^<>"{}|^`\\\s]*>|(?:\s|#[^\n]*)+/g;
+
+export type SparqlCacheSettings = Pick<
+  Config,
+  'cachePath' | 'cacheTtlSeconds' | 'cacheMaxMegabytes'
+>;
+
+let cacheDb: Database.Database | null = null;
+let cachePathInUse: string | null = null;
+
+function getCacheDb(settings: SparqlCacheSettings): Database.Database {
+  const resolvedPath = path.resolve(settings.cachePath || DEFAULT_CACHE_PATH);
+  if (cacheDb && cachePathInUse === resolvedPath) {
+    return cacheDb;
+  }
+
+  cacheDb?.close();
+  fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+  cacheDb = new Database(resolvedPath);
+  cacheDb.pragma('journal_mode = WAL');
+  cacheDb.exec(`
+    CREATE TABLE IF NOT EXISTS sparql_cache (
+      key TEXT PRIMARY KEY,
+      endpoint TEXT NOT NULL,
+      query TEXT NOT NULL,
+      body TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      accessed_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS sparql_cache_accessed_at ON sparql_cache (accessed_at);
+  `);
+  cachePathInUse = resolvedPath;
+  return cacheDb;
+}
+
+/**
+ * Close the cache database, e.g. before removing it.
+ */
+export function closeSparqlCache(): void {
+  cacheDb?.close();
+  cacheDb = null;
+  cachePathInUse = null;
+}
+
+/**
+ * Query text with comments dropped and runs of whitespace outside strings and IRIs
+ * collapsed to one space.
+ */
+export function normalizeQueryText(query: string): string {
+  return query.replace(QUERY_TOKENS, token => (/^[\s#]/.test(token) ? ' ' : token)).trim();
+}
+
+export function sparqlCacheKey(endpoint: string, query: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${endpoint}\n${normalizeQueryText(query)}`)
+    .digest('hex');
+}
+
+/**
+ * The cached response for a key if it is younger than the TTL. Expired entries are removed.
+ */
+export function readCachedResponse<T>(
+  key: string,
+  settings: SparqlCacheSettings,
+  now = Date.now()
+): T | undefined {
+  const db = getCacheDb(settings);
+  const row = db.prepare('SELECT body, created_at FROM sparql_cache WHERE key = ?').get(key) as
+    | { body: string; created_at: number }
+    | undefined;
+  if (!row) {
+    return undefined;
+  }
+  if (now - row.created_at > settings.cacheTtlSeconds * 1000) {
+    db.prepare('DELETE FROM sparql_cache WHERE key = ?').run(key);
+    return undefined;
+  }
+  db.prepare('UPDATE sparql_cache SET accessed_at = ? WHERE key = ?').run(now, key);
+  return JSON.parse(row.body) as T;
+}
+
+/**
+ * Store a response, then drop expired entries and the least recently used ones until the
+ * cache fits within its size limit.
+ */
+export function storeCachedResponse(
+  key: string,
+  entry: { endpoint: string; query: string; response: unknown },
+  settings: SparqlCacheSettings,
+  now = Date.now()
+): void {
+  const db = getCacheDb(settings);
+  const body = JSON.stringify(entry.response);
+  const maxBytes = settings.cacheMaxMegabytes * 1024 * 1024;
+  const size = Buffer.byteLength(body);
+  if (size > maxBytes) {
+    return;
+  }
+
+  db.transaction(() => {
+    db.prepare(
+      `INSERT OR REPLACE INTO sparql_cache (key, endpoint, query, body, size, created_at, accessed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(key, entry.endpoint, entry.query, body, size, now, now);
+    db.prepare('DELETE FROM sparql_cache WHERE created_at < ?').run(
+      now - settings.cacheTtlSeconds * 1000
+    );
+
+    let total = db
+      .prepare('SELECT COALESCE(SUM(size), 0) FROM sparql_cache')
+      .pluck()
+      .get() as number;
+    const oldest = db
+      .prepare('SELECT key, size FROM sparql_cache WHERE key != ? ORDER BY accessed_at')
+      .iterate(key) as IterableIterator<{ key: string; size: number }>;
+    const evict = db.prepare('DELETE FROM sparql_cache WHERE key = ?');
+    const evicted: string[] = [];
+    for (const row of oldest) {
+      if (total <= maxBytes) {
+        break;
+      }
+      evicted.push(row.key);
+      total -= row.size;
+    }
+    evicted.forEach(evictedKey => evict.run(evictedKey));
+  })();
+}
@@ -1,14 +1,54 @@
-import { SearchParams, SearchResponse, PropertyPrice, PropertyType } from '../models/types.js';
-import { getPostcodeQuery, getAddressQuery, addDateFilters } from '../queries/queries.js';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import {
+  SearchParams,
+  SearchResponse,
+  PropertyPrice,
+  PropertyType,
+  EstateType,
+  TransactionCategory,
+  AddressMatch,
+  AdministrativeArea,
+  CacheMode,
+} from '../models/types.js';
+import {
+  getPostcodeQuery,
+  getPostcodeCountQuery,
+  getAddressQuery,
+  getAddressCountQuery,
+  getFuzzyAddressQuery,
+  getFuzzyAddressCountQuery,
+  getAdministrativeAreaQuery,
+  getAdministrativeAreaCountQuery,
+  QueryFilters,
+  QueryOptions,
+  ESTATE_TYPE_URIS,
+} from '../queries/queries.js';
+import { classifyPostcode, listPostcodesInArea } from './postcodeService.js';
+import { searchLocalPostcodes, searchLocalPricePaid } from './localPricePaidService.js';
 import {
   logSparqlRequest,
   logSparqlResponse,
   logSparqlError,
   logInfo,
   logWarn,
+  logSparqlCache,
 } from '../utils/logger.js';
+import { placeVariants, streetPrefixes, streetVariants } from '../utils/addressNormalizer.js';
+import { flagOutliers } from '../utils/outliers.js';
+import { getConfig } from '../utils/config.js';
+import {
+  MAX_SEARCH_LIMIT,
+  normalizeSearchParams,
+  validateSearchParams,
+} from '../utils/searchParams.js';
+import { Config } from '../models/config.js';
+import { MAX_AREA_SALES } from '../models/area.js';
+import { PostcodeArea } from '../models/postcodes.js';
+import { readCachedResponse, sparqlCacheKey, storeCachedResponse } from './sparqlCacheService.js';
+import { isRetryableStatus, parseRetryAfter, retryDelayMs, sleep } from '../utils/retry.js';
+import { createRequestScheduler, RequestScheduler } from '../utils/scheduler.js';
 
-interface SparqlBinding {
+export interface SparqlBinding {
   amount?: { value: string };
   date?: { value: string };
   postcode?: { value: string };
@@ -22,15 +62,131 @@ interface SparqlBinding {
   estateType?: { value: string };
   newBuild?: { value: string };
   count?: { value: string };
+  distance?: { value: string };
+  transactionId?: { value: string };
+  recordStatus?: { value: string };
+  locality?: { value: string };
+  district?: { value: string };
 }
 
-interface SparqlResponse {
-  results: {
-    bindings: SparqlBinding[];
+const MAX_AREA_SEARCH_DAYS = 366; // date range cap for district/county/locality searches
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+export const POSTCODE_BATCH_SIZE = 200; // postcodes per VALUES list when searching many postcodes
+
+interface SparqlResponse<B> {
+  results?: {
+    bindings: B[];
   };
+  /** Present instead of `results` for ASK queries. */
+  boolean?: boolean;
+}
+
+export interface SparqlRequestOptions {
+  /** Abort each attempt after this many milliseconds; defaults to the configured `sparqlTimeoutMs`. */
+  timeoutMs?: number;
+  /** Retries after a transient failure; defaults to the configured `sparqlMaxRetries`. */
+  maxRetries?: number;
+  /** Cancels the request, including any retries; defaults to the tool call's, set by `withToolCall`. */
+  signal?: AbortSignal;
+  /** Skip or refresh the response cache; defaults to the mode set by `withCacheMode`. */
+  cache?: CacheMode;
+}
+
+interface DryRun {
+  queries: string[];
+  /** Count reported for every COUNT query, so later queries that depend on it run. */
+  assumedCount: number;
+}
+
+const dryRunContext = new AsyncLocalStorage<DryRun>();
+
+/** The MCP tool call SPARQL requests are made for. */
+export interface ToolCall {
+  /** Requests queue per id and take turns with other tool calls' requests. */
+  id: string;
+  /** Cancels the call's requests when it aborts, e.g. when the client cancels the call. */
+  signal?: AbortSignal;
+}
+
+const toolCallContext = new AsyncLocalStorage<ToolCall>();
+
+/**
+ * Run `run` on behalf of a tool call, so that its SPARQL requests are queued fairly
+ * against other calls' and cancelled along with it.
+ */
+export function withToolCall<T>(call: ToolCall, run: () => Promise<T>) {
+  return toolCallContext.run(call, run);
+}
+
+let scheduler: RequestScheduler | undefined;
+let schedulerSettings: string | undefined;
+
+/**
+ * The scheduler shared by every request to the endpoint, reconfigured in place if its
+ * settings change so requests already running still count against the new limits.
+ */
+function getScheduler(config: Config): RequestScheduler {
+  const options = {
+    maxConcurrent: config.sparqlMaxConcurrency,
+    requestsPerSecond: config.sparqlRequestsPerSecond,
+    maxQueued: config.sparqlMaxQueuedRequests,
+  };
+  const settings = JSON.stringify(options);
+  if (!scheduler) {
+    scheduler = createRequestScheduler(options);
+  } else if (settings !== schedulerSettings) {
+    scheduler.configure(options);
+  }
+  schedulerSettings = settings;
+  return scheduler;
+}
+
+const cacheModeContext = new AsyncLocalStorage<CacheMode>();
+
+/** A request shared by every identical query in flight at the same time. */
+interface SharedRequest {
+  response: Promise<SparqlResponse<unknown>>;
+  /** Aborts the request once no caller is waiting for it. */
+  controller: AbortController;
+  waiters: number;
+}
+
+const inFlightRequests = new Map<string, SharedRequest>();
+
+/**
+ * Run `run` with every SPARQL request it makes bypassing or refreshing the response cache.
+ */
+export function withCacheMode<T>(mode: CacheMode | undefined, run: () => Promise<T>) {
+  return mode ? cacheModeContext.run(mode, run) : run();
+}
+
+/**
+ * Run a search without contacting the endpoint and return the queries it would send.
+ * Every query answers with no rows and every COUNT with `assumedCount`.
+ */
+export async function recordSparqlQueries(
+  run: () => Promise<unknown>,
+  assumedCount: number
+): Promise<string[]> {
+  const dryRun: DryRun = { queries: [], assumedCount };
+  await dryRunContext.run(dryRun, run);
+  return dryRun.queries;
 }
 
-export async function querySparql(endpoint: string, query: string): Promise<SparqlBinding[]> {
+type SparqlAttempt<B> =
+  | { data: SparqlResponse<B> }
+  | { error: Error; retryable: boolean; retryAfterMs?: number };
+
+/**
+ * Send one SPARQL request. Failures are returned, marked retryable for timeouts, network
+ * errors and for 408, 425, 429, 500, 502, 503 and 504 responses, rather than thrown.
+ */
+async function attemptSparqlRequest<B>(
+  endpoint: string,
+  query: string,
+  timeoutMs: number,
+  cancelSignal?: AbortSignal
+): Promise<SparqlAttempt<B>> {
   const params = new URLSearchParams();
   params.append('query', query);
   const body = params.toString();
@@ -46,6 +202,7 @@ export async function querySparql(endpoint: string, query: string): Promise<Spar
       query,
     });
 
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
     const response = await fetch(endpoint, {
       method: 'POST',
       headers: {
@@ -53,6 +210,7 @@ export async function querySparql(endpoint: string, query: string): Promise<Spar
         Accept: 'application/sparql-results+json',
       },
       body,
+      signal: cancelSignal ? AbortSignal.any([timeoutSignal, cancelSignal]) : timeoutSignal,
     });
 
     responseStatus = response.status;
@@ -71,13 +229,18 @@ export async function querySparql(endpoint: string, query: string): Promise<Spar
         error: errorMessage,
       });
 
-      throw new Error(errorMessage);
+      return {
+        error: new Error(errorMessage),
+        retryable: isRetryableStatus(response.status),
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      };
     }
 
-    const data = (await response.json()) as SparqlResponse;
+    const data = (await response.json()) as SparqlResponse<B>;
+    const bindings = data.results?.bindings ?? [];
 
     // Extract a sample binding for logging purposes
-    const sampleBinding = data.results.bindings.length > 0 ? data.results.bindings[0] : null;
+    const sampleBinding = bindings.length > 0 ? bindings[0] : null;
 
     // Log the successful response with sample data
     logSparqlResponse('SPARQL response received', {
@@ -85,27 +248,282 @@ export async function querySparql(endpoint: string, query: string): Promise<Spar
       query,
       responseStatus,
       responseTime,
-      resultCount: data.results.bindings.length,
-      sampleRawData: sampleBinding ? JSON.stringify(sampleBinding) : 'No results',
+      resultCount: data.boolean === undefined ? bindings.length : 1,
+      sampleRawData: sampleBinding
+        ? JSON.stringify(sampleBinding)
+        : data.boolean !== undefined
+          ? String(data.boolean)
+          : 'No results',
     });
 
-    return data.results.bindings;
+    return { data };
   } catch (error) {
     responseTime = Date.now() - startTime;
 
+    // Timeouts and network failures (TypeErrors from fetch) may pass; anything else is not
+    // worth repeating
+    const failure = cancelSignal?.aborted
+      ? { error: new Error('SPARQL request cancelled'), retryable: false }
+      : error instanceof Error && error.name === 'TimeoutError'
+        ? { error: new Error(`SPARQL request timed out after ${timeoutMs}ms`), retryable: true }
+        : {
+            error: error instanceof Error ? error : new Error(String(error)),
+            retryable: error instanceof TypeError,
+          };
+
     // Log any other errors that might occur
     logSparqlError('SPARQL request failed with exception', {
       endpoint,
       query,
       responseStatus,
       responseTime,
+      error: failure.error.message,
+    });
+
+    return failure;
+  }
+}
+
+/**
+ * Send a SPARQL request through the shared scheduler, retrying transient failures with
+ * exponential backoff and jitter (or the server's Retry-After). Each attempt is scheduled
+ * and timed out separately, so a timed-out attempt is retried like any other transient
+ * failure; only cancellation stops the retries early.
+ */
+async function fetchSparqlWithRetries<B>(
+  endpoint: string,
+  query: string,
+  options: SparqlRequestOptions
+): Promise<SparqlResponse<B>> {
+  const config = getConfig();
+  const timeoutMs = options.timeoutMs ?? config.sparqlTimeoutMs;
+  const maxRetries = options.maxRetries ?? config.sparqlMaxRetries;
+  const backoff = {
+    baseDelayMs: config.sparqlRetryBaseDelayMs,
+    maxDelayMs: config.sparqlRetryMaxDelayMs,
+  };
+  const toolCall = toolCallContext.getStore();
+  const cancelSignal = options.signal ?? toolCall?.signal;
+  const requestScheduler = getScheduler(config);
+
+  for (let attempt = 1; ; attempt++) {
+    let result: SparqlAttempt<B>;
+    try {
+      result = await requestScheduler.run(
+        toolCall?.id ?? 'default',
+        () => attemptSparqlRequest<B>(endpoint, query, timeoutMs, cancelSignal),
+        cancelSignal
+      );
+    } catch (error) {
+      throw cancelSignal?.aborted ? new Error('SPARQL request cancelled') : error;
+    }
+    if ('data' in result) {
+      return result.data;
+    }
+    if (!result.retryable || attempt > maxRetries) {
+      throw result.error;
+    }
+
+    const delayMs = retryDelayMs(attempt, backoff, result.retryAfterMs);
+    logWarn('Retrying SPARQL request', {
+      endpoint,
+      attempt,
+      delayMs,
+      error: result.error.message,
+    });
+    try {
+      await sleep(delayMs, cancelSignal);
+    } catch {
+      throw new Error('SPARQL request cancelled');
+    }
+  }
+}
+
+function readCache<B>(key: string, endpoint: string, config: Config) {
+  try {
+    return readCachedResponse<SparqlResponse<B>>(key, config);
+  } catch (error) {
+    logSparqlCache('SPARQL cache read failed', {
+      endpoint,
+      key,
+      outcome: 'error',
       error: error instanceof Error ? error.message : String(error),
     });
+    return undefined;
+  }
+}
 
-    throw error;
+function writeCache(
+  key: string,
+  entry: { endpoint: string; query: string; response: unknown },
+  config: Config
+) {
+  try {
+    storeCachedResponse(key, entry, config);
+  } catch (error) {
+    logSparqlCache('SPARQL cache write failed', {
+      endpoint: entry.endpoint,
+      key,
+      outcome: 'error',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Wait for a shared request on behalf of one caller, who gives up when `signal` aborts or
+ * `timeoutMs` passes. The request itself is aborted once every caller has given up.
+ */
+async function awaitSharedRequest<B>(
+  key: string,
+  shared: SharedRequest,
+  signal?: AbortSignal,
+  timeoutMs?: number
+): Promise<SparqlResponse<B>> {
+  const timeoutSignal = timeoutMs === undefined ? undefined : AbortSignal.timeout(timeoutMs);
+  const giveUp = AbortSignal.any(
+    [signal, timeoutSignal].filter((s): s is AbortSignal => s !== undefined)
+  );
+  let onGiveUp = () => {};
+  const abandoned = new Promise<never>((_resolve, reject) => {
+    onGiveUp = () =>
+      reject(
+        signal?.aborted
+          ? new Error('SPARQL request cancelled')
+          : new Error(`SPARQL request timed out after ${timeoutMs}ms`)
+      );
+  });
+  if (giveUp.aborted) {
+    onGiveUp();
+  } else {
+    giveUp.addEventListener('abort', onGiveUp, { once: true });
+  }
+
+  shared.waiters++;
+  try {
+    return (await Promise.race([shared.response, abandoned])) as SparqlResponse<B>;
+  } finally {
+    giveUp.removeEventListener('abort', onGiveUp);
+    shared.waiters--;
+    if (shared.waiters === 0 && giveUp.aborted) {
+      shared.controller.abort();
+      if (inFlightRequests.get(key) === shared) {
+        inFlightRequests.delete(key);
+      }
+    }
   }
 }
 
+/**
+ * Send a SPARQL request through the response cache. Identical queries in flight at the
+ * same time share one request, retried and timed out per attempt as its first caller
+ * asked. Every caller waits on its own signal, later callers also on their own
+ * `timeoutMs`, and the request is only aborted once all of them have given up.
+ */
+async function requestSparql<B>(
+  endpoint: string,
+  query: string,
+  options: SparqlRequestOptions = {}
+): Promise<SparqlResponse<B>> {
+  const dryRun = dryRunContext.getStore();
+  if (dryRun) {
+    dryRun.queries.push(query);
+    return { results: { bindings: [] }, boolean: false };
+  }
+
+  const config = getConfig();
+  const cacheMode = options.cache ?? cacheModeContext.getStore();
+  if (!config.cacheEnabled || cacheMode === 'bypass') {
+    return fetchSparqlWithRetries<B>(endpoint, query, options);
+  }
+
+  const key = sparqlCacheKey(endpoint, query);
+  if (cacheMode !== 'refresh') {
+    const cached = readCache<B>(key, endpoint, config);
+    if (cached) {
+      logSparqlCache('SPARQL cache hit', { endpoint, key, outcome: 'hit' });
+      return cached;
+    }
+  }
+
+  const signal = options.signal ?? toolCallContext.getStore()?.signal;
+  const pending = inFlightRequests.get(key);
+  if (pending) {
+    logSparqlCache('SPARQL request shared with an identical one in flight', {
+      endpoint,
+      key,
+      outcome: 'shared',
+    });
+    return awaitSharedRequest<B>(key, pending, signal, options.timeoutMs);
+  }
+
+  logSparqlCache(cacheMode === 'refresh' ? 'SPARQL cache refresh' : 'SPARQL cache miss', {
+    endpoint,
+    key,
+    outcome: cacheMode === 'refresh' ? 'refresh' : 'miss',
+  });
+  const controller = new AbortController();
+  const shared: SharedRequest = {
+    response: fetchSparqlWithRetries<B>(endpoint, query, {
+      ...options,
+      signal: controller.signal,
+    })
+      .then(response => {
+        writeCache(key, { endpoint, query, response }, config);
+        return response;
+      })
+      .finally(() => {
+        if (inFlightRequests.get(key) === shared) {
+          inFlightRequests.delete(key);
+        }
+      }),
+    controller,
+    waiters: 0,
+  };
+  inFlightRequests.set(key, shared);
+  return awaitSharedRequest<B>(key, shared, signal);
+}
+
+export async function querySparql<B = SparqlBinding>(
+  endpoint: string,
+  query: string,
+  options?: SparqlRequestOptions
+): Promise<B[]> {
+  const data = await requestSparql<B>(endpoint, query, options);
+  if (!data.results) {
+    throw new Error('SPARQL response has no result bindings');
+  }
+  return data.results.bindings;
+}
+
+/**
+ * Run an ASK query and return its boolean answer.
+ */
+export async function askSparql(
+  endpoint: string,
+  query: string,
+  options?: SparqlRequestOptions
+): Promise<boolean> {
+  const data = await requestSparql(endpoint, query, options);
+  if (typeof data.boolean !== 'boolean') {
+    throw new Error('SPARQL response to an ASK query has no boolean result');
+  }
+  return data.boolean;
+}
+
+/**
+ * Run a COUNT query and return the number it reports.
+ */
+export async function countTransactions(endpoint: string, countQuery: string): Promise<number> {
+  const results = await querySparql(endpoint, countQuery);
+  const dryRun = dryRunContext.getStore();
+  if (dryRun) {
+    return dryRun.assumedCount;
+  }
+  const count = parseInt(results[0]?.count?.value ?? '0', 10);
+  return Number.isNaN(count) ? 0 : count;
+}
+
 function mapPropertyType(propertyTypeUri: string): PropertyType {
   const uriToType: Record<string, PropertyType> = {
     'http://landregistry.data.gov.uk/def/common/detached': 'detached',
@@ -121,6 +539,46 @@ function mapPropertyType(propertyTypeUri: string): PropertyType {
   return mappedType || 'other';
 }
 
+function mapEstateType(estateTypeUri?: string): EstateType | undefined {
+  if (!estateTypeUri) {
+    return undefined;
+  }
+
+  const match = (Object.keys(ESTATE_TYPE_URIS) as EstateType[]).find(
+    estateType => ESTATE_TYPE_URIS[estateType] === estateTypeUri
+  );
+  if (!match) {
+    logWarn('Unknown estate type URI, leaving estateType unset', { estateTypeUri });
+  }
+  return match;
+}
+
+function mapNewBuild(newBuild?: string): boolean | undefined {
+  if (newBuild === undefined) {
+    return undefined;
+  }
+  return newBuild === 'true' || newBuild === '1';
+}
+
+function mapTransactionCategory(categoryLabel?: string): TransactionCategory | undefined {
+  // Category labels are "Standard price paid transaction" / "Additional price paid transaction"
+  const label = categoryLabel?.trim().toLowerCase();
+  if (!label) {
+    return undefined;
+  }
+  if (label.startsWith('standard')) {
+    return 'standard';
+  }
+  if (label.startsWith('additional')) {
+    return 'additional';
+  }
+
+  logWarn('Unknown transaction category label, leaving transactionCategory unset', {
+    categoryLabel,
+  });
+  return undefined;
+}
+
 export function parsePropertyPrice(binding: SparqlBinding): PropertyPrice {
   if (!binding.amount || !binding.date || !binding.propertyType) {
     throw new Error('Missing required property data in SPARQL response');
@@ -135,71 +593,332 @@ export function parsePropertyPrice(binding: SparqlBinding): PropertyPrice {
     city: binding.town?.value || '',
     paon: binding.paon?.value,
     saon: binding.saon?.value,
+    county: binding.county?.value,
+    estateType: mapEstateType(binding.estateType?.value),
+    newBuild: mapNewBuild(binding.newBuild?.value),
+    transactionCategory: mapTransactionCategory(binding.category?.value),
+    transactionId: binding.transactionId?.value,
   };
 }
 
-export async function searchProperties(
+export function comparePropertyPrices(
+  sortBy: QueryOptions['sortBy'],
+  sortOrder: QueryOptions['sortOrder']
+): (a: PropertyPrice, b: PropertyPrice) => number {
+  const sortField = sortBy === 'price' ? 'price' : 'date';
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  return (a, b) => {
+    if (a[sortField] < b[sortField]) return -1 * direction;
+    if (a[sortField] > b[sortField]) return 1 * direction;
+    return 0;
+  };
+}
+
+/**
+ * How to build, parse and order the queries for one batch of a batched search.
+ */
+export interface BatchSearchStrategy<T, P extends PropertyPrice> {
+  batchSize: number;
+  buildQuery: (batch: T[], options: QueryOptions) => string;
+  buildCountQuery: (batch: T[], filters: QueryFilters) => string;
+  parse: (binding: SparqlBinding) => P;
+  compare: (a: P, b: P) => number;
+}
+
+/**
+ * Search a long list of keys (postcodes, usually) by querying them in batches.
+ * Each batch is counted and fetched up to `offset + limit` rows, and the batches
+ * are merged so that sorting and paging apply across the whole list.
+ */
+export async function searchInBatches<T, P extends PropertyPrice>(
   endpoint: string,
-  params: SearchParams
-): Promise<SearchResponse> {
-  // Validate endpoint
-  if (!endpoint || !endpoint.startsWith('http')) {
-    throw new Error('Invalid endpoint URL');
-  }
+  items: T[],
+  options: QueryOptions,
+  strategy: BatchSearchStrategy<T, P>
+): Promise<{ properties: P[]; total: number }> {
+  const offset = options.offset ?? 0;
+  const limit = options.limit ?? 10;
 
-  // Validate required parameters
-  if (!params.postcode && (!params.street || !params.city)) {
-    throw new Error('Either postcode or street and city must be provided');
+  let total = 0;
+  let candidates: P[] = [];
+
+  for (let i = 0; i < items.length; i += strategy.batchSize) {
+    const batch = items.slice(i, i + strategy.batchSize);
+    const batchTotal = await countTransactions(endpoint, strategy.buildCountQuery(batch, options));
+    total += batchTotal;
+    if (batchTotal === 0) {
+      continue;
+    }
+
+    // Any row on the requested page must be within the first offset + limit rows of its batch
+    const results = await querySparql(
+      endpoint,
+      strategy.buildQuery(batch, { ...options, offset: 0, limit: offset + limit })
+    );
+    candidates = [...candidates, ...results.map(strategy.parse)]
+      .sort(strategy.compare)
+      .slice(0, offset + limit);
   }
 
-  // Validate numeric parameters
-  if (params.minPrice !== undefined && params.minPrice < 0) {
-    throw new Error('minPrice must be non-negative');
+  logInfo('Batched search completed', {
+    itemCount: items.length,
+    batchCount: Math.ceil(items.length / strategy.batchSize),
+    total,
+  });
+
+  return {
+    properties: candidates.slice(offset, offset + limit),
+    total,
+  };
+}
+
+/**
+ * Search many postcodes, batching them into VALUES lists. With `pricePaidBackend: 'local'`
+ * they are searched in the local price-paid database instead.
+ */
+export async function searchPostcodes(
+  endpoint: string,
+  postcodes: string[],
+  options: QueryOptions
+): Promise<{ properties: PropertyPrice[]; total: number }> {
+  if (getConfig().pricePaidBackend === 'local') {
+    return searchLocalPostcodes(postcodes, options);
   }
-  if (params.maxPrice !== undefined && params.maxPrice < 0) {
-    throw new Error('maxPrice must be non-negative');
+  return searchInBatches(endpoint, postcodes, options, {
+    batchSize: POSTCODE_BATCH_SIZE,
+    buildQuery: getPostcodeQuery,
+    buildCountQuery: getPostcodeCountQuery,
+    parse: parsePropertyPrice,
+    compare: comparePropertyPrices(options.sortBy, options.sortOrder),
+  });
+}
+
+function distinctValues(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))];
+}
+
+function withMatchedNames(
+  results: SparqlBinding[],
+  total: number,
+  match: Omit<AddressMatch, 'matchedStreets' | 'matchedCities'>
+): { properties: PropertyPrice[]; total: number; match: AddressMatch } {
+  const properties = results.map(parsePropertyPrice);
+  return {
+    properties,
+    total,
+    match: {
+      ...match,
+      matchedStreets: distinctValues(properties.map(property => property.street)),
+      matchedCities: distinctValues(properties.map(property => property.city)),
+    },
+  };
+}
+
+/**
+ * Search by street and city, trying every normalised spelling in one query. In fuzzy
+ * mode a search that finds nothing is retried with a street prefix match against the
+ * town, locality or district.
+ */
+async function searchAddress(
+  endpoint: string,
+  street: string,
+  city: string,
+  options: QueryOptions,
+  fuzzy: boolean
+): Promise<{ properties: PropertyPrice[]; total: number; match: AddressMatch }> {
+  const streetCandidates = streetVariants(street);
+  const cityCandidates = placeVariants(city);
+
+  const [results, total] = await Promise.all([
+    querySparql(
+      endpoint,
+      getAddressQuery(streetCandidates, cityCandidates, undefined, undefined, options)
+    ),
+    countTransactions(
+      endpoint,
+      getAddressCountQuery(streetCandidates, cityCandidates, undefined, undefined, options)
+    ),
+  ]);
+
+  if (total > 0 || !fuzzy) {
+    return withMatchedNames(results, total, { mode: 'exact', streetCandidates, cityCandidates });
   }
-  if (
-    params.minPrice !== undefined &&
-    params.maxPrice !== undefined &&
-    params.minPrice > params.maxPrice
-  ) {
-    throw new Error('minPrice cannot be greater than maxPrice');
+
+  const fuzzyMatch = { streetPrefixes: streetPrefixes(street), places: cityCandidates };
+  logInfo('No exact street match, retrying with fuzzy matching', {
+    street,
+    city,
+    streetPrefixes: fuzzyMatch.streetPrefixes,
+  });
+
+  const [fuzzyResults, fuzzyTotal] = await Promise.all([
+    querySparql(endpoint, getFuzzyAddressQuery(fuzzyMatch, options)),
+    countTransactions(endpoint, getFuzzyAddressCountQuery(fuzzyMatch, options)),
+  ]);
+  return withMatchedNames(fuzzyResults, fuzzyTotal, {
+    mode: 'fuzzy',
+    streetCandidates: fuzzyMatch.streetPrefixes,
+    cityCandidates,
+  });
+}
+
+/**
+ * Resolve the date range of a district/county/locality search: fromDate is required,
+ * toDate defaults to today, and the range may not exceed MAX_AREA_SEARCH_DAYS.
+ */
+function resolveAreaDateRange(
+  fromDate?: string,
+  toDate?: string
+): { fromDate: string; toDate: string } {
+  if (!fromDate) {
+    throw new Error('fromDate is required when searching by district, county or locality');
   }
 
-  // Validate pagination parameters
-  if (params.offset !== undefined && params.offset < 0) {
-    throw new Error('offset must be non-negative');
+  const to = toDate ?? new Date().toISOString().slice(0, 10);
+  const fromTime = Date.parse(fromDate.slice(0, 10));
+  const toTime = Date.parse(to.slice(0, 10));
+  if (Number.isNaN(fromTime) || Number.isNaN(toTime)) {
+    throw new Error('fromDate and toDate must be dates in YYYY-MM-DD format');
+  }
+  if (fromTime > toTime) {
+    throw new Error('fromDate cannot be after toDate');
+  }
+  if ((toTime - fromTime) / MS_PER_DAY > MAX_AREA_SEARCH_DAYS) {
+    throw new Error(
+      `District, county and locality searches are limited to ${MAX_AREA_SEARCH_DAYS} days; narrow fromDate/toDate`
+    );
   }
-  if (params.limit !== undefined && params.limit <= 0) {
-    throw new Error('limit must be positive');
+
+  return { fromDate, toDate: to };
+}
+
+/**
+ * Search a local authority district, county and/or locality over a bounded date range.
+ */
+async function searchAdministrativeArea(
+  endpoint: string,
+  params: SearchParams,
+  options: QueryOptions
+): Promise<SearchResponse> {
+  const dateRange = resolveAreaDateRange(params.fromDate, params.toDate);
+  const areaOptions = { ...options, ...dateRange };
+  const area = {
+    district: params.district ? placeVariants(params.district) : undefined,
+    county: params.county ? placeVariants(params.county) : undefined,
+    locality: params.locality ? placeVariants(params.locality) : undefined,
+  };
+
+  const [results, total] = await Promise.all([
+    querySparql(endpoint, getAdministrativeAreaQuery(area, areaOptions)),
+    countTransactions(endpoint, getAdministrativeAreaCountQuery(area, areaOptions)),
+  ]);
+
+  const administrativeArea: AdministrativeArea = {
+    district: area.district?.[0],
+    county: area.county?.[0],
+    locality: area.locality?.[0],
+    ...dateRange,
+  };
+  logInfo('Administrative area search completed', { ...administrativeArea, total });
+
+  return {
+    properties: results.map(parsePropertyPrice),
+    total,
+    offset: options.offset ?? 0,
+    limit: options.limit ?? 10,
+    administrativeArea,
+  };
+}
+
+function validateEndpoint(endpoint: string): void {
+  if (!endpoint || !endpoint.startsWith('http')) {
+    throw new Error('Invalid endpoint URL');
   }
+}
+
+function searchQueryOptions(normalizedParams: SearchParams): QueryOptions {
+  return {
+    minPrice: normalizedParams.minPrice,
+    maxPrice: normalizedParams.maxPrice,
+    propertyType: normalizedParams.propertyType,
+    fromDate: normalizedParams.fromDate,
+    toDate: normalizedParams.toDate,
+    estateType: normalizedParams.estateType,
+    newBuild: normalizedParams.newBuild,
+    transactionCategory: normalizedParams.transactionCategory,
+    sortBy: normalizedParams.sortBy,
+    sortOrder: normalizedParams.sortOrder,
+    limit: normalizedParams.limit ?? 10,
+    offset: normalizedParams.offset ?? 0,
+  };
+}
 
-  // Normalize street and city to uppercase for SPARQL queries
-  // (Land Registry data appears to be case-sensitive)
-  const normalizedParams = { ...params };
-  if (normalizedParams.street) {
-    normalizedParams.street = normalizedParams.street.toUpperCase();
+/** Search every postcode in a district or sector, in batches. */
+async function searchPostcodeArea(
+  endpoint: string,
+  area: PostcodeArea,
+  queryOptions: QueryOptions
+): Promise<SearchResponse> {
+  if (area.type === 'unit') {
+    throw new Error(`${area.code} is a full postcode, not a district or sector`);
   }
-  if (normalizedParams.city) {
-    normalizedParams.city = normalizedParams.city.toUpperCase();
+  const postcodes = listPostcodesInArea(area);
+  if (postcodes.length === 0) {
+    throw new Error(`No postcodes found for ${area.type} ${area.code}`);
   }
 
-  let query: string;
+  const { properties, total } = await searchPostcodes(endpoint, postcodes, queryOptions);
+  return {
+    properties,
+    total,
+    offset: queryOptions.offset ?? 0,
+    limit: queryOptions.limit ?? 10,
+    area: { type: area.type, code: area.code, postcodeCount: postcodes.length },
+  };
+}
 
-  if (normalizedParams.postcode) {
-    query = getPostcodeQuery(normalizedParams.postcode);
-  } else {
-    query = getAddressQuery(normalizedParams.street!, normalizedParams.city!);
+async function searchPropertyPage(endpoint: string, params: SearchParams): Promise<SearchResponse> {
+  validateEndpoint(endpoint);
+  validateSearchParams(params);
+  const hasAdministrativeArea = Boolean(params.district || params.county || params.locality);
+  const normalizedParams = normalizeSearchParams(params);
+
+  // Filters, ordering and paging are all pushed down into the SPARQL query so
+  // they apply to the full transaction history rather than a truncated page
+  const offset = normalizedParams.offset ?? 0;
+  const limit = normalizedParams.limit ?? 10;
+  const queryOptions = searchQueryOptions(normalizedParams);
+
+  if (hasAdministrativeArea) {
+    return searchAdministrativeArea(endpoint, normalizedParams, queryOptions);
   }
 
-  // Add date filters if provided
-  if (normalizedParams.fromDate || normalizedParams.toDate) {
-    query = addDateFilters(query, normalizedParams.fromDate, normalizedParams.toDate);
+  // Outward codes (SW1A) and sectors (SW1A 1) are expanded to their member
+  // postcodes using the local Code-Point database and searched in batches
+  const area = normalizedParams.postcode ? classifyPostcode(normalizedParams.postcode) : null;
+  if (area && area.type !== 'unit') {
+    return searchPostcodeArea(endpoint, area, queryOptions);
   }
 
-  const results = await querySparql(endpoint, query);
-  const properties = results.map(parsePropertyPrice);
+  let properties: PropertyPrice[];
+  let total: number;
+  let match: AddressMatch | undefined;
+  if (normalizedParams.postcode) {
+    let results: SparqlBinding[];
+    [results, total] = await Promise.all([
+      querySparql(endpoint, getPostcodeQuery(normalizedParams.postcode, queryOptions)),
+      countTransactions(endpoint, getPostcodeCountQuery(normalizedParams.postcode, queryOptions)),
+    ]);
+    properties = results.map(parsePropertyPrice);
+  } else {
+    ({ properties, total, match } = await searchAddress(
+      endpoint,
+      normalizedParams.street!,
+      normalizedParams.city!,
+      queryOptions,
+      normalizedParams.fuzzy ?? false
+    ));
+  }
 
   // Log a sample of the parsed properties to diagnose street/city issues
   if (properties.length > 0) {
@@ -223,40 +942,115 @@ export async function searchProperties(
     });
   }
 
-  // Apply price filters in memory since they're not part of the base query
-  let filteredProperties = properties;
-  if (normalizedParams.minPrice !== undefined) {
-    filteredProperties = filteredProperties.filter(p => p.price >= normalizedParams.minPrice!);
+  return {
+    properties,
+    total,
+    offset,
+    limit,
+    ...(match && { match }),
+  };
+}
+
+/**
+ * Search price-paid data, optionally flagging or dropping likely non-market sales. With
+ * `pricePaidBackend: 'local'` the search is answered from the local price-paid database.
+ * Outliers are judged against every matching sale, not just the requested page, so
+ * `total` and paging stay consistent; with `excludeOutliers` category B entries are
+ * also filtered in the query.
+ */
+export async function searchProperties(
+  endpoint: string,
+  params: SearchParams
+): Promise<SearchResponse> {
+  return withCacheMode(params.cache, () => searchWithOutliers(endpoint, params));
+}
+
+type SearchPage = (endpoint: string, params: SearchParams) => Promise<SearchResponse>;
+
+function tooManyMatches(total: number): Error {
+  return new Error(
+    `Outlier checks compare every matching sale, and this search matches ${total} (the limit is ${MAX_AREA_SALES}). Narrow it with filters or a shorter date range.`
+  );
+}
+
+/**
+ * Every sale matching a search, fetched in pages in the search's own order. Searches
+ * matching more than MAX_AREA_SALES are rejected rather than judged on part of the set.
+ */
+async function searchAllMatches(
+  searchPage: SearchPage,
+  endpoint: string,
+  params: SearchParams
+): Promise<SearchResponse> {
+  const pageParams = { ...params, limit: MAX_SEARCH_LIMIT };
+  const first = await searchPage(endpoint, { ...pageParams, offset: 0 });
+  if (first.total > MAX_AREA_SALES) {
+    throw tooManyMatches(first.total);
   }
-  if (normalizedParams.maxPrice !== undefined) {
-    filteredProperties = filteredProperties.filter(p => p.price <= normalizedParams.maxPrice!);
+
+  const properties = [...first.properties];
+  let page = first;
+  while (page.properties.length > 0 && properties.length < first.total) {
+    page = await searchPage(endpoint, { ...pageParams, offset: properties.length });
+    properties.push(...page.properties);
   }
-  if (normalizedParams.propertyType) {
-    filteredProperties = filteredProperties.filter(
-      p => p.propertyType.toLowerCase() === normalizedParams.propertyType!.toLowerCase()
-    );
+  return { ...first, properties };
+}
+
+/**
+ * Every sale matching a SPARQL search. A postcode district or sector fetches each batch of
+ * its postcodes once, up to MAX_AREA_SALES, and merges them, rather than fetching every
+ * batch again for each page.
+ */
+async function searchAllSparqlMatches(
+  endpoint: string,
+  params: SearchParams
+): Promise<SearchResponse> {
+  const pageParams = { ...params, limit: MAX_SEARCH_LIMIT, offset: 0 };
+  validateEndpoint(endpoint);
+  validateSearchParams(pageParams);
+  const normalizedParams = normalizeSearchParams(pageParams);
+  const area = normalizedParams.postcode ? classifyPostcode(normalizedParams.postcode) : null;
+  if (!area || area.type === 'unit') {
+    return searchAllMatches(searchPropertyPage, endpoint, params);
   }
 
-  // Apply sorting
-  if (normalizedParams.sortBy) {
-    const sortField = normalizedParams.sortBy === 'price' ? 'price' : 'date';
-    const sortOrder = normalizedParams.sortOrder === 'asc' ? 1 : -1;
-    filteredProperties.sort((a, b) => {
-      if (a[sortField] < b[sortField]) return -1 * sortOrder;
-      if (a[sortField] > b[sortField]) return 1 * sortOrder;
-      return 0;
-    });
+  const all = await searchPostcodeArea(endpoint, area, {
+    ...searchQueryOptions(normalizedParams),
+    limit: MAX_AREA_SALES,
+  });
+  if (all.total > MAX_AREA_SALES) {
+    throw tooManyMatches(all.total);
   }
+  return all;
+}
 
-  // Apply pagination
-  const offset = normalizedParams.offset || 0;
-  const limit = normalizedParams.limit || 10;
-  const paginatedProperties = filteredProperties.slice(offset, offset + limit);
+async function searchWithOutliers(endpoint: string, params: SearchParams): Promise<SearchResponse> {
+  const local = getConfig().pricePaidBackend === 'local';
+  const searchPage: SearchPage = local
+    ? (_endpoint, pageParams) => searchLocalPricePaid(pageParams)
+    : searchPropertyPage;
+
+  if (!params.excludeOutliers && !params.flagOutliers) {
+    return searchPage(endpoint, params);
+  }
+  if (params.excludeOutliers && params.transactionCategory === 'additional') {
+    throw new Error('excludeOutliers cannot be combined with transactionCategory "additional"');
+  }
 
+  const { offset = 0, limit = 10 } = normalizeSearchParams(params);
+  const all = local
+    ? await searchAllMatches(searchPage, endpoint, params)
+    : await searchAllSparqlMatches(endpoint, params);
+  const flagged = flagOutliers(all.properties);
+  const sales = params.excludeOutliers ? flagged.filter(sale => !sale.outlierFlags) : flagged;
+  const excluded = flagged.length - sales.length;
   return {
-    properties: paginatedProperties,
-    total: filteredProperties.length,
+    ...all,
+    properties: sales.slice(offset, offset + limit),
+    total: all.total - excluded,
     offset,
     limit,
+    ...(params.excludeOutliers && { outliersExcluded: excluded }),
   };
 }
@@ -0,0 +1,116 @@
+import {
+  PriceStatistics,
+  PriceStatisticsParams,
+  PriceStatisticsResponse,
+  StatisticsBreakdown,
+} from '../models/statistics.js';
+import { PropertyPrice } from '../models/types.js';
+import { collectAreaSales } from './areaSalesService.js';
+import { excludeOutliers } from '../utils/outliers.js';
+
+/**
+ * Percentile of an ascending list by linear interpolation between the closest ranks
+ * (the same definition as Excel's PERCENTILE.INC).
+ */
+export function percentile(sortedValues: number[], fraction: number): number {
+  if (sortedValues.length === 0) {
+    throw new Error('Cannot take a percentile of no values');
+  }
+  const rank = (sortedValues.length - 1) * fraction;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower);
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return percentile(sorted, 0.5);
+}
+
+export function summarizePrices(prices: number[]): PriceStatistics {
+  if (prices.length === 0) {
+    return { count: 0 };
+  }
+
+  const sorted = [...prices].sort((a, b) => a - b);
+  const sum = sorted.reduce((total, price) => total + price, 0);
+  return {
+    count: sorted.length,
+    mean: Math.round(sum / sorted.length),
+    median: Math.round(percentile(sorted, 0.5)),
+    p10: Math.round(percentile(sorted, 0.1)),
+    p25: Math.round(percentile(sorted, 0.25)),
+    p75: Math.round(percentile(sorted, 0.75)),
+    p90: Math.round(percentile(sorted, 0.9)),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+const BREAKDOWN_KEYS: Record<StatisticsBreakdown, (sale: PropertyPrice) => string> = {
+  propertyType: sale => sale.propertyType,
+  estateType: sale => sale.estateType ?? 'unknown',
+  year: sale => sale.date.slice(0, 4),
+};
+
+/**
+ * Price statistics for each value of a breakdown, keyed in ascending order.
+ */
+export function summarizeBy(
+  sales: PropertyPrice[],
+  breakdown: StatisticsBreakdown
+): Record<string, PriceStatistics> {
+  const groups = new Map<string, number[]>();
+  sales.forEach(sale => {
+    const key = BREAKDOWN_KEYS[breakdown](sale);
+    const prices = groups.get(key) ?? [];
+    prices.push(sale.price);
+    groups.set(key, prices);
+  });
+
+  return Object.fromEntries(
+    [...groups.keys()].sort().map(key => [key, summarizePrices(groups.get(key)!)])
+  );
+}
+
+/**
+ * Count, mean, median and percentiles of sale prices across an area, optionally broken
+ * down by property type, tenure and year. With `excludeOutliers`, likely non-market
+ * sales are judged against the whole area and left out.
+ */
+export async function getPriceStatistics(
+  endpoint: string,
+  params: PriceStatisticsParams,
+  options?: { dbPath?: string }
+): Promise<PriceStatisticsResponse> {
+  if (
+    params.minPrice !== undefined &&
+    params.maxPrice !== undefined &&
+    params.minPrice > params.maxPrice
+  ) {
+    throw new Error('minPrice cannot be greater than maxPrice');
+  }
+
+  const collected = await collectAreaSales(endpoint, params, options);
+  const { area, total, truncated } = collected;
+  let sales = collected.sales;
+  let outliersExcluded: number | undefined;
+  if (params.excludeOutliers) {
+    ({ sales, excluded: outliersExcluded } = excludeOutliers(sales));
+  }
+
+  const response: PriceStatisticsResponse = {
+    area,
+    total,
+    salesAnalysed: sales.length,
+    truncated,
+    ...(outliersExcluded !== undefined && { outliersExcluded }),
+    statistics: summarizePrices(sales.map(sale => sale.price)),
+  };
+  if (params.groupBy.length > 0) {
+    response.breakdowns = Object.fromEntries(
+      params.groupBy.map(breakdown => [breakdown, summarizeBy(sales, breakdown)])
+    );
+  }
+  return response;
+}
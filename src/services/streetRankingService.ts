@@ -0,0 +1,128 @@
+import {
+  RankStreetsParams,
+  RankStreetsResponse,
+  StreetRanking,
+  StreetSummary,
+} from '../models/streets.js';
+import { PropertyPrice } from '../models/types.js';
+import { collectAreaSales } from './areaSalesService.js';
+import { roundTo } from './propertyHistoryService.js';
+import { median, summarizePrices } from './statisticsService.js';
+import { logInfo } from '../utils/logger.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Midpoint of a date window as YYYY-MM-DD.
+ */
+export function midpointDate(fromDate: string, toDate: string): string {
+  const from = Date.parse(fromDate.slice(0, 10));
+  const to = Date.parse(toDate.slice(0, 10));
+  const days = Math.floor((to - from) / MS_PER_DAY / 2);
+  return new Date(from + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+function growthPercent(sales: PropertyPrice[], splitDate: string): number | undefined {
+  const earlier = sales.filter(sale => sale.date < splitDate).map(sale => sale.price);
+  const later = sales.filter(sale => sale.date >= splitDate).map(sale => sale.price);
+  if (earlier.length === 0 || later.length === 0) {
+    return undefined;
+  }
+  const before = median(earlier);
+  return before > 0 ? roundTo(((median(later) - before) / before) * 100) : undefined;
+}
+
+/**
+ * Summarise each street (grouped by street and town) with at least `minSales` sales.
+ */
+export function summarizeStreets(
+  sales: PropertyPrice[],
+  minSales: number,
+  splitDate?: string
+): Omit<StreetSummary, 'rank'>[] {
+  const streets = new Map<string, PropertyPrice[]>();
+  sales
+    .filter(sale => sale.street)
+    .forEach(sale => {
+      const key = `${sale.street}|${sale.city}`;
+      streets.set(key, [...(streets.get(key) ?? []), sale]);
+    });
+
+  return [...streets.values()]
+    .filter(streetSales => streetSales.length >= minSales)
+    .map(streetSales => {
+      const statistics = summarizePrices(streetSales.map(sale => sale.price));
+      const dates = streetSales.map(sale => sale.date.slice(0, 10)).sort();
+      const growth = splitDate ? growthPercent(streetSales, splitDate) : undefined;
+      return {
+        street: streetSales[0].street,
+        town: streetSales[0].city,
+        count: statistics.count,
+        medianPrice: statistics.median!,
+        meanPrice: statistics.mean!,
+        minPrice: statistics.min!,
+        maxPrice: statistics.max!,
+        firstSaleDate: dates[0],
+        lastSaleDate: dates[dates.length - 1],
+        ...(growth !== undefined && { growthPercent: growth }),
+        postcodes: [...new Set(streetSales.map(sale => sale.postcode))].sort(),
+      };
+    });
+}
+
+const RANKING_VALUES: Record<
+  StreetRanking,
+  (street: Omit<StreetSummary, 'rank'>) => number | undefined
+> = {
+  medianPrice: street => street.medianPrice,
+  salesVolume: street => street.count,
+  growth: street => street.growthPercent,
+};
+
+/**
+ * Rank the streets of a postcode sector, district, radius or other area by median price,
+ * number of sales or median price growth across the date window.
+ */
+export async function rankStreets(
+  endpoint: string,
+  params: RankStreetsParams,
+  options?: { dbPath?: string }
+): Promise<RankStreetsResponse> {
+  const { area, sales, total, truncated } = await collectAreaSales(endpoint, params, options);
+
+  const dates = sales.map(sale => sale.date.slice(0, 10)).sort();
+  const windowStart = params.fromDate ?? dates[0];
+  const windowEnd = params.toDate ?? dates[dates.length - 1];
+  const splitDate =
+    windowStart && windowEnd && windowStart < windowEnd
+      ? midpointDate(windowStart, windowEnd)
+      : undefined;
+
+  const value = RANKING_VALUES[params.rankBy];
+  const direction = params.sortOrder === 'asc' ? 1 : -1;
+  const ranked = summarizeStreets(sales, params.minSales, splitDate)
+    .filter(street => value(street) !== undefined)
+    .sort(
+      (a, b) =>
+        direction * (value(a)! - value(b)!) || b.count - a.count || a.street.localeCompare(b.street)
+    );
+
+  logInfo('Streets ranked', {
+    area: area.label,
+    rankBy: params.rankBy,
+    streetCount: ranked.length,
+  });
+
+  return {
+    area,
+    total,
+    salesAnalysed: sales.length,
+    truncated,
+    rankBy: params.rankBy,
+    sortOrder: params.sortOrder,
+    minSales: params.minSales,
+    ...(splitDate && { growthSplitDate: splitDate }),
+    streetCount: ranked.length,
+    streets: ranked.slice(0, params.limit).map((street, index) => ({ rank: index + 1, ...street })),
+  };
+}
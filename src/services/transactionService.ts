@@ -0,0 +1,72 @@
+import {
+  RecordStatus,
+  TransactionDetails,
+  TransactionLookupParams,
+} from '../models/transaction.js';
+import { getTransactionQuery, RECORD_STATUS_URIS } from '../queries/queries.js';
+import { assertSparqlBackend } from './localPricePaidService.js';
+import { parsePropertyPrice, querySparql } from './sparqlService.js';
+import { logInfo, logWarn } from '../utils/logger.js';
+
+const TRANSACTION_ID_PATTERN = /^[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}$/;
+
+/**
+ * Normalise a transaction ID as printed in the Price Paid CSV files ("{A1B2...}") or the
+ * linked data ("a1b2...") to the upper-case GUID used in record URIs.
+ */
+export function normalizeTransactionId(transactionId: string): string {
+  const normalized = transactionId
+    .trim()
+    .replace(/^\{|\}$/g, '')
+    .toUpperCase();
+  if (!TRANSACTION_ID_PATTERN.test(normalized)) {
+    throw new Error(`Invalid transaction ID: ${transactionId}`);
+  }
+  return normalized;
+}
+
+function mapRecordStatus(recordStatusUri?: string): RecordStatus | undefined {
+  if (!recordStatusUri) {
+    return undefined;
+  }
+
+  const match = (Object.keys(RECORD_STATUS_URIS) as RecordStatus[]).find(
+    recordStatus => RECORD_STATUS_URIS[recordStatus] === recordStatusUri
+  );
+  if (!match) {
+    logWarn('Unknown record status URI, leaving recordStatus unset', { recordStatusUri });
+  }
+  return match;
+}
+
+/**
+ * Fetch the current record of a single transaction by its Land Registry transaction ID.
+ */
+export async function getTransaction(
+  endpoint: string,
+  params: TransactionLookupParams
+): Promise<TransactionDetails> {
+  assertSparqlBackend('Transaction lookups');
+  const transactionId = normalizeTransactionId(params.transactionId);
+
+  const results = await querySparql(endpoint, getTransactionQuery(transactionId));
+  if (results.length === 0) {
+    throw new Error(`No transaction found with ID ${transactionId}`);
+  }
+
+  const binding = results[0];
+  const transaction: TransactionDetails = {
+    ...parsePropertyPrice(binding),
+    transactionId: binding.transactionId?.value || transactionId,
+    recordStatus: mapRecordStatus(binding.recordStatus?.value),
+    locality: binding.locality?.value,
+    district: binding.district?.value,
+  };
+
+  logInfo('Transaction retrieved', {
+    transactionId: transaction.transactionId,
+    recordStatus: transaction.recordStatus,
+  });
+
+  return transaction;
+}
@@ -0,0 +1,136 @@
+import {
+  MAX_TREND_PERIODS,
+  PriceTrendParams,
+  PriceTrendPoint,
+  PriceTrendResponse,
+  TrendInterval,
+} from '../models/trend.js';
+import { PropertyPrice } from '../models/types.js';
+import { collectAreaSales } from './areaSalesService.js';
+import { median } from './statisticsService.js';
+
+const MONTHS_PER_PERIOD: Record<TrendInterval, number> = { month: 1, quarter: 3, year: 12 };
+
+/**
+ * Sequential index of the period containing a date, e.g. months since year 0.
+ */
+export function periodIndex(date: string, interval: TrendInterval): number {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  return Math.floor((year * 12 + month - 1) / MONTHS_PER_PERIOD[interval]);
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Label and first/last day of the period with the given index.
+ */
+export function describePeriod(
+  index: number,
+  interval: TrendInterval
+): Pick<PriceTrendPoint, 'period' | 'startDate' | 'endDate'> {
+  const firstMonth = index * MONTHS_PER_PERIOD[interval];
+  const year = Math.floor(firstMonth / 12);
+  const month = (firstMonth % 12) + 1;
+  const lastMonth = month + MONTHS_PER_PERIOD[interval] - 1;
+  // Day 0 of the following month is the last day of this one
+  const lastDay = new Date(Date.UTC(year, lastMonth, 0)).getUTCDate();
+
+  const period =
+    interval === 'month'
+      ? `${year}-${pad(month)}`
+      : interval === 'quarter'
+        ? `${year}-Q${Math.floor((month - 1) / 3) + 1}`
+        : String(year);
+  return {
+    period,
+    startDate: `${year}-${pad(month)}-01`,
+    endDate: `${year}-${pad(lastMonth)}-${pad(lastDay)}`,
+  };
+}
+
+/**
+ * Bucket sales into consecutive periods from `fromDate` to `toDate` (defaulting to the
+ * first and last sale), including periods with no sales, and optionally add a trailing
+ * rolling median over `smoothingWindow` periods.
+ */
+export function buildPriceTrend(
+  sales: PropertyPrice[],
+  interval: TrendInterval,
+  options: { fromDate?: string; toDate?: string; smoothingWindow?: number } = {}
+): PriceTrendPoint[] {
+  const dates = sales.map(sale => sale.date.slice(0, 10)).sort();
+  const fromDate = options.fromDate ?? dates[0];
+  const toDate = options.toDate ?? dates[dates.length - 1];
+  if (!fromDate || !toDate) {
+    return [];
+  }
+
+  const first = periodIndex(fromDate, interval);
+  const last = periodIndex(toDate, interval);
+  const periodCount = Math.max(0, last - first + 1);
+  if (periodCount > MAX_TREND_PERIODS) {
+    throw new Error(
+      `A ${interval}ly trend from ${fromDate} to ${toDate} has ${periodCount} periods (the limit is ${MAX_TREND_PERIODS}). Use a longer interval or a shorter date range.`
+    );
+  }
+  const buckets: number[][] = Array.from({ length: periodCount }, () => []);
+  sales.forEach(sale => {
+    const index = periodIndex(sale.date, interval) - first;
+    if (index >= 0 && index < buckets.length) {
+      buckets[index].push(sale.price);
+    }
+  });
+
+  return buckets.map((prices, offset) => {
+    const point: PriceTrendPoint = {
+      ...describePeriod(first + offset, interval),
+      count: prices.length,
+    };
+    if (prices.length > 0) {
+      point.medianPrice = Math.round(median(prices));
+      point.meanPrice = Math.round(prices.reduce((sum, price) => sum + price, 0) / prices.length);
+    }
+
+    if (options.smoothingWindow) {
+      const windowPrices = buckets
+        .slice(Math.max(0, offset - options.smoothingWindow + 1), offset + 1)
+        .flat();
+      if (windowPrices.length > 0) {
+        point.smoothedMedianPrice = Math.round(median(windowPrices));
+      }
+    }
+    return point;
+  });
+}
+
+/**
+ * Sale volumes and median prices per month, quarter or year across an area.
+ */
+export async function getPriceTrend(
+  endpoint: string,
+  params: PriceTrendParams,
+  options?: { dbPath?: string }
+): Promise<PriceTrendResponse> {
+  if (params.fromDate && params.toDate && params.fromDate > params.toDate) {
+    throw new Error('fromDate cannot be after toDate');
+  }
+
+  const { area, sales, total, truncated } = await collectAreaSales(endpoint, params, options);
+
+  return {
+    area,
+    interval: params.interval,
+    smoothingWindow: params.smoothingWindow,
+    total,
+    salesAnalysed: sales.length,
+    truncated,
+    series: buildPriceTrend(sales, params.interval, {
+      fromDate: params.fromDate,
+      toDate: params.toDate,
+      smoothingWindow: params.smoothingWindow,
+    }),
+  };
+}
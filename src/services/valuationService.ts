@@ -0,0 +1,233 @@
+import { HpiObservation, HpiPropertyType } from '../models/hpi.js';
+import { NearbyPropertyPrice } from '../models/nearby.js';
+import { PropertyType } from '../models/types.js';
+import { ComparableSale, ValuationParams, ValuationResponse } from '../models/valuation.js';
+import { loadHpiMonths, regionSlug } from './hpiService.js';
+import { searchNearbySales } from './nearbyService.js';
+import { formatPostcode } from './postcodeService.js';
+import { yearsBetween } from './propertyHistoryService.js';
+import { logInfo, logWarn } from '../utils/logger.js';
+
+const MAX_COMPARABLE_SALES = 1000;
+const DISTANCE_SCALE_METERS = 250; // weight halves at this distance
+const RECENCY_HALF_LIFE_YEARS = 2;
+const DIFFERENT_TENURE_WEIGHT = 0.5;
+const SUBJECT_SALE_WEIGHT = 4;
+const FALLBACK_HPI_REGION = 'united-kingdom';
+
+const HOUSE_TYPES: PropertyType[] = ['detached', 'semi-detached', 'terraced'];
+
+/**
+ * How far a sale of one property type informs the value of another: 1 for the same type,
+ * less for neighbouring house types, little between houses and flats.
+ */
+export function propertyTypeSimilarity(subject: PropertyType, comparable: PropertyType): number {
+  if (subject === comparable) {
+    return 1;
+  }
+  const subjectRank = HOUSE_TYPES.indexOf(subject);
+  const comparableRank = HOUSE_TYPES.indexOf(comparable);
+  if (subjectRank >= 0 && comparableRank >= 0) {
+    return Math.abs(subjectRank - comparableRank) === 1 ? 0.5 : 0.25;
+  }
+  if (subject === 'other' || comparable === 'other') {
+    return 0.1;
+  }
+  return 0.05;
+}
+
+/**
+ * Value at a cumulative weight fraction of the weighted values, sorted ascending.
+ */
+export function weightedPercentile(
+  values: Array<{ value: number; weight: number }>,
+  fraction: number
+): number {
+  const sorted = [...values].sort((a, b) => a.value - b.value);
+  const totalWeight = sorted.reduce((sum, entry) => sum + entry.weight, 0);
+  let cumulative = 0;
+  for (const entry of sorted) {
+    cumulative += entry.weight;
+    if (cumulative >= fraction * totalWeight) {
+      return entry.value;
+    }
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+const HPI_PROPERTY_TYPES: Partial<Record<PropertyType, HpiPropertyType>> = {
+  detached: 'detached',
+  'semi-detached': 'semi-detached',
+  terraced: 'terraced',
+  flat: 'flat',
+};
+
+/**
+ * HPI value for the month of a date: the property type's own index where published,
+ * otherwise the all-property index. Months outside the series use its nearest end.
+ */
+export function hpiValue(
+  months: HpiObservation[],
+  date: string,
+  propertyType: PropertyType
+): number | undefined {
+  const month = date.slice(0, 7);
+  const observation = [...months].reverse().find(entry => entry.month <= month) ?? months[0];
+  if (!observation) {
+    return undefined;
+  }
+  const hpiType = HPI_PROPERTY_TYPES[propertyType];
+  return (hpiType && observation.byPropertyType[hpiType]?.index) ?? observation.index;
+}
+
+function normalizePart(value?: string): string | undefined {
+  return value?.trim().replace(/\s+/g, ' ').toUpperCase() || undefined;
+}
+
+function mostCommon(values: Array<string | undefined>): string | undefined {
+  const counts = new Map<string, number>();
+  values.filter(Boolean).forEach(value => counts.set(value!, (counts.get(value!) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * UKHPI regions to try, most local first: the requested region, or the county of most
+ * comparables (with and without a "City of" style prefix), then the whole UK.
+ */
+function hpiRegionCandidates(hpiRegion: string | undefined, sales: NearbyPropertyPrice[]) {
+  if (hpiRegion) {
+    return [regionSlug(hpiRegion)];
+  }
+  const county = mostCommon(sales.map(sale => sale.county));
+  const candidates = county
+    ? [regionSlug(county), regionSlug(county.replace(/^(CITY|COUNTY|CITY AND COUNTY) OF /i, ''))]
+    : [];
+  return [...new Set([...candidates, FALLBACK_HPI_REGION])];
+}
+
+async function loadHpiForValuation(
+  endpoint: string,
+  candidates: string[],
+  fromMonth: string
+): Promise<{ slug: string; months: HpiObservation[] }> {
+  for (const slug of candidates) {
+    const { months } = await loadHpiMonths(endpoint, slug, { fromMonth, limit: 600 });
+    if (months.length > 0) {
+      return { slug, months };
+    }
+    logWarn('No UKHPI data for region, trying the next candidate', { region: slug });
+  }
+  throw new Error(`No UKHPI data found for region ${candidates.join(' or ')}`);
+}
+
+/**
+ * Estimate today's value of a property from nearby sales: each comparable is indexed to
+ * the latest HPI month and weighted by distance, recency, property type and tenure
+ * similarity. Previous sales of the property itself (matched by paon/saon) count extra.
+ */
+export async function estimateValue(
+  endpoint: string,
+  params: ValuationParams,
+  options?: { dbPath?: string }
+): Promise<ValuationResponse> {
+  const postcode = formatPostcode(params.postcode);
+  const paon = normalizePart(params.paon);
+  const saon = normalizePart(params.saon);
+  const today = new Date().toISOString().slice(0, 10);
+  const fromDate = new Date(Date.now() - params.lookbackYears * 365.25 * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+
+  const nearby = await searchNearbySales(
+    endpoint,
+    {
+      postcode,
+      radiusMeters: params.radiusMeters,
+      maxPostcodes: params.maxPostcodes,
+      fromDate,
+      transactionCategory: 'standard',
+      limit: MAX_COMPARABLE_SALES,
+      offset: 0,
+      sortBy: 'distance',
+      sortOrder: 'asc',
+    },
+    options
+  );
+  const sales = nearby.properties;
+  if (sales.length === 0) {
+    throw new Error(
+      `No comparable sales found within ${params.radiusMeters}m of ${postcode} since ${fromDate}; widen radiusMeters or lookbackYears`
+    );
+  }
+
+  const earliestMonth = sales.map(sale => sale.date.slice(0, 7)).sort()[0];
+  const hpi = await loadHpiForValuation(
+    endpoint,
+    hpiRegionCandidates(params.hpiRegion, sales),
+    earliestMonth
+  );
+  const latest = hpi.months[hpi.months.length - 1];
+
+  const weighted = sales.map(sale => {
+    const saleIndex = hpiValue(hpi.months, sale.date, sale.propertyType);
+    const latestIndex = hpiValue(hpi.months, latest.month, sale.propertyType);
+    const indexRatio = saleIndex && latestIndex ? latestIndex / saleIndex : 1;
+
+    const isSubjectProperty =
+      paon !== undefined &&
+      sale.postcode === postcode &&
+      normalizePart(sale.paon) === paon &&
+      normalizePart(sale.saon) === saon;
+    const weight =
+      (1 / (1 + sale.distanceMeters / DISTANCE_SCALE_METERS)) *
+      0.5 ** (Math.max(0, yearsBetween(sale.date, today)) / RECENCY_HALF_LIFE_YEARS) *
+      propertyTypeSimilarity(params.propertyType, sale.propertyType) *
+      (params.estateType && sale.estateType && sale.estateType !== params.estateType
+        ? DIFFERENT_TENURE_WEIGHT
+        : 1) *
+      (isSubjectProperty ? SUBJECT_SALE_WEIGHT : 1);
+
+    return {
+      ...sale,
+      adjustedPrice: Math.round(sale.price * indexRatio),
+      indexRatio: Math.round(indexRatio * 10000) / 10000,
+      weight,
+      ...(isSubjectProperty && { isSubjectProperty }),
+    };
+  });
+
+  const totalWeight = weighted.reduce((sum, sale) => sum + sale.weight, 0);
+  const sumOfSquares = weighted.reduce((sum, sale) => sum + sale.weight ** 2, 0);
+  const values = weighted.map(sale => ({ value: sale.adjustedPrice, weight: sale.weight }));
+
+  const comparables: ComparableSale[] = weighted
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, params.maxComparables)
+    .map(sale => ({ ...sale, weight: Math.round((sale.weight / totalWeight) * 10000) / 10000 }));
+
+  const estimate = weightedPercentile(values, 0.5);
+  logInfo('Valuation estimated', {
+    postcode,
+    propertyType: params.propertyType,
+    comparableCount: weighted.length,
+    hpiRegion: hpi.slug,
+    estimate,
+  });
+
+  return {
+    subject: {
+      postcode,
+      propertyType: params.propertyType,
+      paon,
+      saon,
+      estateType: params.estateType,
+    },
+    estimate,
+    range: { low: weightedPercentile(values, 0.25), high: weightedPercentile(values, 0.75) },
+    valuationMonth: latest.month,
+    hpiRegion: hpi.slug,
+    comparableCount: weighted.length,
+    effectiveComparableCount: Math.round(((totalWeight * totalWeight) / sumOfSquares) * 10) / 10,
+    comparables,
+  };
+}
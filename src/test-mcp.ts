@@ -1,7 +1,8 @@
 import { searchProperties } from './services/sparqlService.js';
 import { SearchParams, SearchResponse } from './models/types.js';
+import { initConfig } from './utils/config.js';
 
-const LAND_REGISTRY_ENDPOINT = 'https://landregistry.data.gov.uk/landregistry/query';
+const LAND_REGISTRY_ENDPOINT = initConfig(process.argv.slice(2)).config.endpoint;
 
 interface TestCase {
   name: string;
@@ -0,0 +1,137 @@
+/**
+ * Street and town name normalisation for matching Land Registry address strings,
+ * which are upper case, unabbreviated and inconsistent about apostrophes.
+ */
+
+const MAX_VARIANTS = 12;
+
+/**
+ * Street-type abbreviations and the full words Land Registry uses.
+ */
+const STREET_SUFFIXES: Record<string, string> = {
+  RD: 'ROAD',
+  ST: 'STREET',
+  AVE: 'AVENUE',
+  AV: 'AVENUE',
+  LN: 'LANE',
+  DR: 'DRIVE',
+  CL: 'CLOSE',
+  CRES: 'CRESCENT',
+  CRESC: 'CRESCENT',
+  GDNS: 'GARDENS',
+  GRN: 'GREEN',
+  GR: 'GROVE',
+  GRO: 'GROVE',
+  PL: 'PLACE',
+  SQ: 'SQUARE',
+  TER: 'TERRACE',
+  TERR: 'TERRACE',
+  CT: 'COURT',
+  PK: 'PARK',
+  PDE: 'PARADE',
+  HL: 'HILL',
+  WY: 'WAY',
+  MWS: 'MEWS',
+};
+
+const FULL_STREET_SUFFIXES = new Set(Object.values(STREET_SUFFIXES));
+
+/**
+ * Upper-case, drop apostrophes and full stops, turn other separators into spaces and
+ * collapse whitespace. Hyphens are kept because they are part of many place names.
+ */
+export function normalizeAddressText(value: string): string {
+  return value
+    .toUpperCase()
+    .replace(/['’`]/g, '')
+    .replace(/[.,;:/\\()]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tokenAlternatives(token: string, index: number, tokens: string[], isStreet: boolean) {
+  const isLast = index === tokens.length - 1;
+
+  if (token === 'ST' || token === 'SAINT') {
+    // A trailing ST is "Street"; anywhere else it is "Saint"
+    if (isStreet && isLast && tokens.length > 1) {
+      return ['STREET'];
+    }
+    return token === 'ST' ? ['ST', 'SAINT'] : ['SAINT', 'ST'];
+  }
+
+  if (isStreet && isLast && STREET_SUFFIXES[token]) {
+    return [STREET_SUFFIXES[token]];
+  }
+
+  // Possessives such as JOHNS / JOHN'S are recorded both ways
+  if (!isLast && token.length > 2 && token.endsWith('S') && !token.endsWith('SS')) {
+    return [token, `${token.slice(0, -1)}'S`];
+  }
+
+  return [token];
+}
+
+function expandVariants(value: string, isStreet: boolean): string[] {
+  const tokens = normalizeAddressText(value).split(' ').filter(Boolean);
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  let variants: string[][] = [[]];
+  tokens.forEach((token, index) => {
+    const alternatives = tokenAlternatives(token, index, tokens, isStreet);
+    variants = variants
+      .flatMap(prefix => alternatives.map(alternative => [...prefix, alternative]))
+      .slice(0, MAX_VARIANTS);
+  });
+
+  // Keep the caller's own spelling first so an exact match is always attempted
+  const typed = value.trim().replace(/\s+/g, ' ').toUpperCase();
+  const unique = new Set([typed, ...variants.map(parts => parts.join(' '))]);
+  return [...unique].slice(0, MAX_VARIANTS);
+}
+
+/**
+ * Candidate spellings of a street name, e.g. "St Johns Rd" yields "ST JOHNS ROAD",
+ * "ST JOHN'S ROAD", "SAINT JOHNS ROAD" and "SAINT JOHN'S ROAD".
+ */
+export function streetVariants(street: string): string[] {
+  return expandVariants(street, true);
+}
+
+/**
+ * Candidate spellings of a town or locality name (apostrophe and Saint/St variants only).
+ */
+export function placeVariants(place: string): string[] {
+  return expandVariants(place, false);
+}
+
+/**
+ * Prefixes for a loose STRSTARTS match: the street name without its street-type word
+ * and without a trailing possessive S, in each Saint/St spelling.
+ */
+export function streetPrefixes(street: string): string[] {
+  const tokens = normalizeAddressText(street).split(' ').filter(Boolean);
+  const last = tokens[tokens.length - 1];
+  if (
+    tokens.length > 1 &&
+    (FULL_STREET_SUFFIXES.has(last) || STREET_SUFFIXES[last] !== undefined)
+  ) {
+    tokens.pop();
+  }
+
+  const lastCore = tokens[tokens.length - 1];
+  if (tokens.length > 1 && lastCore.length > 2 && lastCore.endsWith('S')) {
+    tokens[tokens.length - 1] = lastCore.slice(0, -1);
+  }
+
+  const core = tokens.join(' ');
+  const prefixes = [core];
+  if (tokens[0] === 'ST') {
+    prefixes.push(['SAINT', ...tokens.slice(1)].join(' '));
+  } else if (tokens[0] === 'SAINT') {
+    prefixes.push(['ST', ...tokens.slice(1)].join(' '));
+  }
+  return prefixes.filter(Boolean);
+}
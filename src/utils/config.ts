@@ -0,0 +1,210 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'node:util';
+import { Config, ConfigSchema } from '../models/config.js';
+
+type Env = Record<string, string | undefined>;
+type ConfigInput = Record<string, unknown> & { runSparql?: Record<string, unknown> };
+
+export const DEFAULT_CONFIG_PATH = path.join(os.homedir(), '.property-prices-mcp', 'config.json');
+
+const CLI_OPTIONS = {
+  config: { type: 'string' },
+  endpoint: { type: 'string' },
+  'postcode-db': { type: 'string' },
+  backend: { type: 'string' },
+  'price-paid-db': { type: 'string' },
+  'default-limit': { type: 'string' },
+  'timeout-ms': { type: 'string' },
+  'max-retries': { type: 'string' },
+  'max-concurrency': { type: 'string' },
+  'requests-per-second': { type: 'string' },
+  'cache-path': { type: 'string' },
+  'no-cache': { type: 'boolean' },
+  'log-dir': { type: 'string' },
+  'log-level': { type: 'string' },
+  tools: { type: 'string' },
+} as const;
+
+type ParsedArgs = ReturnType<
+  typeof parseArgs<{ options: typeof CLI_OPTIONS; allowPositionals: true }>
+>;
+
+let activeConfig: Config | undefined;
+const configFiles = new Map<string, ConfigInput>();
+
+function numberValue(value?: string): number | undefined {
+  return value === undefined || value === '' ? undefined : Number(value);
+}
+
+function listValue(value?: string): string[] | undefined {
+  return value
+    ?.split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+function withoutUndefined<T extends Record<string, unknown>>(values: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Read a JSON config file, resolving relative paths in it against the file's directory.
+ */
+function readConfigFile(configPath: string): ConfigInput {
+  const cached = configFiles.get(configPath);
+  if (cached) {
+    return cached;
+  }
+
+  let values: ConfigInput;
+  try {
+    values = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Cannot read config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+  const directory = path.dirname(configPath);
+  for (const key of ['postcodeDbPath', 'pricePaidDbPath', 'cachePath', 'logDirectory']) {
+    if (typeof values[key] === 'string') {
+      values[key] = path.resolve(directory, values[key] as string);
+    }
+  }
+  configFiles.set(configPath, values);
+  return values;
+}
+
+function fromEnv(env: Env): ConfigInput {
+  return withoutUndefined({
+    endpoint: env.LAND_REGISTRY_ENDPOINT || undefined,
+    postcodeDbPath: env.POSTCODE_DB_PATH || undefined,
+    pricePaidBackend: env.PRICE_PAID_BACKEND || undefined,
+    pricePaidDbPath: env.PRICE_PAID_DB_PATH || undefined,
+    defaultLimit: numberValue(env.SEARCH_DEFAULT_LIMIT),
+    sparqlTimeoutMs: numberValue(env.SPARQL_TIMEOUT_MS),
+    sparqlMaxRetries: numberValue(env.SPARQL_MAX_RETRIES),
+    sparqlRetryBaseDelayMs: numberValue(env.SPARQL_RETRY_BASE_DELAY_MS),
+    sparqlRetryMaxDelayMs: numberValue(env.SPARQL_RETRY_MAX_DELAY_MS),
+    sparqlMaxConcurrency: numberValue(env.SPARQL_MAX_CONCURRENCY),
+    sparqlRequestsPerSecond: numberValue(env.SPARQL_REQUESTS_PER_SECOND),
+    sparqlMaxQueuedRequests: numberValue(env.SPARQL_MAX_QUEUED_REQUESTS),
+    cacheEnabled: env.SPARQL_CACHE ? !['off', 'false', '0'].includes(env.SPARQL_CACHE) : undefined,
+    cachePath: env.SPARQL_CACHE_PATH || undefined,
+    cacheTtlSeconds: numberValue(env.SPARQL_CACHE_TTL_SECONDS),
+    cacheMaxMegabytes: numberValue(env.SPARQL_CACHE_MAX_MB),
+    logDirectory: env.LOG_DIR || undefined,
+    logLevel: env.LOG_LEVEL || undefined,
+    enabledTools: listValue(env.ENABLED_TOOLS),
+    runSparql: withoutUndefined({
+      maxLimit: numberValue(env.RUN_SPARQL_MAX_LIMIT),
+      timeoutMs: numberValue(env.RUN_SPARQL_TIMEOUT_MS),
+      allowService: env.RUN_SPARQL_ALLOW_SERVICE
+        ? env.RUN_SPARQL_ALLOW_SERVICE === 'true'
+        : undefined,
+      allowedForms: listValue(env.RUN_SPARQL_FORMS)?.map(form => form.toUpperCase()),
+    }),
+  });
+}
+
+function fromFlags(values: ParsedArgs['values']): ConfigInput {
+  return withoutUndefined({
+    endpoint: values.endpoint,
+    postcodeDbPath: values['postcode-db'],
+    pricePaidBackend: values.backend,
+    pricePaidDbPath: values['price-paid-db'],
+    defaultLimit: numberValue(values['default-limit']),
+    sparqlTimeoutMs: numberValue(values['timeout-ms']),
+    sparqlMaxRetries: numberValue(values['max-retries']),
+    sparqlMaxConcurrency: numberValue(values['max-concurrency']),
+    sparqlRequestsPerSecond: numberValue(values['requests-per-second']),
+    cacheEnabled: values['no-cache'] ? false : undefined,
+    cachePath: values['cache-path'],
+    logDirectory: values['log-dir'],
+    logLevel: values['log-level'],
+    enabledTools: listValue(values.tools),
+  });
+}
+
+/**
+ * Build the configuration from defaults, then the config file (`--config`,
+ * PROPERTY_PRICES_MCP_CONFIG or ~/.property-prices-mcp/config.json if present), then
+ * environment variables, then command-line flags. Invalid settings throw.
+ */
+export function loadConfig(options: { argv?: string[]; env?: Env } = {}): {
+  config: Config;
+  positionals: string[];
+} {
+  const env = options.env ?? process.env;
+  let parsed: ParsedArgs;
+  try {
+    parsed = parseArgs({ args: options.argv ?? [], options: CLI_OPTIONS, allowPositionals: true });
+  } catch (error) {
+    throw new Error(
+      `Invalid command-line options: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const explicitPath = parsed.values.config ?? env.PROPERTY_PRICES_MCP_CONFIG;
+  const configPath = explicitPath
+    ? path.resolve(explicitPath)
+    : fs.existsSync(DEFAULT_CONFIG_PATH)
+      ? DEFAULT_CONFIG_PATH
+      : undefined;
+
+  const sources = [
+    configPath ? readConfigFile(configPath) : {},
+    fromEnv(env),
+    fromFlags(parsed.values),
+  ];
+  const merged = sources.reduce<ConfigInput>(
+    (result, source) => ({
+      ...result,
+      ...source,
+      runSparql: { ...result.runSparql, ...source.runSparql },
+    }),
+    {}
+  );
+
+  const result = ConfigSchema.safeParse(merged);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid configuration: ${issues}`);
+  }
+  return { config: result.data, positionals: parsed.positionals };
+}
+
+/**
+ * Load the configuration for an entry point (server, CLI) from its command-line
+ * arguments and make it the one `getConfig` returns.
+ */
+export function initConfig(argv: string[] = process.argv.slice(2)): {
+  config: Config;
+  positionals: string[];
+} {
+  const loaded = loadConfig({ argv });
+  activeConfig = loaded.config;
+  return loaded;
+}
+
+/**
+ * The configuration set up by `initConfig`, or (for library use and tests) one read
+ * from the environment and config file on first use.
+ */
+export function getConfig(): Config {
+  activeConfig ??= loadConfig().config;
+  return activeConfig;
+}
+
+/**
+ * Forget the loaded configuration so the next `getConfig` reads it again, e.g. after a
+ * test changes the environment.
+ */
+export function resetConfig(): void {
+  activeConfig = undefined;
+}
@@ -2,6 +2,7 @@ import winston from 'winston';
 import path from 'path';
 import os from 'os';
 import fs from 'fs';
+import { getConfig } from './config.js';
 
 /**
  * Get the appropriate log directory based on the operating system
@@ -30,7 +31,8 @@ const getLogDirectory = (): string => {
  * Create and configure the Winston logger instance
  */
 const createLogger = (): winston.Logger => {
-  const logDirectory = getLogDirectory();
+  const config = getConfig();
+  const logDirectory = config.logDirectory || getLogDirectory();
   fs.mkdirSync(logDirectory, { recursive: true });
 
   // Single log file for all logs
@@ -38,7 +40,7 @@ const createLogger = (): winston.Logger => {
   const exceptionLogFile = path.join(logDirectory, 'exceptions.log');
 
   return winston.createLogger({
-    level: process.env.LOG_LEVEL || 'info',
+    level: config.logLevel,
     format: winston.format.combine(winston.format.timestamp(), winston.format.json()),
     defaultMeta: { service: 'property-prices-mcp' },
     transports: [
@@ -59,26 +61,31 @@ const createLogger = (): winston.Logger => {
   });
 };
 
-// Create a singleton instance
-const logger = createLogger();
+// Created on first use so the configuration is loaded before the log location is chosen
+let instance: winston.Logger | undefined;
+
+export const getLogger = (): winston.Logger => {
+  instance ??= createLogger();
+  return instance;
+};
 
 // Type-safe logging functions
 type LogMetadata = Record<string, unknown>;
 
 export const logInfo = (message: string, metadata?: LogMetadata): void => {
-  logger.info(message, metadata);
+  getLogger().info(message, metadata);
 };
 
 export const logError = (message: string, metadata?: LogMetadata): void => {
-  logger.error(message, metadata);
+  getLogger().error(message, metadata);
 };
 
 export const logWarn = (message: string, metadata?: LogMetadata): void => {
-  logger.warn(message, metadata);
+  getLogger().warn(message, metadata);
 };
 
 export const logDebug = (message: string, metadata?: LogMetadata): void => {
-  logger.debug(message, metadata);
+  getLogger().debug(message, metadata);
 };
 
 // Specialized logging functions for SPARQL and MCP operations
@@ -93,15 +100,25 @@ interface SparqlLogMetadata extends LogMetadata {
 }
 
 export const logSparqlRequest = (message: string, metadata: SparqlLogMetadata): void => {
-  logger.info(message, { ...metadata, type: 'sparql_request' });
+  getLogger().info(message, { ...metadata, type: 'sparql_request' });
 };
 
 export const logSparqlResponse = (message: string, metadata: SparqlLogMetadata): void => {
-  logger.info(message, { ...metadata, type: 'sparql_response' });
+  getLogger().info(message, { ...metadata, type: 'sparql_response' });
 };
 
 export const logSparqlError = (message: string, metadata: SparqlLogMetadata): void => {
-  logger.error(message, { ...metadata, type: 'sparql_error' });
+  getLogger().error(message, { ...metadata, type: 'sparql_error' });
+};
+
+interface SparqlCacheLogMetadata extends LogMetadata {
+  endpoint: string;
+  key: string;
+  outcome: 'hit' | 'miss' | 'refresh' | 'shared' | 'error';
+}
+
+export const logSparqlCache = (message: string, metadata: SparqlCacheLogMetadata): void => {
+  getLogger().info(message, { ...metadata, type: 'sparql_cache' });
 };
 
 interface McpLogMetadata extends LogMetadata {
@@ -113,16 +130,13 @@ interface McpLogMetadata extends LogMetadata {
 }
 
 export const logMcpRequest = (message: string, metadata: McpLogMetadata): void => {
-  logger.info(message, { ...metadata, type: 'mcp_request' });
+  getLogger().info(message, { ...metadata, type: 'mcp_request' });
 };
 
 export const logMcpResponse = (message: string, metadata: McpLogMetadata): void => {
-  logger.info(message, { ...metadata, type: 'mcp_response' });
+  getLogger().info(message, { ...metadata, type: 'mcp_response' });
 };
 
 export const logMcpError = (message: string, metadata: McpLogMetadata): void => {
-  logger.error(message, { ...metadata, type: 'mcp_error' });
+  getLogger().error(message, { ...metadata, type: 'mcp_error' });
 };
-
-// Export the logger instance for advanced use cases
-export { logger };
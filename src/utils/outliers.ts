@@ -0,0 +1,70 @@
+import { OutlierFlag, PropertyPrice } from '../models/types.js';
+import { median } from '../services/statisticsService.js';
+
+/**
+ * Heuristics for sales that are unlikely to reflect open-market value: Additional Price
+ * Paid (category B) entries, token prices such as £1 transfers, and prices far from the
+ * median for the same property type and year among the sales being examined.
+ */
+
+export const MIN_PLAUSIBLE_PRICE = 10000;
+export const EXTREME_PRICE_RATIO = 5; // flag prices above 5x or below 1/5 of the group median
+const MIN_GROUP_SIZE = 5; // smaller groups give no reliable median
+
+function groupKey(sale: PropertyPrice): string {
+  return `${sale.propertyType}|${sale.date.slice(0, 4)}`;
+}
+
+/**
+ * Copy of the sales with `outlierFlags` set on any that look like non-market or
+ * mistyped transactions. Group medians exclude sales already flagged on their own.
+ */
+export function flagOutliers<T extends PropertyPrice>(sales: T[]): T[] {
+  const ownFlags = sales.map(sale => {
+    const flags: OutlierFlag[] = [];
+    if (sale.transactionCategory === 'additional') {
+      flags.push('additionalCategory');
+    }
+    if (sale.price < MIN_PLAUSIBLE_PRICE) {
+      flags.push('lowPrice');
+    }
+    return flags;
+  });
+
+  const groups = new Map<string, number[]>();
+  sales.forEach((sale, index) => {
+    if (ownFlags[index].length === 0) {
+      const key = groupKey(sale);
+      groups.set(key, [...(groups.get(key) ?? []), sale.price]);
+    }
+  });
+  const medians = new Map<string, number>();
+  groups.forEach((prices, key) => {
+    if (prices.length >= MIN_GROUP_SIZE) {
+      medians.set(key, median(prices));
+    }
+  });
+
+  return sales.map((sale, index) => {
+    const flags = ownFlags[index];
+    const groupMedian = medians.get(groupKey(sale));
+    if (
+      groupMedian !== undefined &&
+      (sale.price > groupMedian * EXTREME_PRICE_RATIO ||
+        sale.price < groupMedian / EXTREME_PRICE_RATIO)
+    ) {
+      flags.push('extremePrice');
+    }
+    return flags.length > 0 ? { ...sale, outlierFlags: flags } : sale;
+  });
+}
+
+/**
+ * Drop flagged sales, returning the rest and how many were removed.
+ */
+export function excludeOutliers<T extends PropertyPrice>(
+  sales: T[]
+): { sales: T[]; excluded: number } {
+  const kept = flagOutliers(sales).filter(sale => !sale.outlierFlags);
+  return { sales: kept, excluded: sales.length - kept.length };
+}
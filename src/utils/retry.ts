@@ -0,0 +1,66 @@
+/** HTTP statuses worth retrying: timeouts, rate limiting and transient server errors. */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export interface BackoffOptions {
+  /** Delay before the first retry; doubles for each further attempt. */
+  baseDelayMs: number;
+  /** Upper bound for any single delay, including one asked for by Retry-After. */
+  maxDelayMs: number;
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header, given as seconds or an HTTP date.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const trimmed = header.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry number `attempt` (from 1): the server's Retry-After when given,
+ * otherwise exponential backoff with full jitter. Both are capped at `maxDelayMs`.
+ */
+export function retryDelayMs(
+  attempt: number,
+  options: BackoffOptions,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, options.maxDelayMs);
+  }
+  const ceiling = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Resolve after `ms`, or reject with the signal's reason as soon as it aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
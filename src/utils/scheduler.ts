@@ -0,0 +1,131 @@
+export interface SchedulerOptions {
+  /** Most tasks running at once. */
+  maxConcurrent: number;
+  /** Starts per second, spread evenly rather than in bursts. */
+  requestsPerSecond: number;
+  /** Most tasks waiting to start; further tasks are rejected. */
+  maxQueued: number;
+}
+
+export interface RequestScheduler {
+  /**
+   * Run `task` once there is a free slot and budget, taking turns with other owners'
+   * queued tasks. Rejects with the signal's reason if it aborts before the task starts.
+   */
+  run<T>(owner: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+  /** Change the limits, keeping the tasks already running or queued. */
+  configure(options: SchedulerOptions): void;
+  stats(): { active: number; queued: number };
+}
+
+interface QueuedTask {
+  start: () => void;
+  cancel: () => void;
+}
+
+/**
+ * A scheduler that caps concurrency and start rate, queueing tasks per owner and starting
+ * owners' tasks round-robin so one busy owner cannot starve the others.
+ */
+export function createRequestScheduler(
+  options: SchedulerOptions,
+  now: () => number = Date.now
+): RequestScheduler {
+  let limits = options;
+  let intervalMs = 1000 / limits.requestsPerSecond;
+  // Map iteration order doubles as the round-robin order of owners
+  const queues = new Map<string, QueuedTask[]>();
+  let active = 0;
+  let queued = 0;
+  let nextStartAt = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  function nextTask(): QueuedTask | undefined {
+    const [owner, tasks] = queues.entries().next().value ?? [];
+    if (!owner || !tasks) {
+      return undefined;
+    }
+    const task = tasks.shift();
+    queues.delete(owner);
+    if (tasks.length > 0) {
+      queues.set(owner, tasks);
+    }
+    queued--;
+    return task;
+  }
+
+  function pump(): void {
+    while (active < limits.maxConcurrent && queued > 0) {
+      const waitMs = nextStartAt - now();
+      if (waitMs > 0) {
+        timer ??= setTimeout(() => {
+          timer = undefined;
+          pump();
+        }, waitMs);
+        return;
+      }
+      nextStartAt = Math.max(nextStartAt, now()) + intervalMs;
+      nextTask()?.start();
+    }
+  }
+
+  return {
+    run<T>(owner: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+      if (signal?.aborted) {
+        return Promise.reject(signal.reason);
+      }
+      if (queued >= limits.maxQueued) {
+        return Promise.reject(
+          new Error(
+            `Too many SPARQL requests waiting (${queued}); the limit is ${limits.maxQueued}. Try again shortly or narrow the request.`
+          )
+        );
+      }
+
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = () => queuedTask.cancel();
+        const queuedTask: QueuedTask = {
+          start: () => {
+            signal?.removeEventListener('abort', onAbort);
+            active++;
+            task()
+              .then(resolve, reject)
+              .finally(() => {
+                active--;
+                pump();
+              });
+          },
+          cancel: () => {
+            const tasks = queues.get(owner) ?? [];
+            const index = tasks.indexOf(queuedTask);
+            if (index >= 0) {
+              tasks.splice(index, 1);
+              queued--;
+              if (tasks.length === 0) {
+                queues.delete(owner);
+              }
+            }
+            reject(signal?.reason);
+          },
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const tasks = queues.get(owner);
+        if (tasks) {
+          tasks.push(queuedTask);
+        } else {
+          queues.set(owner, [queuedTask]);
+        }
+        queued++;
+        pump();
+      });
+    },
+
+    configure(next: SchedulerOptions): void {
+      limits = next;
+      intervalMs = 1000 / next.requestsPerSecond;
+      pump();
+    },
+
+    stats: () => ({ active, queued }),
+  };
+}
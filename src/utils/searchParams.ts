@@ -0,0 +1,64 @@
+import { SearchParams } from '../models/types.js';
+import { getConfig } from './config.js';
+
+export const MAX_SEARCH_LIMIT = 1000;
+
+/**
+ * Check that a search names an area (postcode, street and city, or administrative area)
+ * and that its prices and paging are in range.
+ */
+export function validateSearchParams(params: SearchParams): void {
+  const hasAdministrativeArea = Boolean(params.district || params.county || params.locality);
+  if (!params.postcode && (!params.street || !params.city) && !hasAdministrativeArea) {
+    throw new Error(
+      'Either postcode or street and city must be provided, or a district, county or locality'
+    );
+  }
+  if (hasAdministrativeArea && (params.postcode || params.street || params.city)) {
+    throw new Error(
+      'district, county and locality cannot be combined with postcode or street/city'
+    );
+  }
+
+  // Validate numeric parameters
+  if (params.minPrice !== undefined && params.minPrice < 0) {
+    throw new Error('minPrice must be non-negative');
+  }
+  if (params.maxPrice !== undefined && params.maxPrice < 0) {
+    throw new Error('maxPrice must be non-negative');
+  }
+  if (
+    params.minPrice !== undefined &&
+    params.maxPrice !== undefined &&
+    params.minPrice > params.maxPrice
+  ) {
+    throw new Error('minPrice cannot be greater than maxPrice');
+  }
+
+  // Validate pagination parameters
+  if (params.offset !== undefined && params.offset < 0) {
+    throw new Error('offset must be non-negative');
+  }
+  if (params.limit !== undefined && params.limit <= 0) {
+    throw new Error('limit must be positive');
+  }
+  if (params.limit !== undefined && params.limit > MAX_SEARCH_LIMIT) {
+    throw new Error(`limit cannot exceed ${MAX_SEARCH_LIMIT}`);
+  }
+}
+
+/**
+ * Search parameters as the queries use them: street and city upper-cased (Land Registry
+ * data appears to be case-sensitive), default paging, and only standard-category sales
+ * when outliers are excluded.
+ */
+export function normalizeSearchParams(params: SearchParams): SearchParams {
+  return {
+    ...params,
+    ...(params.street && { street: params.street.toUpperCase() }),
+    ...(params.city && { city: params.city.toUpperCase() }),
+    ...(params.excludeOutliers && { transactionCategory: 'standard' as const }),
+    limit: params.limit || getConfig().defaultLimit,
+    offset: params.offset || 0,
+  };
+}